@@ -0,0 +1,229 @@
+// Local stand-in for the product REST API used when VITE_PRODUCT_BACKEND=http.
+// Data lives in memory and is seeded from seed.json on every start.
+//
+//   npm run mock-api                       # http://localhost:4000
+//   PORT=5000 MOCK_LATENCY_MS=800 MOCK_FAIL_RATE=0.3 npm run mock-api
+//
+// MOCK_LATENCY_MS delays every response; MOCK_FAIL_RATE makes that fraction of
+// writes fail with 500 so optimistic updates and rollbacks can be exercised.
+//
+// POST /sync is the endpoint for the offline outbox (VITE_SYNC_URL): it takes one
+// queued entry at a time and applies it to the same in-memory data, so GET /products
+// shows what has been synced so far.
+import { createServer } from "node:http";
+import { readFileSync } from "node:fs";
+
+const PORT = Number(process.env.PORT ?? 4000);
+const LATENCY = Number(process.env.MOCK_LATENCY_MS ?? 0);
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE ?? 0);
+
+const readJson = (file) => JSON.parse(readFileSync(new URL(file, import.meta.url), "utf8"));
+
+let products = readJson("./seed.json");
+// Attribute schemas keyed by category name, mirroring DEFAULT_ATTRIBUTES in the app
+const attributes = readJson("./attributes.json");
+let categories = [...new Set(products.map((p) => p.danhMuc))].map((ten, i) => ({
+  id: `cat-${i + 1}`,
+  ten,
+  parentId: null,
+  dacTinh: attributes[ten] ?? [],
+}));
+
+let orders = [];
+
+const applied = new Set(); // outbox entry ids, so a replayed entry is applied only once
+
+// Ids merged into another product (idCu) stay taken so old links keep resolving
+const nextId = () => products.reduce((m, p) => Math.max(m, p.id, ...(p.idCu ?? [])), 0) + 1;
+
+// phienBan is the product's revision: a write must carry the revision it was based on
+// and gets the next one, otherwise it is rejected with 409 Conflict.
+const sameContent = (a, b) => JSON.stringify({ ...a, phienBan: 0 }) === JSON.stringify({ ...b, phienBan: 0 });
+const conflict = (p) => ({ error: `Product ${p.id} is at revision ${p.phienBan}`, product: p });
+
+// A full-list write ({ products, known, changed }): the stale product it would overwrite
+// or drop, or the list it leaves. `known` holds the [id, phienBan] pairs the writer started
+// from and `changed` the ids it changed or added, as the app's local backend does it:
+// products the writer never saw are kept, ones it left untouched stay as stored, and ones
+// it changed or dropped must still be at the revision it knew. A bare array (no `known`)
+// replaces the list as is.
+const replaceProducts = ({ products: next, known, changed = [] }) => {
+  const byId = new Map(products.map((p) => [p.id, p]));
+  const nextIds = new Set(next.map((p) => p.id));
+  const knownRevisions = known && new Map(known);
+  const touched = (p) => !knownRevisions || changed.includes(p.id);
+  const dropped = knownRevisions && products.find((s) => !nextIds.has(s.id) && knownRevisions.has(s.id) && knownRevisions.get(s.id) !== s.phienBan);
+  if (dropped) return { stale: dropped };
+  const stale = next.find((p) => touched(p) && byId.has(p.id) && !sameContent(byId.get(p.id), p) && byId.get(p.id).phienBan !== p.phienBan);
+  if (stale) return { stale: byId.get(stale.id) };
+  const addedElsewhere = knownRevisions ? products.filter((s) => !nextIds.has(s.id) && !knownRevisions.has(s.id)) : [];
+  return {
+    list: [
+      ...addedElsewhere,
+      ...next.flatMap((p) => {
+        const existing = byId.get(p.id);
+        if (!touched(p)) return existing ? [existing] : [];
+        if (!existing) return [{ ...p, phienBan: 1 }];
+        return [sameContent(existing, p) ? existing : { ...p, phienBan: existing.phienBan + 1 }];
+      }),
+    ],
+  };
+};
+
+const isListWrite = (body) => Array.isArray(body?.products) && (body.known === undefined || (Array.isArray(body.known) && Array.isArray(body.changed)));
+
+// A new order's id must be free; a cancellation must find the order still completed
+const orderClash = (order) => orders.find((o) => o.id === order.id)?.trangThai !== (order.trangThai === "completed" ? undefined : "completed");
+
+const saveOrder = (order) => {
+  orders = orders.some((o) => o.id === order.id) ? orders.map((o) => (o.id === order.id ? order : o)) : [...orders, order];
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET,POST,PUT,DELETE,OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+// Outbox entries carry the client's saved copy, so they are stored as sent
+const applyOp = (op) => {
+  switch (op?.kind) {
+    case "create":
+    case "update":
+      products = products.some((p) => p.id === op.product.id)
+        ? products.map((p) => (p.id === op.product.id ? op.product : p))
+        : [op.product, ...products];
+      return true;
+    case "delete":
+      products = products.filter((p) => p.id !== op.id);
+      return true;
+    case "replaceAll":
+      products = op.products;
+      return true;
+    case "saveCategories":
+      categories = op.categories;
+      if (op.products) products = op.products;
+      return true;
+    case "saveOrder":
+      products = op.products;
+      saveOrder(op.order);
+      return true;
+    default:
+      return false;
+  }
+};
+
+const readBody = async (req) => {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw ? JSON.parse(raw) : undefined;
+};
+
+const handle = async (req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  const match = pathname.match(/^\/products(?:\/(\d+))?\/?$/);
+  if (req.method === "OPTIONS") return send(res, 204);
+
+  if (pathname.replace(/\/$/, "") === "/categories") {
+    if (req.method === "GET") return send(res, 200, categories);
+    if (req.method !== "PUT") return send(res, 405, { error: "Method not allowed" });
+    if (Math.random() < FAIL_RATE) return send(res, 500, { error: "Injected failure" });
+    const body = await readBody(req);
+    if (Array.isArray(body)) {
+      categories = body;
+      return send(res, 200, categories);
+    }
+    if (!Array.isArray(body?.categories) || !isListWrite(body)) {
+      return send(res, 400, { error: "Expected an array or { categories, products }" });
+    }
+    // A rename or reassignment lands on the categories and the products together
+    const { stale, list } = replaceProducts(body);
+    if (stale) return send(res, 409, conflict(stale));
+    products = list;
+    categories = body.categories;
+    return send(res, 200, { categories, products });
+  }
+
+  const orderMatch = pathname.match(/^\/orders(?:\/(\d+))?\/?$/);
+  if (orderMatch) {
+    if (!orderMatch[1]) return req.method === "GET" ? send(res, 200, orders) : send(res, 405, { error: "Method not allowed" });
+    if (req.method !== "PUT") return send(res, 405, { error: "Method not allowed" });
+    if (Math.random() < FAIL_RATE) return send(res, 500, { error: "Injected failure" });
+    const body = await readBody(req);
+    if (body?.order?.id !== Number(orderMatch[1]) || !isListWrite(body)) {
+      return send(res, 400, { error: "Expected { order, products }" });
+    }
+    if (orderClash(body.order)) return send(res, 409, { error: `Order ${body.order.id} was changed`, order: orders.find((o) => o.id === body.order.id) });
+    // The order and its stock changes land together or not at all
+    const { stale, list } = replaceProducts(body);
+    if (stale) return send(res, 409, conflict(stale));
+    products = list;
+    saveOrder(body.order);
+    return send(res, 200, { order: body.order, products });
+  }
+
+  if (pathname.replace(/\/$/, "") === "/sync") {
+    if (req.method !== "POST") return send(res, 405, { error: "Method not allowed" });
+    if (Math.random() < FAIL_RATE) return send(res, 500, { error: "Injected failure" });
+    const entry = await readBody(req);
+    if (typeof entry?.id !== "string") return send(res, 400, { error: "Expected an outbox entry" });
+    if (!applied.has(entry.id)) {
+      if (!applyOp(entry.op)) return send(res, 400, { error: `Unknown operation ${entry.op?.kind}` });
+      applied.add(entry.id);
+    }
+    return send(res, 200, { id: entry.id });
+  }
+
+  if (!match) return send(res, 404, { error: "Not found" });
+
+  const id = match[1] ? Number(match[1]) : undefined;
+  const isWrite = req.method !== "GET";
+  if (isWrite && Math.random() < FAIL_RATE) return send(res, 500, { error: "Injected failure" });
+
+  if (id === undefined) {
+    if (req.method === "GET") return send(res, 200, products);
+    if (req.method === "POST") {
+      const created = { ...(await readBody(req)), id: nextId(), phienBan: 1 };
+      products = [created, ...products];
+      return send(res, 201, created);
+    }
+    if (req.method === "PUT") {
+      const body = await readBody(req);
+      const write = Array.isArray(body) ? { products: body } : body;
+      if (!isListWrite(write)) return send(res, 400, { error: "Expected an array or { products, known, changed }" });
+      const { stale, list } = replaceProducts(write);
+      if (stale) return send(res, 409, conflict(stale));
+      products = list;
+      return send(res, 200, products);
+    }
+    return send(res, 405, { error: "Method not allowed" });
+  }
+
+  const existing = products.find((p) => p.id === id);
+  if (!existing) return send(res, 404, { error: `Product ${id} not found` });
+  if (req.method === "GET") return send(res, 200, existing);
+  if (req.method === "PUT") {
+    const body = await readBody(req);
+    if (body?.phienBan !== existing.phienBan) return send(res, 409, conflict(existing));
+    const updated = { ...body, id, phienBan: existing.phienBan + 1 };
+    products = products.map((p) => (p.id === id ? updated : p));
+    return send(res, 200, updated);
+  }
+  if (req.method === "DELETE") {
+    products = products.filter((p) => p.id !== id);
+    return send(res, 204);
+  }
+  return send(res, 405, { error: "Method not allowed" });
+};
+
+createServer((req, res) => {
+  setTimeout(() => {
+    handle(req, res).catch((e) => send(res, 400, { error: String(e) }));
+  }, LATENCY);
+}).listen(PORT, () => {
+  console.log(`Mock product API listening on http://localhost:${PORT}/products`);
+});
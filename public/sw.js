@@ -0,0 +1,90 @@
+// Keeps the app shell available offline. Registered from main.tsx in production builds only.
+//
+// Navigations are network-first and fall back to the cached index.html (routing is
+// client-side, so it serves every path). Other same-origin GETs are answered from the
+// cache and refreshed in the background. API and sync requests go to another origin
+// and are never touched: offline writes are the outbox's job, not the cache's.
+const CACHE = "product-app-shell-v1";
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg", "/icon-maskable.svg"];
+
+// Vite fingerprints the bundle names, so they are read from index.html, plus the chunks
+// its scripts load by URL (the productQuery worker), which the page itself doesn't name.
+// `get` fetches a path, or looks it up in the cache once it has been precached.
+const shellAssets = async (get) => {
+  const html = await (await get("/")).text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((m) => m[1]);
+  const scripts = await Promise.all(assets.filter((a) => a.endsWith(".js")).map(async (a) => (await get(a)).text()));
+  const chunks = scripts.flatMap((js) => [...js.matchAll(/"(\/assets\/[^"]+\.js)"/g)].map((m) => m[1]));
+  return [...new Set([...SHELL, ...assets, ...chunks])];
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE);
+      await cache.addAll(await shellAssets((path) => fetch(path, { cache: "no-cache" })));
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k)));
+      // Each build's fingerprinted files land in the same cache; anything this build's
+      // shell doesn't list (earlier builds, run-time extras) goes, and is fetched again if
+      // still needed
+      const cache = await caches.open(CACHE);
+      const cached = async (path) => {
+        const response = await cache.match(path);
+        if (!response) throw new Error(`${path} is not cached`);
+        return response;
+      };
+      const shell = await shellAssets(cached).catch(() => null);
+      if (shell) {
+        const keep = new Set(shell);
+        const stale = (await cache.keys()).filter((req) => !keep.has(new URL(req.url).pathname));
+        await Promise.all(stale.map((req) => cache.delete(req)));
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+const remember = async (request, response) => {
+  if (!response.ok) return;
+  const cache = await caches.open(CACHE);
+  await cache.put(request, response);
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          event.waitUntil(remember("/", response.clone()));
+          return response;
+        })
+        .catch(async () => (await caches.match("/")) ?? Response.error()),
+    );
+    return;
+  }
+
+  event.respondWith(
+    (async () => {
+      const cached = await caches.match(request);
+      const network = fetch(request).then((response) => {
+        event.waitUntil(remember(request, response.clone()));
+        return response;
+      });
+      if (!cached) return network;
+      network.catch(() => {}); // offline: the cached copy is all there is
+      return cached;
+    })(),
+  );
+});
@@ -1,584 +1,8933 @@
-import React, { createContext, useContext, useMemo, useReducer, useState, useEffect } from "react";
-import { BrowserRouter, Routes, Route, Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import React, { createContext, useCallback, useContext, useDeferredValue, useMemo, useReducer, useRef, useState, useEffect, useSyncExternalStore } from "react";
+import { BrowserRouter, Routes, Route, Link, Navigate, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import {
+  buildSearchIndex,
+  categoryNamesUnder,
+  findNearDuplicates,
+  fold,
+  foldWithMap,
+  isFilterGroupNode,
+  isLowStock,
+  queryProducts,
+  WORD_RE,
+  type ProductQuery,
+  type QueryRequest,
+  type QueryResponse,
+  type SearchHit,
+} from "./productQuery";
 
 /**********************
  * Types & Constants  *
  **********************/
 
-type DanhMuc = "Điện tử" | "Quần áo" | "Đồ ăn" | "Sách" | "Khác";
+// Products refer to their category by name; renaming a category rewrites those names
+export type DanhMuc = string;
+
+export type Category = {
+  id: string;
+  ten: DanhMuc;
+  parentId: string | null; // null for a top-level category
+  dacTinh: AttributeDef[]; // sub-categories also get their ancestors' attributes
+};
+
+type AttributeKind = "text" | "number" | "date" | "select";
+
+// A custom field that products of a category carry in Product.dacTinh
+export type AttributeDef = {
+  khoa: string; // key in Product.dacTinh, unique across all categories
+  ten: string;
+  kieu: AttributeKind;
+  batBuoc: boolean;
+  donVi?: string; // number only, shown after the value, e.g. "tháng"
+  min?: number; // number only
+  max?: number;
+  luaChon?: string[]; // select only
+  mau?: string; // text only: a regular expression the whole value must match
+};
+
+type MovementType = "receipt" | "sale" | "adjustment" | "return";
+
+// One line of the stock ledger. soLuong is signed: receipts and returns add, sales subtract.
+type StockMovement = {
+  id: string;
+  loai: MovementType;
+  soLuong: number;
+  lyDo: string;
+  thoiGian: string; // ISO timestamp
+  bienTheId?: string; // set when the movement concerns one variant
+};
+
+// A list price and when it took effect
+type PriceEntry = { id: string; gia: number; thoiGian: string };
+// A list price that takes effect at the start of a future day
+type ScheduledPrice = { id: string; gia: number; tuNgay: string };
+// A temporary price from `tuNgay` through `denNgay` (both YYYY-MM-DD, inclusive)
+type SalePrice = { gia: number; tuNgay: string; denNgay: string };
+
+// Image metadata kept with the product; the pixels live in IndexedDB under the same id
+type ProductImage = {
+  id: string;
+  ten: string; // original file name
+  rong: number; // width in px after resizing
+  cao: number;
+};
+
+// An option such as size or colour, with the values it can take
+type OptionAxis = { ten: string; giaTri: string[] };
+
+// One combination of option values; giaTri lines up with Product.thuocTinh
+type Variant = {
+  id: string;
+  giaTri: string[];
+  sku: string;
+  gia: number | null; // null = the product's base price
+  soLuong: number;
+};
 
 export type Product = {
   id: number;
   ten: string;
   danhMuc: DanhMuc;
   gia: number; // VND
-  soLuong: number;
+  soLuong: number; // always equals the sum of lichSuKho
   moTa: string;
+  nguongDatHang: number; // reorder threshold, 0 = not tracked
+  lichSuKho: StockMovement[];
+  hinhAnh: ProductImage[]; // the first one is the cover
+  thuocTinh: OptionAxis[];
+  bienThe: Variant[]; // when present, soLuong is the sum of their stock
+  dacTinh: Record<string, string | number>; // custom attributes: numbers for "number", YYYY-MM-DD for "date"
+  maVach: string; // SKU or EAN-13 for labels and scanning, unique across the catalogue
+  lichSuGia: PriceEntry[]; // oldest first; the last one is always gia
+  giaHenGio: ScheduledPrice[]; // applied to gia once their day comes
+  khuyenMai: SalePrice | null; // replaces the price of the product and of variants without their own
+  idCu: number[]; // ids of products merged into this one; their links lead here
+  phienBan: number; // revision, bumped by the repository on every save
+};
+
+// What a caller supplies when creating a product; the ledger and price history are started for it
+type ProductInput = Omit<Product, "id" | "lichSuKho" | "lichSuGia" | "idCu" | "phienBan">;
+
+// One product (or variant) in the cart
+type CartLine = { sanPhamId: number; bienTheId?: string; soLuong: number };
+
+// An order line keeps the name and price as sold, so later edits don't change the order
+type OrderLine = CartLine & {
+  ten: string;
+  phanLoai?: string; // variant label
+  maVach: string; // product code or variant SKU
+  donGia: number; // VND
+};
+
+type OrderStatus = "completed" | "cancelled";
+
+type Order = {
+  id: number; // also the receipt number
+  thoiGian: string; // ISO timestamp
+  dongHang: OrderLine[];
+  tongTien: number; // VND
+  ghiChu: string;
+  nguoiBan: string | null; // who placed it, when signed in
+  trangThai: OrderStatus;
+  huyLuc?: string; // when it was cancelled
+};
+
+// Categories every new catalogue starts with (and what schema v3 and older hard-coded)
+const DEFAULT_CATEGORIES: DanhMuc[] = ["Điện tử", "Quần áo", "Đồ ăn", "Sách", "Khác"];
+
+// Attribute schemas those categories start with (and get when migrating from schema v7)
+const DEFAULT_ATTRIBUTES: Record<DanhMuc, AttributeDef[]> = {
+  "Điện tử": [
+    { khoa: "thuongHieu", ten: "Thương hiệu", kieu: "text", batBuoc: true },
+    { khoa: "baoHanh", ten: "Bảo hành", kieu: "number", batBuoc: false, donVi: "tháng", min: 0, max: 120 },
+  ],
+  "Sách": [
+    { khoa: "tacGia", ten: "Tác giả", kieu: "text", batBuoc: true },
+    { khoa: "isbn", ten: "ISBN", kieu: "text", batBuoc: false, mau: "(97[89]-?)?(\\d-?){9}[\\dX]" },
+  ],
+  "Đồ ăn": [{ khoa: "hanSuDung", ten: "Hạn sử dụng", kieu: "date", batBuoc: true }],
+};
+
+const ATTRIBUTE_KINDS: { value: AttributeKind; label: MessageKey }[] = [
+  { value: "text", label: "attributes.text" },
+  { value: "number", label: "attributes.number" },
+  { value: "date", label: "attributes.date" },
+  { value: "select", label: "attributes.select" },
+];
+
+const MOVEMENT_TYPES: { value: MovementType; label: MessageKey }[] = [
+  { value: "receipt", label: "movement.receipt" },
+  { value: "sale", label: "movement.sale" },
+  { value: "return", label: "movement.return" },
+  { value: "adjustment", label: "movement.adjustment" },
+];
+const PAGE_SIZES = [6, 12, 24, 48, 96];
+const DEFAULT_PAGE_SIZE = 6;
+
+type ListView = "grid" | "table";
+
+// URL parameters that only change how results are shown, so saved views leave them alone
+const DISPLAY_PARAMS = ["size", "view", "scroll"];
+
+type SortField = "ten" | "gia" | "soLuong" | "id";
+type SortDir = "asc" | "desc";
+export type SortKey = { field: SortField; dir: SortDir };
+
+const SORT_FIELDS: { value: SortField; label: MessageKey }[] = [
+  { value: "ten", label: "sort.ten" },
+  { value: "gia", label: "sort.gia" },
+  { value: "soLuong", label: "sort.soLuong" },
+  { value: "id", label: "sort.id" },
+];
+
+// Advanced filter: conditions combined in AND/OR groups, kept in the URL as JSON ("where")
+type FilterFieldKind = "text" | "number" | "date" | "select" | "category";
+type FilterOp = "has" | "notHas" | "eq" | "gte" | "lte" | "between" | "in" | "notIn";
+
+// `field` is a Product key or "a.<attribute key>". `values` has one entry per input:
+// two for "between" (either may be empty), any number for "in" / "notIn".
+export type FilterCondition = { field: string; op: FilterOp; values: string[] };
+export type FilterGroup = { join: "and" | "or"; items: (FilterCondition | FilterGroup)[] };
+
+const MAX_FILTER_DEPTH = 3; // nested groups, counting the top one
+
+const FILTER_FIELDS: { value: keyof Product; label: MessageKey; kind: FilterFieldKind }[] = [
+  { value: "ten", label: "field.ten", kind: "text" },
+  { value: "moTa", label: "field.moTa", kind: "text" },
+  { value: "danhMuc", label: "field.danhMuc", kind: "category" },
+  { value: "gia", label: "field.gia", kind: "number" },
+  { value: "soLuong", label: "field.soLuong", kind: "number" },
+  { value: "nguongDatHang", label: "field.nguongDatHang", kind: "number" },
+  { value: "id", label: "field.id", kind: "number" },
+  { value: "maVach", label: "field.maVach", kind: "text" },
+];
+
+// Operators offered per kind of field; the first one is picked when the field changes
+const FILTER_OPS: Record<FilterFieldKind, FilterOp[]> = {
+  text: ["has", "notHas", "eq"],
+  number: ["between", "gte", "lte", "eq"],
+  date: ["between", "gte", "lte", "eq"],
+  select: ["in", "notIn"],
+  category: ["in", "notIn"],
+};
+
+const FILTER_OP_LABELS: Record<FilterOp, MessageKey> = {
+  has: "builder.has",
+  notHas: "builder.notHas",
+  eq: "builder.eq",
+  gte: "builder.gte",
+  lte: "builder.lte",
+  between: "builder.between",
+  in: "builder.in",
+  notIn: "builder.notIn",
+};
+
+/************************
+ * Internationalisation *
+ ************************/
+
+type Locale = "vi" | "en";
+
+const LOCALES: { value: Locale; label: string; tag: string }[] = [
+  { value: "vi", label: "Tiếng Việt", tag: "vi-VN" },
+  { value: "en", label: "English", tag: "en-US" },
+];
+const LOCALE_KEY = "product_app_locale";
+const CURRENCY_KEY = "product_app_currency";
+
+// `{name}` placeholders are filled from the params. English needs a singular and a
+// plural form; which one is used is decided by the `count` param.
+type Message = string | { one: string; other: string };
+type MessageParams = Record<string, string | number>;
+
+const vi = {
+  "movement.receipt": "Nhập kho",
+  "movement.sale": "Bán hàng",
+  "movement.return": "Trả hàng",
+  "movement.adjustment": "Điều chỉnh",
+
+  "sort.ten": "Tên",
+  "sort.gia": "Giá",
+  "sort.soLuong": "Số lượng",
+  "sort.id": "Mã (ID)",
+  "sort.label": "Sắp xếp:",
+  "sort.default": "Mặc định",
+  "sort.then": "rồi",
+  "sort.asc": "Tăng",
+  "sort.desc": "Giảm",
+  "sort.remove": "Bỏ tiêu chí",
+  "sort.add": "Tiêu chí",
+
+  "ledger.opening": "Tồn đầu kỳ",
+  "ledger.loadReconcile": "Đối soát khi tải dữ liệu",
+  "ledger.import": "Nhập từ tệp",
+  "ledger.bulkSet": "Đặt số lượng hàng loạt",
+  "ledger.edit": "Chỉnh sửa số lượng",
+  "ledger.restore": "Khôi phục phiên bản",
+  "ledger.merged": "Gộp từ “{name}” (#{id})",
+
+  "data.notObject": "Không phải đối tượng",
+  "data.invalidField": "{field} không hợp lệ",
+  "data.badEnvelope": "Envelope không hợp lệ",
+  "data.v1NotArray": "Dữ liệu v1 không phải mảng",
+  "data.brokenJson": "JSON hỏng",
+  "data.duplicateId": "id bị trùng",
+  "data.invalidCategory": "danh mục không hợp lệ",
+  "data.invalidOrder": "đơn hàng không hợp lệ",
+  "data.noMigration": "Không có bước chuyển đổi từ phiên bản {version}",
+
+  "repo.quota": "Bộ nhớ trình duyệt đã đầy. Hãy xuất dữ liệu để sao lưu.",
+  "repo.unavailable": "Không thể ghi vào bộ nhớ trình duyệt.",
+  "repo.conflictProduct": "“{name}” vừa được thay đổi ở nơi khác (phiên bản {revision}).",
+  "repo.network": "Không kết nối được tới máy chủ.",
+  "repo.conflict": "Dữ liệu vừa được thay đổi ở nơi khác.",
+  "repo.httpError": "Máy chủ trả về lỗi {status}.",
+  "repo.invalidProduct": "Máy chủ trả về dữ liệu không hợp lệ: {problem}",
+  "repo.invalidData": "Máy chủ trả về dữ liệu không hợp lệ.",
+  "repo.invalidCategories": "Máy chủ trả về danh mục không hợp lệ.",
+  "repo.conflictOrder": "Đơn hàng #{id} vừa được thay đổi ở nơi khác.",
+  "repo.invalidOrders": "Máy chủ trả về đơn hàng không hợp lệ.",
+
+  "product.notFound": "Không tìm thấy sản phẩm #{id}",
+
+  "sync.network": "Không kết nối được tới máy chủ đồng bộ.",
+  "sync.rejected": "Máy chủ đồng bộ từ chối một thay đổi (lỗi {status}), thay đổi đó đã bị bỏ qua.",
+  "sync.httpError": "Máy chủ đồng bộ trả về lỗi {status}.",
+  "sync.queueFull": "Hàng đợi đồng bộ đã đầy, thay đổi vừa rồi sẽ không được gửi đi.",
+  "sync.offline": "Ngoại tuyến",
+  "sync.pending": "{count} thay đổi chờ gửi",
+  "sync.syncing": "Đang đồng bộ",
+  "sync.failed": "Lỗi đồng bộ",
+  "sync.synced": "Đã đồng bộ",
+  "sync.lastSynced": "Đồng bộ lần cuối lúc {at}",
+
+  "images.dbUnavailable": "Không mở được kho ảnh của trình duyệt.",
+  "images.quota": "Bộ nhớ ảnh của trình duyệt đã đầy.",
+  "images.writeFailed": "Không ghi được vào kho ảnh.",
+  "images.encodeFailed": "Trình duyệt không nén được ảnh",
+  "images.notImage": "“{name}” không phải ảnh hợp lệ",
+  "images.tooMany": "Tối đa {max} ảnh mỗi sản phẩm; đã bỏ qua {count} ảnh.",
+  "images.processing": "Đang xử lý ảnh…",
+  "images.dropHint": "Kéo thả ảnh vào đây hoặc",
+  "images.pickFiles": "chọn tệp",
+  "images.countHint": "{count}/{max} ảnh • ảnh đầu tiên là ảnh bìa",
+  "images.cover": "Ảnh bìa",
+  "images.moveLeft": "Sang trái",
+  "images.moveRight": "Sang phải",
+  "images.makeCover": "Làm bìa",
+  "images.remove": "Xóa {name}",
+  "images.view": "Xem {name}",
+
+  "field.ten": "Tên",
+  "field.danhMuc": "Danh mục",
+  "field.gia": "Giá",
+  "field.soLuong": "Số lượng",
+  "field.moTa": "Mô tả",
+  "field.nguongDatHang": "Ngưỡng đặt hàng",
+  "field.hinhAnh": "Hình ảnh",
+  "field.bienThe": "Biến thể",
+  "field.dacTinh": "Thuộc tính riêng",
+  "field.id": "Mã (ID)",
+  "field.maVach": "Mã vạch (SKU/EAN)",
+  "field.giaHenGio": "Giá theo lịch",
+  "field.khuyenMai": "Khuyến mãi",
+
+  "role.viewer": "Chỉ xem",
+  "role.editor": "Biên tập",
+  "role.admin": "Quản trị",
+
+  "permission.edit": "thêm và sửa sản phẩm",
+  "permission.delete": "xóa sản phẩm",
+  "permission.manageCategories": "quản lý danh mục",
+  "permission.import": "nhập dữ liệu",
+  "permission.audit": "xem nhật ký thay đổi",
+
+  "auth.badCredentials": "Email hoặc mật khẩu không đúng.",
+  "auth.forbidden": "Bạn không có quyền {action}.",
+  "auth.signOut": "Đăng xuất",
+  "auth.signIn": "Đăng nhập",
+  "auth.noPermission": "Tài khoản “{name}” ({role}) không có quyền {action}.",
+  "auth.signedInAs": "Bạn đang đăng nhập với tài khoản {email}.",
+  "auth.password": "Mật khẩu",
+  "auth.signingIn": "Đang đăng nhập…",
+  "auth.demoAccounts": "Tài khoản thử (mật khẩu “demo”):",
+  "auth.email": "Email",
+
+  "validate.soLuongInvalid": "Số lượng phải là số nguyên không âm",
+  "validate.tenRequired": "Tên sản phẩm là bắt buộc",
+  "validate.tenTooShort": "Tên tối thiểu {min} ký tự",
+  "validate.danhMucRequired": "Vui lòng chọn danh mục",
+  "validate.danhMucUnknown": "Danh mục không tồn tại",
+  "validate.giaRequired": "Giá là bắt buộc",
+  "validate.giaPositive": "Giá phải là số dương",
+  "validate.soLuongRequired": "Số lượng là bắt buộc",
+  "validate.moTaRequired": "Mô tả là bắt buộc",
+  "validate.nguongInvalid": "Ngưỡng phải là số nguyên không âm",
+  "validate.attributeRequired": "{name} là bắt buộc",
+  "validate.attributeNumber": "{name} phải là một số",
+  "validate.attributeMin": "{name} tối thiểu là {min}",
+  "validate.attributeMax": "{name} tối đa là {max}",
+  "validate.attributeDate": "{name} phải là một ngày hợp lệ",
+  "validate.attributeOption": "{name} phải là một trong các lựa chọn",
+  "validate.attributePattern": "{name} không đúng định dạng",
+  "validate.maVachCheckDigit": "Mã EAN-13 sai chữ số kiểm tra (phải là {digit})",
+  "validate.maVachTooLong": "Mã vạch tối đa {max} ký tự",
+  "validate.maVachChars": "Mã vạch chỉ gồm chữ không dấu, số và ký hiệu thông thường",
+  "validate.maVachTaken": "Mã này đã được dùng cho sản phẩm khác",
+
+  "bulk.hasVariants": "“{name}” có biến thể; hãy sửa số lượng từng biến thể",
+  "bulk.priceNotPositive": "Giá của “{name}” sẽ không còn là số dương",
+  "bulk.labelDelete": "Xóa {count} sản phẩm",
+  "bulk.labelCategory": "Chuyển {count} sản phẩm sang “{category}”",
+  "bulk.labelPrice": "Điều chỉnh giá {count} sản phẩm",
+  "bulk.labelQuantity": "Đặt số lượng {count} sản phẩm",
+  "bulk.failed": "Không áp dụng được thao tác hàng loạt: {error}",
+  "bulk.selected": "Đã chọn {count} sản phẩm",
+  "bulk.change": "Đổi",
+  "bulk.adjustPrice": "Điều chỉnh giá (âm để giảm)",
+  "bulk.set": "Đặt",
+  "bulk.clear": "Bỏ chọn",
+  "bulk.confirmDelete": "Xóa {count} sản phẩm đã chọn?",
+
+  "error.unknown": "Lỗi không xác định.",
+
+  "provider.loadFailed": "Không tải được danh sách sản phẩm: {error}",
+  "provider.conflict": "Không lưu được thay đổi: {error} Đã tải dữ liệu mới nhất, hãy thử lại.",
+  "provider.saveFailed": "Không lưu được thay đổi, đã hoàn tác. {error}",
+
+  "history.undoneLabel": "Hoàn tác: {label}",
+  "history.redoneLabel": "Làm lại: {label}",
+  "history.added": "Thêm “{name}”",
+  "history.edited": "Sửa “{name}”",
+  "history.deleted": "Xóa “{name}”",
+  "history.imported": "Nhập {count} sản phẩm",
+  "history.pricesApplied": "Áp dụng giá theo lịch cho {count} sản phẩm",
+  "history.orderPlaced": "Bán hàng: đơn #{id}",
+  "history.orderCancelled": "Huỷ đơn #{id}",
+  "history.merged": "Gộp {count} sản phẩm vào “{name}”",
+
+  "categories.updatedLabel": "Cập nhật danh mục",
+  "categories.nameRequired": "Tên danh mục là bắt buộc",
+  "categories.nameTaken": "Tên danh mục đã tồn tại",
+  "categories.notFound": "Không tìm thấy danh mục",
+  "categories.renamedLabel": "Đổi tên danh mục “{from}” thành “{to}”",
+  "categories.chooseReassign": "Hãy chọn danh mục mới cho {count} sản phẩm",
+  "categories.reassignSelf": "Không thể chuyển sang chính danh mục đang xóa",
+  "categories.deletedLabel": "Xóa danh mục “{name}”, chuyển sản phẩm sang “{to}”",
+  "categories.count": "{count} sản phẩm",
+  "categories.totalCount": "(tổng {count} kể cả danh mục con)",
+  "categories.up": "Lên",
+  "categories.down": "Xuống",
+  "categories.rename": "Đổi tên",
+  "categories.moveTo": "Chuyển {count} sản phẩm sang",
+  "categories.confirmDelete": "Xóa danh mục “{name}”?",
+  "categories.childrenMoveUp": "Danh mục con (nếu có) được chuyển lên một cấp.",
+  "categories.deleteConfirm": "Xác nhận xóa",
+  "categories.title": "Quản lý danh mục",
+  "categories.newName": "Tên danh mục mới",
+  "categories.parent": "Thuộc danh mục",
+  "categories.topLevel": "(Cấp cao nhất)",
+  "categories.add": "Thêm danh mục",
+  "categories.empty": "Chưa có danh mục nào.",
+  "categories.attributes": "Thuộc tính ({count})",
+
+  "stock.chooseVariant": "Hãy chọn biến thể",
+  "stock.nonZero": "Số lượng phải là số nguyên khác 0",
+  "stock.notEnough": "Không đủ hàng: chỉ còn {left}",
+  "stock.notEnoughVariant": "Không đủ hàng: {variant} chỉ còn {left}",
+  "stock.enterNonZero": "Nhập số nguyên khác 0 (âm để giảm)",
+  "stock.enterPositive": "Nhập số nguyên dương",
+  "stock.reasonRequired": "Vui lòng nhập lý do",
+  "stock.chooseVariantOption": "-- Chọn biến thể --",
+  "stock.variantOption": "{name} ({sku}) — tồn {count}",
+  "stock.type": "Loại",
+  "stock.reason": "Lý do",
+  "stock.record": "Ghi sổ",
+  "stock.threshold": "Ngưỡng {count}",
+  "stock.time": "Thời gian",
+  "stock.change": "Thay đổi",
+  "stock.balance": "Tồn",
+
+  "audit.versionNotFound": "Không tìm thấy phiên bản này",
+  "audit.restoredLabel": "Khôi phục “{name}” về phiên bản lúc {at}",
+  "audit.create": "Tạo",
+  "audit.update": "Sửa",
+  "audit.delete": "Xóa",
+  "audit.empty": "Chưa có thay đổi nào được ghi lại.",
+  "audit.unknownActor": "Không rõ",
+  "audit.restore": "Khôi phục phiên bản này",
+  "audit.restoreDeleted": "Khôi phục sản phẩm đã xóa",
+  "audit.title": "Nhật ký thay đổi",
+  "audit.query": "Sản phẩm / thao tác",
+  "audit.queryPlaceholder": "Tìm theo tên…",
+  "audit.actor": "Người thực hiện",
+  "audit.all": "Tất cả",
+  "audit.action": "Loại",
+  "audit.from": "Từ ngày",
+  "audit.to": "Đến ngày",
+  "audit.count": "{count} mục (lưu tối đa {limit} mục gần nhất)",
+  "audit.more": "Xem thêm",
+
+  "common.noData": "Chưa có dữ liệu.",
+  "common.previous": "Trước",
+  "common.next": "Sau",
+  "common.close": "Đóng",
+  "common.details": "Chi tiết",
+  "common.edit": "Sửa",
+  "common.delete": "Xóa",
+  "common.choose": "-- Chọn --",
+  "common.apply": "Áp dụng",
+  "common.loading": "Đang tải…",
+  "common.loadFailed": "Không tải được dữ liệu.",
+  "common.cancel": "Hủy",
+  "common.save": "Lưu",
+  "common.retry": "Thử lại",
+
+  "filter.search": "Tìm kiếm",
+  "filter.searchPlaceholder": "Tên hoặc mô tả, có thể gõ không dấu...",
+  "filter.all": "Tất cả",
+  "filter.minPrice": "Giá tối thiểu",
+  "filter.maxPrice": "Giá tối đa",
+  "filter.lowOnly": "Chỉ hàng sắp hết",
+  "filter.from": "Từ",
+  "filter.to": "Đến",
+  "filter.attributeFrom": "{name} từ",
+  "filter.attributeTo": "{name} đến",
+
+  "pagination.total": "Tổng:",
+  "pagination.products": "sản phẩm",
+  "pagination.page": "Trang",
+
+  "list.select": "Chọn {name}",
+  "list.title": "Danh sách sản phẩm",
+  "list.add": "Thêm sản phẩm",
+  "list.empty": "Không có sản phẩm nào phù hợp.",
+  "list.selectPage": "Chọn cả trang",
+  "list.selectAll": "Chọn tất cả {count} kết quả",
+  "list.viewLabel": "Kiểu hiển thị",
+  "list.gridView": "Lưới",
+  "list.tableView": "Bảng",
+  "list.pagingLabel": "Cách duyệt danh sách",
+  "list.paged": "Phân trang",
+  "list.infinite": "Cuộn liên tục",
+  "list.pageSizeLabel": "Số sản phẩm mỗi trang",
+  "list.perPage": "{count} / trang",
+  "list.selectColumn": "Chọn",
+  "list.actions": "Thao tác",
+  "list.showing": "Đang hiện {shown} / {total} sản phẩm",
+  "list.scrollForMore": "cuộn xuống để xem thêm",
+  "list.filtering": "Đang lọc…",
+
+  "card.quantity": "Số lượng: {count}",
+  "card.variants": "{count} biến thể",
+  "card.threshold": "Ngưỡng đặt hàng lại: {threshold}",
+  "card.lowStock": "Sắp hết hàng",
+
+  "dashboard.title": "Tổng quan kho hàng",
+  "dashboard.products": "Sản phẩm",
+  "dashboard.units": "Tổng tồn kho",
+  "dashboard.unitsHint": "đơn vị",
+  "dashboard.value": "Giá trị tồn kho",
+  "dashboard.valueHint": "Σ giá × số lượng",
+  "dashboard.countByCategory": "Số sản phẩm theo danh mục",
+  "dashboard.valueByCategory": "Giá trị tồn kho theo danh mục",
+  "dashboard.priceDistribution": "Phân bố giá",
+  "dashboard.topValue": "Giá trị tồn kho cao nhất",
+  "dashboard.top": "Top {n}",
+  "dashboard.product": "Sản phẩm",
+  "dashboard.qtyShort": "SL",
+  "dashboard.valueShort": "Giá trị",
+  "dashboard.lowStock": "Hàng sắp hết",
+  "dashboard.noLowStock": "Không có sản phẩm nào dưới ngưỡng đặt hàng lại.",
+  "dashboard.inStock": "Tồn",
+  "dashboard.threshold": "Ngưỡng",
+
+  "variants.axisUnnamed": "Thuộc tính thứ {n} chưa có tên",
+  "variants.axisDuplicate": "Thuộc tính “{name}” bị trùng",
+  "variants.axisEmpty": "Thuộc tính “{name}” cần ít nhất một giá trị",
+  "variants.tooMany": "Tối đa {max} biến thể (hiện có {count})",
+  "variants.skuRequired": "{variant}: SKU là bắt buộc",
+  "variants.skuTaken": "{variant}: SKU “{sku}” đã được dùng",
+  "variants.pricePositive": "{variant}: giá phải là số dương",
+  "variants.quantityInvalid": "{variant}: số lượng phải là số nguyên không âm",
+  "variants.axisName": "Tên (vd: Size)",
+  "variants.axisValues": "Giá trị, cách nhau bởi dấu phẩy (vd: S, M, L)",
+  "variants.removeAxis": "Xóa thuộc tính {name}",
+  "variants.addAxis": "Thêm thuộc tính (kích cỡ, màu…)",
+  "variants.axisN": "Thuộc tính {n}",
+  "variants.ownPrice": "Giá riêng",
+  "variants.stock": "Tồn kho",
+  "variants.basePrice": "Giá gốc",
+
+  "form.ten": "Tên sản phẩm",
+  "form.chooseCategory": "-- Chọn danh mục --",
+  "form.gia": "Giá (VND)",
+  "form.variantTotal": "Tổng tồn kho của các biến thể",
+  "form.adjustmentNote": "Chênh lệch sẽ được ghi vào sổ kho dưới dạng điều chỉnh.",
+  "form.nguong": "Ngưỡng đặt hàng lại",
+  "form.nguongPlaceholder": "0 = không theo dõi",
+  "form.add": "Thêm",
+  "form.update": "Cập nhật",
+  "form.editTitle": "Chỉnh sửa sản phẩm",
+  "form.maVachPlaceholder": "Để trống để tự tạo mã nội bộ",
+  "form.maVachGenerate": "Tạo mã",
+  "form.pricePlan": "Giá theo lịch và khuyến mãi",
+  "form.possibleDuplicates": "Có thể trùng với sản phẩm đã có trong “{category}”:",
+
+  "conflict.title": "Giải quyết xung đột",
+  "conflict.heading": "“{name}” đã được lưu ở nơi khác trong lúc bạn sửa",
+  "conflict.hint": "Chọn giá trị giữ lại cho từng trường. Những trường chỉ một bên thay đổi đã được chọn sẵn.",
+  "conflict.identical": "Hai phiên bản giống nhau, không có gì cần chọn.",
+  "conflict.mine": "Bản của bạn",
+  "conflict.theirs": "Bản đã lưu (phiên bản {revision})",
+  "conflict.both": "Cả hai đều sửa",
+  "conflict.back": "Quay lại sửa",
+  "conflict.save": "Lưu bản đã gộp",
+  "conflict.banner": "Sản phẩm này vừa được lưu ở nơi khác (phiên bản {revision}). Khi bạn lưu, bạn sẽ được chọn giữ giá trị nào cho từng trường.",
+
+  "import.badId": "ID phải là số nguyên dương",
+  "import.badLedger": "Sổ kho (lichSuKho) không hợp lệ",
+  "import.badImages": "Hình ảnh (hinhAnh) không hợp lệ",
+  "import.badVariants": "Biến thể (thuocTinh/bienThe) không hợp lệ",
+  "import.notArray": "JSON phải là một mảng sản phẩm",
+  "import.emptyCsv": "Tệp CSV trống",
+  "import.missingColumns": "Thiếu cột: {columns}",
+  "import.unreadable": "Không đọc được tệp",
+  "import.confirmReplace": "Thay thế toàn bộ {count} sản phẩm hiện có bằng {incoming} sản phẩm từ tệp?",
+  "import.confirmMerge": "Gộp {count} sản phẩm vào danh sách hiện có?",
+  "import.imagesFailed": "Không lưu được hình ảnh: {error}",
+  "import.title": "Nhập / Xuất dữ liệu",
+  "import.chooseFile": "Chọn tệp CSV hoặc JSON",
+  "import.columns": "Cột CSV: {columns} (không bắt buộc: {optional})",
+  "import.rows": "{count} dòng",
+  "import.valid": "{count} hợp lệ",
+  "import.invalid": "{count} lỗi (sẽ bị bỏ qua)",
+  "import.line": "Dòng",
+  "import.qty": "SL",
+  "import.images": "Ảnh",
+  "import.status": "Trạng thái",
+  "import.merge": "Gộp (cập nhật theo ID, thêm mới phần còn lại)",
+  "import.replace": "Thay thế toàn bộ",
+  "import.submit": "Nhập {count} sản phẩm",
+  "import.badAttributes": "Thuộc tính riêng (dacTinh) không hợp lệ",
+  "import.duplicateCode": "Mã vạch {code} đã có ở dòng {line}",
+  "import.badPrices": "Lịch sử giá, giá theo lịch hoặc khuyến mãi không hợp lệ",
+  "import.badMergedIds": "Danh sách mã sản phẩm đã gộp (idCu) không hợp lệ",
+
+  "export.label": "Xuất",
+  "export.jsonHint": "Kèm sổ kho và hình ảnh",
+  "export.packing": "Đang đóng gói…",
+  "export.all": "Xuất toàn bộ {count} sản phẩm",
+  "export.formats": "Tệp JSON là bản sao lưu đầy đủ (kèm sổ kho và hình ảnh); CSV chỉ gồm các trường cơ bản.",
+  "export.title": "Xuất dữ liệu",
+
+  "detail.info": "Thông tin",
+  "detail.history": "Lịch sử thay đổi ({count})",
+  "detail.lowStock": "Sắp hết hàng (ngưỡng {count})",
+  "detail.stockMovement": "Nhập / xuất kho",
+  "detail.stockHistory": "Lịch sử kho",
+  "detail.codes": "Mã vạch & QR",
+  "detail.priceHistory": "Lịch sử giá",
+
+  "header.saving": "Đang lưu…",
+  "header.home": "Trang chủ",
+  "header.dashboard": "Tổng quan",
+  "header.categories": "Danh mục",
+  "header.import": "Nhập/Xuất",
+  "header.audit": "Nhật ký",
+  "header.settings": "Cài đặt",
+  "header.language": "Ngôn ngữ",
+  "header.scan": "Quét mã",
+  "header.orders": "Đơn hàng",
+  "header.export": "Xuất dữ liệu",
+
+  "quarantine.confirmClear": "Xóa vĩnh viễn các bản ghi bị cách ly?",
+  "quarantine.found": "Phát hiện {count} bản ghi hỏng trong bộ nhớ và đã cách ly chúng ({reasons}).",
+  "quarantine.download": "Tải bản sao",
+
+  "toast.undone": "Đã hoàn tác: {label}",
+  "toast.redone": "Đã làm lại: {label}",
+  "toast.undo": "Hoàn tác",
+  "toast.redo": "Làm lại",
+
+  "settings.title": "Cài đặt",
+  "settings.currencyHint": "Giá luôn được lưu bằng VND. Có thể hiển thị thêm giá quy đổi sang một loại tiền khác theo tỷ giá bạn nhập; tỷ giá chỉ được lưu trên trình duyệt này.",
+  "settings.currency": "Loại tiền thứ hai",
+  "settings.noCurrency": "Không hiển thị",
+  "settings.rate": "Tỷ giá (VND cho 1 {code})",
+  "settings.rateInvalid": "Tỷ giá phải là số dương",
+  "settings.preview": "Ví dụ:",
+  "settings.saved": "Đã lưu",
+
+  "app.notFound": "Không tìm thấy trang",
+
+  "attributes.nameRequired": "Thuộc tính cần có tên",
+  "attributes.nameTaken": "Đã có thuộc tính “{name}” trong danh mục này hoặc danh mục cha",
+  "attributes.optionsRequired": "“{name}” cần ít nhất một lựa chọn",
+  "attributes.rangeInvalid": "“{name}”: giá trị nhỏ nhất lớn hơn giá trị lớn nhất",
+  "attributes.patternInvalid": "“{name}”: mẫu kiểm tra không hợp lệ",
+  "attributes.text": "Văn bản",
+  "attributes.number": "Số",
+  "attributes.date": "Ngày",
+  "attributes.select": "Lựa chọn",
+  "attributes.inherited": "Kế thừa từ danh mục cha: {names}",
+  "attributes.none": "Danh mục này chưa có thuộc tính riêng.",
+  "attributes.name": "Tên thuộc tính",
+  "attributes.required": "Bắt buộc",
+  "attributes.remove": "Xóa thuộc tính {name}",
+  "attributes.unit": "Đơn vị",
+  "attributes.min": "Nhỏ nhất",
+  "attributes.max": "Lớn nhất",
+  "attributes.options": "Các lựa chọn, cách nhau bởi dấu phẩy",
+  "attributes.pattern": "Mẫu kiểm tra (biểu thức chính quy, không bắt buộc)",
+  "attributes.add": "Thêm thuộc tính",
+
+  "builder.toggle": "Bộ lọc nâng cao",
+  "builder.and": "Khớp tất cả điều kiện (VÀ)",
+  "builder.or": "Khớp một trong các điều kiện (HOẶC)",
+  "builder.addCondition": "Điều kiện",
+  "builder.addGroup": "Nhóm điều kiện",
+  "builder.removeCondition": "Bỏ điều kiện",
+  "builder.removeGroup": "Bỏ nhóm",
+  "builder.clear": "Xóa bộ lọc nâng cao",
+  "builder.empty": "Chưa có điều kiện nào.",
+  "builder.field": "Trường",
+  "builder.operator": "Phép so sánh",
+  "builder.value": "Giá trị",
+  "builder.unknownField": "{field} (không còn tồn tại)",
+  "builder.has": "chứa",
+  "builder.notHas": "không chứa",
+  "builder.eq": "bằng",
+  "builder.gte": "từ",
+  "builder.lte": "đến",
+  "builder.between": "trong khoảng",
+  "builder.in": "là một trong",
+  "builder.notIn": "không thuộc",
+
+  "views.label": "Chế độ xem đã lưu",
+  "views.all": "Tất cả sản phẩm",
+  "views.save": "Lưu chế độ xem",
+  "views.name": "Tên chế độ xem",
+  "views.remove": "Xóa chế độ xem {name}",
+  "views.copyLink": "Sao chép liên kết",
+  "views.copied": "Đã sao chép liên kết",
+  "views.copyFailed": "Không sao chép được, hãy dùng liên kết này:",
+
+  "labels.title": "In nhãn",
+  "labels.fromFilter": "{count} sản phẩm theo bộ lọc hiện tại",
+  "labels.fromSelection": "{count} sản phẩm đã chọn",
+  "labels.sheet": "Khổ nhãn",
+  "labels.roll": "Cuộn",
+  "labels.custom": "Tuỳ chỉnh",
+  "labels.content": "Mã in trên nhãn",
+  "labels.barcode": "Mã vạch",
+  "labels.qr": "Mã QR",
+  "labels.both": "Cả hai",
+  "labels.copies": "Số bản",
+  "labels.skip": "Bỏ qua",
+  "labels.skipHint": "Số ô đầu tiên để trống, khi tờ nhãn đã dùng một phần",
+  "labels.pageSize": "Khổ trang (mm)",
+  "labels.grid": "Cột × hàng",
+  "labels.labelSize": "Cỡ nhãn (mm)",
+  "labels.margins": "Lề trên, lề trái (mm)",
+  "labels.gaps": "Khoảng cách ngang, dọc (mm)",
+  "labels.sizeInvalid": "Kích thước phải là số không âm, số cột và số hàng là số nguyên dương",
+  "labels.doesNotFit": "Các nhãn không vừa trang với kích thước này",
+  "labels.printButton": "In",
+  "labels.pdf": "Xuất PDF",
+  "labels.pdfBusy": "Đang tạo PDF…",
+  "labels.pdfFailed": "Không tạo được tệp PDF",
+  "labels.labelCount": "{count} nhãn",
+  "labels.sheetCount": "{count} tờ",
+  "labels.truncated": "Chỉ xếp {max} nhãn đầu tiên; hãy thu hẹp bộ lọc để in phần còn lại",
+  "labels.empty": "Không có sản phẩm nào để in nhãn",
+
+  "scan.title": "Quét mã",
+  "scan.hint": "Quét mã vạch hoặc mã QR bằng máy quét hay camera, hoặc gõ mã rồi nhấn Enter.",
+  "scan.placeholder": "Mã vạch, SKU…",
+  "scan.find": "Tìm",
+  "scan.cameraOn": "Dùng camera",
+  "scan.cameraOff": "Tắt camera",
+  "scan.cameraFailed": "Không mở được camera",
+  "scan.unknown": "Không có sản phẩm nào mang mã {code}",
+  "scan.addWithCode": "Thêm sản phẩm với mã này",
+  "scan.reason": "Quét mã",
+  "scan.minusOne": "Bớt 1",
+  "scan.plusOne": "Thêm 1",
+  "scan.inStock": "tồn kho",
+  "scan.qty": "SL",
+  "scan.receive": "Nhập kho",
+
+  "prices.schedulePrice": "Giá theo lịch phải lớn hơn 0",
+  "prices.scheduleDateRequired": "Chọn ngày áp dụng cho giá theo lịch",
+  "prices.schedulePast": "Ngày {date} đã qua",
+  "prices.scheduleDuplicate": "Đã có giá theo lịch cho ngày {date}",
+  "prices.salePrice": "Giá khuyến mãi phải lớn hơn 0",
+  "prices.saleNotLower": "Giá khuyến mãi phải thấp hơn giá niêm yết",
+  "prices.saleDatesRequired": "Chọn ngày bắt đầu và kết thúc khuyến mãi",
+  "prices.saleEndsBeforeStart": "Khuyến mãi kết thúc trước khi bắt đầu",
+  "prices.saleEnded": "Khuyến mãi đã kết thúc",
+  "prices.newPrice": "Giá mới",
+  "prices.from": "Từ ngày",
+  "prices.until": "Đến ngày",
+  "prices.removeSchedule": "Xoá giá theo lịch",
+  "prices.addSchedule": "Hẹn giá mới",
+  "prices.salePlaceholder": "Giá khuyến mãi",
+  "prices.removeSale": "Xoá khuyến mãi",
+  "prices.addSale": "Thêm khuyến mãi",
+  "prices.saleGuide": "Khuyến mãi {price}",
+  "prices.when": "Thời gian",
+  "prices.kind": "Loại",
+  "prices.saleNow": "Đang khuyến mãi",
+  "prices.saleUpcoming": "Khuyến mãi sắp tới",
+  "prices.scheduled": "Theo lịch",
+  "prices.current": "Hiện tại",
+  "prices.saleBadge": "-{percent}%",
+
+  "orders.chooseVariant": "Chọn phân loại cho {name}",
+  "orders.ledgerSale": "Đơn hàng #{id}",
+  "orders.ledgerCancel": "Huỷ đơn hàng #{id}",
+  "orders.gone": "{name} không còn trong danh mục",
+  "orders.notEnough": "Không đủ hàng: {name} chỉ còn {left}",
+  "orders.empty": "Giỏ hàng đang trống",
+  "orders.notFound": "Không tìm thấy đơn hàng #{id}",
+  "orders.alreadyCancelled": "Đơn hàng đã bị huỷ",
+  "orders.completed": "Hoàn tất",
+  "orders.cancelled": "Đã huỷ",
+  "orders.title": "Đơn hàng",
+  "orders.new": "Tạo đơn hàng",
+  "orders.none": "Chưa có đơn hàng nào.",
+  "orders.time": "Thời gian",
+  "orders.items": "Số món",
+  "orders.total": "Tổng cộng",
+  "orders.seller": "Người bán",
+  "orders.status": "Trạng thái",
+  "orders.newHint": "Tìm sản phẩm hoặc quét mã để thêm vào giỏ.",
+  "orders.searchPlaceholder": "Tên, mã vạch hoặc SKU…",
+  "orders.inStock": "Còn {count}",
+  "orders.noMatch": "Không tìm thấy sản phẩm phù hợp.",
+  "orders.cart": "Giỏ hàng",
+  "orders.unitPrice": "Đơn giá",
+  "orders.lineTotal": "Thành tiền",
+  "orders.onlyLeft": "Chỉ còn {count}",
+  "orders.remove": "Bỏ {name} khỏi giỏ",
+  "orders.notePlaceholder": "Ghi chú (không bắt buộc)",
+  "orders.placing": "Đang tạo đơn…",
+  "orders.place": "Xác nhận đơn hàng",
+  "orders.confirmCancel": "Huỷ đơn hàng #{id} và trả hàng về kho?",
+  "orders.heading": "Đơn hàng #{id}",
+  "orders.receipt": "Hoá đơn",
+  "orders.cancel": "Huỷ đơn",
+  "orders.cancelledAt": "Huỷ lúc",
+  "orders.note": "Ghi chú",
+  "orders.print": "In hoá đơn",
+  "orders.backToOrder": "Về đơn hàng",
+  "orders.thanks": "Cảm ơn quý khách!",
+
+  "merge.tooFew": "Chọn ít nhất hai sản phẩm để gộp",
+  "merge.hasVariants": "“{name}” có biến thể; sản phẩm có biến thể không gộp được",
+  "merge.title": "Gộp sản phẩm",
+  "merge.hint": "Chọn bản ghi giữ lại và giá trị giữ lại cho từng trường. Số lượng được cộng dồn; liên kết tới các sản phẩm bị gộp sẽ dẫn tới sản phẩm giữ lại.",
+  "merge.keep": "Giữ bản ghi",
+  "merge.total": "Số lượng sau khi gộp: {count}",
+  "merge.submit": "Gộp vào “{name}”",
+} satisfies Record<string, Message>;
+
+type MessageKey = keyof typeof vi;
+
+const en: Record<MessageKey, Message> = {
+  "movement.receipt": "Receipt",
+  "movement.sale": "Sale",
+  "movement.return": "Return",
+  "movement.adjustment": "Adjustment",
+
+  "sort.ten": "Name",
+  "sort.gia": "Price",
+  "sort.soLuong": "Quantity",
+  "sort.id": "ID",
+  "sort.label": "Sort:",
+  "sort.default": "Default",
+  "sort.then": "then",
+  "sort.asc": "Ascending",
+  "sort.desc": "Descending",
+  "sort.remove": "Remove sort key",
+  "sort.add": "Sort key",
+
+  "ledger.opening": "Opening balance",
+  "ledger.loadReconcile": "Reconciled on load",
+  "ledger.import": "Imported from file",
+  "ledger.bulkSet": "Bulk quantity change",
+  "ledger.edit": "Quantity edited",
+  "ledger.restore": "Version restored",
+  "ledger.merged": "Merged from “{name}” (#{id})",
+
+  "data.notObject": "Not an object",
+  "data.invalidField": "invalid {field}",
+  "data.badEnvelope": "Invalid envelope",
+  "data.v1NotArray": "v1 data is not an array",
+  "data.brokenJson": "Broken JSON",
+  "data.duplicateId": "duplicate id",
+  "data.invalidCategory": "invalid category",
+  "data.invalidOrder": "invalid order",
+  "data.noMigration": "No migration from version {version}",
+
+  "repo.quota": "Browser storage is full. Export your data to back it up.",
+  "repo.unavailable": "Cannot write to browser storage.",
+  "repo.conflictProduct": "“{name}” was just changed elsewhere (revision {revision}).",
+  "repo.network": "Could not reach the server.",
+  "repo.conflict": "The data was just changed elsewhere.",
+  "repo.httpError": "The server returned error {status}.",
+  "repo.invalidProduct": "The server returned invalid data: {problem}",
+  "repo.invalidData": "The server returned invalid data.",
+  "repo.invalidCategories": "The server returned invalid categories.",
+  "repo.conflictOrder": "Order #{id} was just changed elsewhere.",
+  "repo.invalidOrders": "The server returned invalid orders.",
+
+  "product.notFound": "Product #{id} not found",
+
+  "sync.network": "Could not reach the sync server.",
+  "sync.rejected": "The sync server rejected a change (error {status}); it was skipped.",
+  "sync.httpError": "The sync server returned error {status}.",
+  "sync.queueFull": "The sync queue is full; the last change will not be sent.",
+  "sync.offline": "Offline",
+  "sync.pending": { one: "{count} change waiting", other: "{count} changes waiting" },
+  "sync.syncing": "Syncing",
+  "sync.failed": "Sync failed",
+  "sync.synced": "Synced",
+  "sync.lastSynced": "Last synced at {at}",
+
+  "images.dbUnavailable": "Could not open the browser's image store.",
+  "images.quota": "The browser's image storage is full.",
+  "images.writeFailed": "Could not write to the image store.",
+  "images.encodeFailed": "The browser could not compress the image",
+  "images.notImage": "“{name}” is not a valid image",
+  "images.tooMany": { one: "At most {max} images per product; {count} image was skipped.", other: "At most {max} images per product; {count} images were skipped." },
+  "images.processing": "Processing images…",
+  "images.dropHint": "Drag and drop images here or",
+  "images.pickFiles": "choose files",
+  "images.countHint": "{count}/{max} images • the first one is the cover",
+  "images.cover": "Cover",
+  "images.moveLeft": "Move left",
+  "images.moveRight": "Move right",
+  "images.makeCover": "Make cover",
+  "images.remove": "Remove {name}",
+  "images.view": "View {name}",
+
+  "field.ten": "Name",
+  "field.danhMuc": "Category",
+  "field.gia": "Price",
+  "field.soLuong": "Quantity",
+  "field.moTa": "Description",
+  "field.nguongDatHang": "Reorder threshold",
+  "field.hinhAnh": "Images",
+  "field.bienThe": "Variants",
+  "field.dacTinh": "Custom attributes",
+  "field.id": "ID",
+  "field.maVach": "Code (SKU/EAN)",
+  "field.giaHenGio": "Scheduled prices",
+  "field.khuyenMai": "Sale",
+
+  "role.viewer": "Viewer",
+  "role.editor": "Editor",
+  "role.admin": "Admin",
+
+  "permission.edit": "add and edit products",
+  "permission.delete": "delete products",
+  "permission.manageCategories": "manage categories",
+  "permission.import": "import data",
+  "permission.audit": "view the change log",
+
+  "auth.badCredentials": "Wrong email or password.",
+  "auth.forbidden": "You are not allowed to {action}.",
+  "auth.signOut": "Sign out",
+  "auth.signIn": "Sign in",
+  "auth.noPermission": "The account “{name}” ({role}) is not allowed to {action}.",
+  "auth.signedInAs": "You are signed in as {email}.",
+  "auth.password": "Password",
+  "auth.signingIn": "Signing in…",
+  "auth.demoAccounts": "Demo accounts (password “demo”):",
+  "auth.email": "Email",
+
+  "validate.soLuongInvalid": "Quantity must be a whole number, 0 or more",
+  "validate.tenRequired": "A product name is required",
+  "validate.tenTooShort": "The name needs at least {min} characters",
+  "validate.danhMucRequired": "Please choose a category",
+  "validate.danhMucUnknown": "That category does not exist",
+  "validate.giaRequired": "A price is required",
+  "validate.giaPositive": "The price must be a positive number",
+  "validate.soLuongRequired": "A quantity is required",
+  "validate.moTaRequired": "A description is required",
+  "validate.nguongInvalid": "The threshold must be a whole number, 0 or more",
+  "validate.attributeRequired": "{name} is required",
+  "validate.attributeNumber": "{name} must be a number",
+  "validate.attributeMin": "{name} must be at least {min}",
+  "validate.attributeMax": "{name} must be at most {max}",
+  "validate.attributeDate": "{name} must be a valid date",
+  "validate.attributeOption": "{name} must be one of the options",
+  "validate.attributePattern": "{name} is not in the expected format",
+  "validate.maVachCheckDigit": "Wrong EAN-13 check digit (should be {digit})",
+  "validate.maVachTooLong": "Codes can be at most {max} characters",
+  "validate.maVachChars": "Codes may only contain unaccented letters, digits and common symbols",
+  "validate.maVachTaken": "This code is already used by another product",
+
+  "bulk.hasVariants": "“{name}” has variants; change the stock of each variant instead",
+  "bulk.priceNotPositive": "The price of “{name}” would no longer be positive",
+  "bulk.labelDelete": { one: "Delete {count} product", other: "Delete {count} products" },
+  "bulk.labelCategory": { one: "Move {count} product to “{category}”", other: "Move {count} products to “{category}”" },
+  "bulk.labelPrice": { one: "Adjust the price of {count} product", other: "Adjust the price of {count} products" },
+  "bulk.labelQuantity": { one: "Set the quantity of {count} product", other: "Set the quantity of {count} products" },
+  "bulk.failed": "Could not apply the bulk action: {error}",
+  "bulk.selected": { one: "{count} product selected", other: "{count} products selected" },
+  "bulk.change": "Change",
+  "bulk.adjustPrice": "Adjust price (negative to lower)",
+  "bulk.set": "Set",
+  "bulk.clear": "Clear selection",
+  "bulk.confirmDelete": { one: "Delete the {count} selected product?", other: "Delete the {count} selected products?" },
+
+  "error.unknown": "Unknown error.",
+
+  "provider.loadFailed": "Could not load the product list: {error}",
+  "provider.conflict": "Could not save the change: {error} The latest data has been loaded; please try again.",
+  "provider.saveFailed": "Could not save the change, so it was reverted. {error}",
+
+  "history.undoneLabel": "Undo: {label}",
+  "history.redoneLabel": "Redo: {label}",
+  "history.added": "Add “{name}”",
+  "history.edited": "Edit “{name}”",
+  "history.deleted": "Delete “{name}”",
+  "history.imported": { one: "Import {count} product", other: "Import {count} products" },
+  "history.pricesApplied": { one: "Apply scheduled prices to {count} product", other: "Apply scheduled prices to {count} products" },
+  "history.orderPlaced": "Sale: order #{id}",
+  "history.orderCancelled": "Cancel order #{id}",
+  "history.merged": { one: "Merge {count} product into “{name}”", other: "Merge {count} products into “{name}”" },
+
+  "categories.updatedLabel": "Update categories",
+  "categories.nameRequired": "A category name is required",
+  "categories.nameTaken": "That category name already exists",
+  "categories.notFound": "Category not found",
+  "categories.renamedLabel": "Rename category “{from}” to “{to}”",
+  "categories.chooseReassign": { one: "Choose a new category for {count} product", other: "Choose a new category for {count} products" },
+  "categories.reassignSelf": "Products can't be moved to the category being deleted",
+  "categories.deletedLabel": "Delete category “{name}”, moving its products to “{to}”",
+  "categories.count": { one: "{count} product", other: "{count} products" },
+  "categories.totalCount": "({count} in total including sub-categories)",
+  "categories.up": "Move up",
+  "categories.down": "Move down",
+  "categories.rename": "Rename",
+  "categories.moveTo": { one: "Move {count} product to", other: "Move {count} products to" },
+  "categories.confirmDelete": "Delete category “{name}”?",
+  "categories.childrenMoveUp": "Sub-categories (if any) move up one level.",
+  "categories.deleteConfirm": "Confirm delete",
+  "categories.title": "Manage categories",
+  "categories.newName": "New category name",
+  "categories.parent": "Parent category",
+  "categories.topLevel": "(Top level)",
+  "categories.add": "Add category",
+  "categories.empty": "No categories yet.",
+  "categories.attributes": "Attributes ({count})",
+
+  "stock.chooseVariant": "Choose a variant",
+  "stock.nonZero": "The quantity must be a whole number other than 0",
+  "stock.notEnough": "Not enough stock: only {left} left",
+  "stock.notEnoughVariant": "Not enough stock: only {left} of {variant} left",
+  "stock.enterNonZero": "Enter a non-zero whole number (negative to decrease)",
+  "stock.enterPositive": "Enter a positive whole number",
+  "stock.reasonRequired": "Please enter a reason",
+  "stock.chooseVariantOption": "-- Choose a variant --",
+  "stock.variantOption": "{name} ({sku}) — {count} in stock",
+  "stock.type": "Type",
+  "stock.reason": "Reason",
+  "stock.record": "Record",
+  "stock.threshold": "Threshold {count}",
+  "stock.time": "Time",
+  "stock.change": "Change",
+  "stock.balance": "Balance",
+
+  "audit.versionNotFound": "That version was not found",
+  "audit.restoredLabel": "Restore “{name}” to the version from {at}",
+  "audit.create": "Created",
+  "audit.update": "Edited",
+  "audit.delete": "Deleted",
+  "audit.empty": "No changes recorded yet.",
+  "audit.unknownActor": "Unknown",
+  "audit.restore": "Restore this version",
+  "audit.restoreDeleted": "Restore deleted product",
+  "audit.title": "Change log",
+  "audit.query": "Product / action",
+  "audit.queryPlaceholder": "Search by name…",
+  "audit.actor": "Changed by",
+  "audit.all": "All",
+  "audit.action": "Action",
+  "audit.from": "From",
+  "audit.to": "To",
+  "audit.count": { one: "{count} entry (the latest {limit} are kept)", other: "{count} entries (the latest {limit} are kept)" },
+  "audit.more": "Show more",
+
+  "common.noData": "No data yet.",
+  "common.previous": "Previous",
+  "common.next": "Next",
+  "common.close": "Close",
+  "common.details": "Details",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+  "common.choose": "-- Choose --",
+  "common.apply": "Apply",
+  "common.loading": "Loading…",
+  "common.loadFailed": "Could not load the data.",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.retry": "Retry",
+
+  "filter.search": "Search",
+  "filter.searchPlaceholder": "Name or description, accents optional...",
+  "filter.all": "All",
+  "filter.minPrice": "Minimum price",
+  "filter.maxPrice": "Maximum price",
+  "filter.lowOnly": "Low stock only",
+  "filter.from": "From",
+  "filter.to": "To",
+  "filter.attributeFrom": "{name} from",
+  "filter.attributeTo": "{name} to",
+
+  "pagination.total": "Total:",
+  "pagination.products": { one: "product", other: "products" },
+  "pagination.page": "Page",
+
+  "list.select": "Select {name}",
+  "list.title": "Products",
+  "list.add": "Add product",
+  "list.empty": "No products match.",
+  "list.selectPage": "Select this page",
+  "list.selectAll": { one: "Select the {count} result", other: "Select all {count} results" },
+  "list.viewLabel": "Layout",
+  "list.gridView": "Grid",
+  "list.tableView": "Table",
+  "list.pagingLabel": "Browsing",
+  "list.paged": "Pages",
+  "list.infinite": "Infinite scroll",
+  "list.pageSizeLabel": "Products per page",
+  "list.perPage": "{count} per page",
+  "list.selectColumn": "Select",
+  "list.actions": "Actions",
+  "list.showing": { one: "Showing {shown} of {total} product", other: "Showing {shown} of {total} products" },
+  "list.scrollForMore": "scroll down for more",
+  "list.filtering": "Filtering…",
+
+  "card.quantity": "Quantity: {count}",
+  "card.variants": { one: "{count} variant", other: "{count} variants" },
+  "card.threshold": "Reorder threshold: {threshold}",
+  "card.lowStock": "Low stock",
+
+  "dashboard.title": "Inventory overview",
+  "dashboard.products": "Products",
+  "dashboard.units": "Units in stock",
+  "dashboard.unitsHint": "units",
+  "dashboard.value": "Stock value",
+  "dashboard.valueHint": "Σ price × quantity",
+  "dashboard.countByCategory": "Products per category",
+  "dashboard.valueByCategory": "Stock value per category",
+  "dashboard.priceDistribution": "Price distribution",
+  "dashboard.topValue": "Highest stock value",
+  "dashboard.top": "Top {n}",
+  "dashboard.product": "Product",
+  "dashboard.qtyShort": "Qty",
+  "dashboard.valueShort": "Value",
+  "dashboard.lowStock": "Running low",
+  "dashboard.noLowStock": "No products are below their reorder threshold.",
+  "dashboard.inStock": "In stock",
+  "dashboard.threshold": "Threshold",
+
+  "variants.axisUnnamed": "Option {n} has no name",
+  "variants.axisDuplicate": "Option “{name}” appears twice",
+  "variants.axisEmpty": "Option “{name}” needs at least one value",
+  "variants.tooMany": "At most {max} variants (currently {count})",
+  "variants.skuRequired": "{variant}: an SKU is required",
+  "variants.skuTaken": "{variant}: SKU “{sku}” is already in use",
+  "variants.pricePositive": "{variant}: the price must be positive",
+  "variants.quantityInvalid": "{variant}: the quantity must be a whole number, 0 or more",
+  "variants.axisName": "Name (e.g. Size)",
+  "variants.axisValues": "Values, separated by commas (e.g. S, M, L)",
+  "variants.removeAxis": "Remove option {name}",
+  "variants.addAxis": "Add an option (size, colour…)",
+  "variants.axisN": "Option {n}",
+  "variants.ownPrice": "Own price",
+  "variants.stock": "Stock",
+  "variants.basePrice": "Base price",
+
+  "form.ten": "Product name",
+  "form.chooseCategory": "-- Choose a category --",
+  "form.gia": "Price (VND)",
+  "form.variantTotal": "Total stock of the variants",
+  "form.adjustmentNote": "The difference will be booked in the stock ledger as an adjustment.",
+  "form.nguong": "Reorder threshold",
+  "form.nguongPlaceholder": "0 = not tracked",
+  "form.add": "Add",
+  "form.update": "Update",
+  "form.editTitle": "Edit product",
+  "form.maVachPlaceholder": "Leave empty to generate an in-store code",
+  "form.maVachGenerate": "Generate",
+  "form.pricePlan": "Scheduled prices and sale",
+  "form.possibleDuplicates": "Possibly the same as existing products in “{category}”:",
+
+  "conflict.title": "Resolve conflict",
+  "conflict.heading": "“{name}” was saved elsewhere while you were editing",
+  "conflict.hint": "Choose which value to keep for each field. Fields changed on only one side are already picked.",
+  "conflict.identical": "Both versions are the same, nothing to choose.",
+  "conflict.mine": "Your version",
+  "conflict.theirs": "Saved version (revision {revision})",
+  "conflict.both": "Changed on both sides",
+  "conflict.back": "Back to editing",
+  "conflict.save": "Save merged version",
+  "conflict.banner": "This product was just saved elsewhere (revision {revision}). When you save, you will choose which value to keep for each field.",
+
+  "import.badId": "ID must be a positive integer",
+  "import.badLedger": "Invalid stock ledger (lichSuKho)",
+  "import.badImages": "Invalid images (hinhAnh)",
+  "import.badVariants": "Invalid variants (thuocTinh/bienThe)",
+  "import.notArray": "JSON must be an array of products",
+  "import.emptyCsv": "The CSV file is empty",
+  "import.missingColumns": "Missing columns: {columns}",
+  "import.unreadable": "Could not read the file",
+  "import.confirmReplace": { one: "Replace the {count} existing product with {incoming} from the file?", other: "Replace all {count} existing products with {incoming} from the file?" },
+  "import.confirmMerge": { one: "Merge {count} product into the current list?", other: "Merge {count} products into the current list?" },
+  "import.imagesFailed": "Could not save images: {error}",
+  "import.title": "Import / Export",
+  "import.chooseFile": "Choose a CSV or JSON file",
+  "import.columns": "CSV columns: {columns} (optional: {optional})",
+  "import.rows": { one: "{count} row", other: "{count} rows" },
+  "import.valid": "{count} valid",
+  "import.invalid": { one: "{count} error (will be skipped)", other: "{count} errors (will be skipped)" },
+  "import.line": "Line",
+  "import.qty": "Qty",
+  "import.images": "Images",
+  "import.status": "Status",
+  "import.merge": "Merge (update by ID, add the rest)",
+  "import.replace": "Replace everything",
+  "import.submit": { one: "Import {count} product", other: "Import {count} products" },
+  "import.badAttributes": "Invalid custom attributes (dacTinh)",
+  "import.duplicateCode": "Code {code} is already used on line {line}",
+  "import.badPrices": "Invalid price history, scheduled prices or sale",
+  "import.badMergedIds": "Invalid merged product ids (idCu)",
+
+  "export.label": "Export",
+  "export.jsonHint": "Includes stock ledger and images",
+  "export.packing": "Packing…",
+  "export.all": { one: "Export all {count} product", other: "Export all {count} products" },
+  "export.formats": "JSON is a full backup (with stock ledger and images); CSV holds the basic fields only.",
+  "export.title": "Export",
+
+  "detail.info": "Details",
+  "detail.history": "Change history ({count})",
+  "detail.lowStock": "Low stock (threshold {count})",
+  "detail.stockMovement": "Stock in / out",
+  "detail.stockHistory": "Stock history",
+  "detail.codes": "Barcode & QR code",
+  "detail.priceHistory": "Price history",
+
+  "header.saving": "Saving…",
+  "header.home": "Home",
+  "header.dashboard": "Dashboard",
+  "header.categories": "Categories",
+  "header.import": "Import/Export",
+  "header.audit": "Change log",
+  "header.settings": "Settings",
+  "header.language": "Language",
+  "header.scan": "Scan",
+  "header.orders": "Orders",
+  "header.export": "Export",
+
+  "quarantine.confirmClear": "Permanently delete the quarantined records?",
+  "quarantine.found": { one: "Found {count} corrupt record in storage and quarantined it ({reasons}).", other: "Found {count} corrupt records in storage and quarantined them ({reasons})." },
+  "quarantine.download": "Download a copy",
+
+  "toast.undone": "Undone: {label}",
+  "toast.redone": "Redone: {label}",
+  "toast.undo": "Undo",
+  "toast.redo": "Redo",
+
+  "settings.title": "Settings",
+  "settings.currencyHint": "Prices are always stored in VND. You can also show them converted to another currency at a rate you enter; the rate is only stored in this browser.",
+  "settings.currency": "Second currency",
+  "settings.noCurrency": "Don't show",
+  "settings.rate": "Exchange rate (VND per 1 {code})",
+  "settings.rateInvalid": "The exchange rate must be a positive number",
+  "settings.preview": "Example:",
+  "settings.saved": "Saved",
+
+  "app.notFound": "Page not found",
+
+  "attributes.nameRequired": "Every attribute needs a name",
+  "attributes.nameTaken": "“{name}” is already an attribute of this category or a parent",
+  "attributes.optionsRequired": "“{name}” needs at least one option",
+  "attributes.rangeInvalid": "“{name}”: the minimum is greater than the maximum",
+  "attributes.patternInvalid": "“{name}”: the pattern is not a valid regular expression",
+  "attributes.text": "Text",
+  "attributes.number": "Number",
+  "attributes.date": "Date",
+  "attributes.select": "Choice",
+  "attributes.inherited": "Inherited from parent categories: {names}",
+  "attributes.none": "This category has no attributes of its own.",
+  "attributes.name": "Attribute name",
+  "attributes.required": "Required",
+  "attributes.remove": "Remove attribute {name}",
+  "attributes.unit": "Unit",
+  "attributes.min": "Minimum",
+  "attributes.max": "Maximum",
+  "attributes.options": "Options, separated by commas",
+  "attributes.pattern": "Pattern (regular expression, optional)",
+  "attributes.add": "Add attribute",
+
+  "builder.toggle": "Advanced filter",
+  "builder.and": "Match all conditions (AND)",
+  "builder.or": "Match any condition (OR)",
+  "builder.addCondition": "Condition",
+  "builder.addGroup": "Group",
+  "builder.removeCondition": "Remove condition",
+  "builder.removeGroup": "Remove group",
+  "builder.clear": "Clear advanced filter",
+  "builder.empty": "No conditions yet.",
+  "builder.field": "Field",
+  "builder.operator": "Operator",
+  "builder.value": "Value",
+  "builder.unknownField": "{field} (no longer exists)",
+  "builder.has": "contains",
+  "builder.notHas": "does not contain",
+  "builder.eq": "is",
+  "builder.gte": "is at least",
+  "builder.lte": "is at most",
+  "builder.between": "is between",
+  "builder.in": "is any of",
+  "builder.notIn": "is none of",
+
+  "views.label": "Saved views",
+  "views.all": "All products",
+  "views.save": "Save view",
+  "views.name": "View name",
+  "views.remove": "Delete view {name}",
+  "views.copyLink": "Copy link",
+  "views.copied": "Link copied",
+  "views.copyFailed": "Couldn't copy it; use this link:",
+
+  "labels.title": "Print labels",
+  "labels.fromFilter": { one: "{count} product matching the current filter", other: "{count} products matching the current filter" },
+  "labels.fromSelection": { one: "{count} selected product", other: "{count} selected products" },
+  "labels.sheet": "Label sheet",
+  "labels.roll": "Roll",
+  "labels.custom": "Custom",
+  "labels.content": "Code on the label",
+  "labels.barcode": "Barcode",
+  "labels.qr": "QR code",
+  "labels.both": "Both",
+  "labels.copies": "Copies",
+  "labels.skip": "Skip",
+  "labels.skipHint": "Positions to leave blank at the start, for a partly used sheet",
+  "labels.pageSize": "Page size (mm)",
+  "labels.grid": "Columns × rows",
+  "labels.labelSize": "Label size (mm)",
+  "labels.margins": "Top, left margin (mm)",
+  "labels.gaps": "Horizontal, vertical gap (mm)",
+  "labels.sizeInvalid": "Sizes must be non-negative numbers, and columns and rows positive whole numbers",
+  "labels.doesNotFit": "The labels don't fit on the page with these sizes",
+  "labels.printButton": "Print",
+  "labels.pdf": "Export PDF",
+  "labels.pdfBusy": "Creating PDF…",
+  "labels.pdfFailed": "Could not create the PDF",
+  "labels.labelCount": { one: "{count} label", other: "{count} labels" },
+  "labels.sheetCount": { one: "{count} sheet", other: "{count} sheets" },
+  "labels.truncated": "Only the first {max} labels are laid out; narrow the filter to print the rest",
+  "labels.empty": "No products to print labels for",
+
+  "scan.title": "Scan mode",
+  "scan.hint": "Scan a barcode or QR code with a scanner or the camera, or type the code and press Enter.",
+  "scan.placeholder": "Barcode, SKU…",
+  "scan.find": "Find",
+  "scan.cameraOn": "Use camera",
+  "scan.cameraOff": "Stop camera",
+  "scan.cameraFailed": "Could not open the camera",
+  "scan.unknown": "No product has the code {code}",
+  "scan.addWithCode": "Add a product with this code",
+  "scan.reason": "Scan",
+  "scan.minusOne": "Remove one",
+  "scan.plusOne": "Add one",
+  "scan.inStock": "in stock",
+  "scan.qty": "Qty",
+  "scan.receive": "Receive",
+
+  "prices.schedulePrice": "Scheduled prices must be greater than 0",
+  "prices.scheduleDateRequired": "Choose a start date for each scheduled price",
+  "prices.schedulePast": "{date} is in the past",
+  "prices.scheduleDuplicate": "There is already a scheduled price for {date}",
+  "prices.salePrice": "The sale price must be greater than 0",
+  "prices.saleNotLower": "The sale price must be below the list price",
+  "prices.saleDatesRequired": "Choose when the sale starts and ends",
+  "prices.saleEndsBeforeStart": "The sale ends before it starts",
+  "prices.saleEnded": "The sale has already ended",
+  "prices.newPrice": "New price",
+  "prices.from": "From",
+  "prices.until": "Until",
+  "prices.removeSchedule": "Remove scheduled price",
+  "prices.addSchedule": "Schedule a price",
+  "prices.salePlaceholder": "Sale price",
+  "prices.removeSale": "Remove sale",
+  "prices.addSale": "Add a sale",
+  "prices.saleGuide": "Sale {price}",
+  "prices.when": "When",
+  "prices.kind": "Kind",
+  "prices.saleNow": "Sale, running",
+  "prices.saleUpcoming": "Sale, upcoming",
+  "prices.scheduled": "Scheduled",
+  "prices.current": "Current",
+  "prices.saleBadge": "-{percent}%",
+
+  "orders.chooseVariant": "Choose a variant of {name}",
+  "orders.ledgerSale": "Order #{id}",
+  "orders.ledgerCancel": "Order #{id} cancelled",
+  "orders.gone": "{name} is no longer in the catalogue",
+  "orders.notEnough": "Not enough stock: only {left} of {name} left",
+  "orders.empty": "The cart is empty",
+  "orders.notFound": "Order #{id} not found",
+  "orders.alreadyCancelled": "The order has already been cancelled",
+  "orders.completed": "Completed",
+  "orders.cancelled": "Cancelled",
+  "orders.title": "Orders",
+  "orders.new": "New order",
+  "orders.none": "No orders yet.",
+  "orders.time": "Time",
+  "orders.items": "Items",
+  "orders.total": "Total",
+  "orders.seller": "Seller",
+  "orders.status": "Status",
+  "orders.newHint": "Search for products or scan their codes to add them to the cart.",
+  "orders.searchPlaceholder": "Name, code or SKU…",
+  "orders.inStock": "{count} in stock",
+  "orders.noMatch": "No matching products.",
+  "orders.cart": "Cart",
+  "orders.unitPrice": "Unit price",
+  "orders.lineTotal": "Amount",
+  "orders.onlyLeft": "Only {count} left",
+  "orders.remove": "Remove {name} from the cart",
+  "orders.notePlaceholder": "Note (optional)",
+  "orders.placing": "Placing order…",
+  "orders.place": "Confirm order",
+  "orders.confirmCancel": "Cancel order #{id} and put its items back in stock?",
+  "orders.heading": "Order #{id}",
+  "orders.receipt": "Receipt",
+  "orders.cancel": "Cancel order",
+  "orders.cancelledAt": "Cancelled at",
+  "orders.note": "Note",
+  "orders.print": "Print receipt",
+  "orders.backToOrder": "Back to the order",
+  "orders.thanks": "Thank you!",
+
+  "merge.tooFew": "Pick at least two products to merge",
+  "merge.hasVariants": "“{name}” has variants; products with variants can't be merged",
+  "merge.title": "Merge products",
+  "merge.hint": "Choose the record to keep and which value to keep for each field. Quantities are added up; links to the merged products will lead to the one kept.",
+  "merge.keep": "Keep record",
+  "merge.total": "Quantity after merging: {count}",
+  "merge.submit": "Merge into “{name}”",
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, Message>> = { vi, en };
+
+// Prices are kept in VND; this is only for showing an approximate amount next to them.
+// `rate` is how many VND one unit of `code` is worth.
+type SecondCurrency = { code: string; rate: number };
+
+const SECOND_CURRENCIES = ["USD", "EUR", "JPY", "CNY", "KRW", "THB", "SGD", "AUD"];
+
+const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  return stored === "en" || stored === "vi" ? stored : "vi";
+};
+
+const loadSecondCurrency = (): SecondCurrency | null => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CURRENCY_KEY) ?? "null") as unknown;
+    if (!isRecord(parsed) || typeof parsed.code !== "string" || typeof parsed.rate !== "number" || !(parsed.rate > 0)) return null;
+    return { code: parsed.code, rate: parsed.rate };
+  } catch {
+    return null;
+  }
+};
+
+// Module-level so plain functions (validation, provider messages, ledger reasons) can
+// translate and format too; I18nProvider keeps these in step with its state
+let activeLocale = loadLocale();
+let activeCurrency = loadSecondCurrency();
+
+const localeTag = () => LOCALES.find((l) => l.value === activeLocale)!.tag;
+
+const t = (key: MessageKey, params: MessageParams = {}) => {
+  const message = MESSAGES[activeLocale][key];
+  const text = typeof message === "string"
+    ? message
+    : new Intl.PluralRules(localeTag()).select(Number(params.count)) === "one" ? message.one : message.other;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+const formatNumber = (n: number) => n.toLocaleString(localeTag());
+
+const formatMoney = (n: number) => n.toLocaleString(localeTag(), { style: "currency", currency: "VND" });
+
+const formatSecondMoney = (n: number, currency = activeCurrency) =>
+  currency ? (n / currency.rate).toLocaleString(localeTag(), { style: "currency", currency: currency.code }) : null;
+
+// Short labels for chart axes: 1,5 Tr / 1.5M
+const formatCompact = (n: number) => n.toLocaleString(localeTag(), { notation: "compact", maximumFractionDigits: 1 });
+
+const formatDate = (at: string | number) => new Date(at).toLocaleDateString(localeTag());
+
+const formatDateTime = (at: string | number) => new Date(at).toLocaleString(localeTag());
+
+type I18nContextType = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  currency: SecondCurrency | null; // null = VND only
+  setCurrency: (currency: SecondCurrency | null) => void;
+  t: typeof t;
+};
+
+const I18nContext = createContext<I18nContextType | null>(null);
+
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState(activeLocale);
+  const [currency, setCurrencyState] = useState(activeCurrency);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextType>(
+    () => ({
+      locale,
+      setLocale: (next) => {
+        activeLocale = next;
+        localStorage.setItem(LOCALE_KEY, next);
+        setLocaleState(next);
+      },
+      currency,
+      setCurrency: (next) => {
+        activeCurrency = next;
+        if (next) localStorage.setItem(CURRENCY_KEY, JSON.stringify(next));
+        else localStorage.removeItem(CURRENCY_KEY);
+        setCurrencyState(next);
+      },
+      // A new function whenever the language changes, so memoised output that used it is redone
+      t: (key, params) => t(key, params),
+    }),
+    [locale, currency],
+  );
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+// Components read `t` from here rather than the module so they re-render on a language switch
+const useI18n = () => {
+  const ctx = useContext(I18nContext);
+  if (!ctx) throw new Error("useI18n must be used within I18nProvider");
+  return ctx;
+};
+
+/****************
+ * Stock ledger *
+ ****************/
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const movement = (loai: MovementType, soLuong: number, lyDo: string, thoiGian = new Date().toISOString()): StockMovement =>
+  ({ id: newId(), loai, soLuong, lyDo, thoiGian });
+
+const openingMovement = (soLuong: number, thoiGian?: string) => movement("adjustment", soLuong, t("ledger.opening"), thoiGian);
+
+const ledgerBalance = (ledger: StockMovement[]) => ledger.reduce((n, m) => n + m.soLuong, 0);
+
+// soLuong can still be set directly (edit form, import, bulk actions); this books
+// the difference as an adjustment so the ledger keeps explaining the stock level
+const reconcileLedger = (p: Product, lyDo: string): Product => {
+  const diff = p.soLuong - ledgerBalance(p.lichSuKho);
+  return diff === 0 ? p : { ...p, lichSuKho: [...p.lichSuKho, movement("adjustment", diff, lyDo)] };
+};
+
+/************
+ * Variants *
+ ************/
+
+const MAX_AXES = 3;
+const MAX_VARIANTS = 100;
+
+const variantLabel = (v: Variant) => v.giaTri.join(" / ");
+
+// `base` is the price that variants without their own inherit (e.g. effectivePrice(p))
+const variantPrice = (p: Product, v: Variant, base = p.gia) => v.gia ?? base;
+
+const priceRange = (p: Product, base = p.gia): [number, number] => {
+  if (!p.bienThe.length) return [base, base];
+  const prices = p.bienThe.map((v) => variantPrice(p, v, base));
+  return [Math.min(...prices), Math.max(...prices)];
+};
+
+const stockValue = (p: Product) =>
+  p.bienThe.length ? p.bienThe.reduce((n, v) => n + variantPrice(p, v) * v.soLuong, 0) : p.gia * p.soLuong;
+
+// Products with variants don't keep their own stock figure; it is always the total
+const withVariantTotals = (p: Product): Product => {
+  if (!p.bienThe.length) return p;
+  const soLuong = p.bienThe.reduce((n, v) => n + v.soLuong, 0);
+  return soLuong === p.soLuong ? p : { ...p, soLuong };
+};
+
+// Every combination of the axis values, first axis varying slowest
+const variantCombinations = (axes: OptionAxis[]): string[][] =>
+  axes.length ? axes.reduce<string[][]>((combos, axis) => combos.flatMap((c) => axis.giaTri.map((v) => [...c, v])), [[]]) : [];
+
+const skuPart = (s: string) => fold(s).replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").toUpperCase();
+
+const suggestSku = (ten: string, giaTri: string[]) => [ten, ...giaTri].map(skuPart).filter(Boolean).join("-");
+
+// Regenerates the matrix after the axes change; combinations that still exist keep
+// their row (SKU, price, stock), new ones come from `create`
+const buildVariantMatrix = <T extends { giaTri: string[] },>(axes: OptionAxis[], existing: T[], create: (giaTri: string[]) => T): T[] => {
+  const byKey = new Map(existing.map((v) => [v.giaTri.join("\u0000"), v] as const));
+  return variantCombinations(axes).map((giaTri) => byKey.get(giaTri.join("\u0000")) ?? create(giaTri));
+};
+
+/**********
+ * Prices *
+ **********/
+
+// Today as YYYY-MM-DD in local time, which is how scheduled and sale dates are kept
+const localDay = (d = new Date()) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+
+const formatDay = (day: string) => formatDate(startOfDay(day));
+
+const priceEntry = (gia: number, thoiGian = new Date().toISOString()): PriceEntry => ({ id: newId(), gia, thoiGian });
+
+// gia can be set from many places (edit form, import, bulk actions, restores); like
+// reconcileLedger, this records the new price in the history when it has changed
+const reconcilePrices = (p: Product): Product =>
+  p.lichSuGia.at(-1)?.gia === p.gia ? p : { ...p, lichSuGia: [...p.lichSuGia, priceEntry(p.gia)] };
+
+// The list price on `day`: gia, or the latest scheduled price that has come due but not
+// been applied yet (settlePrices applies them, but only in an editor's session)
+const listPrice = (p: Product, day = localDay()) =>
+  p.giaHenGio.reduce<ScheduledPrice | null>((latest, s) => (s.tuNgay <= day && (!latest || s.tuNgay > latest.tuNgay) ? s : latest), null)?.gia ?? p.gia;
+
+const activeSale = (p: Product, day = localDay()) =>
+  p.khuyenMai && p.khuyenMai.tuNgay <= day && day <= p.khuyenMai.denNgay ? p.khuyenMai : null;
+
+// What the product sells for today; variants with their own price keep it
+const effectivePrice = (p: Product, day = localDay()) => activeSale(p, day)?.gia ?? listPrice(p, day);
+
+const formatPriceRange = (p: Product, base = p.gia) => {
+  const [lo, hi] = priceRange(p, base);
+  return lo === hi ? formatMoney(lo) : `${formatMoney(lo)} – ${formatMoney(hi)}`;
+};
+
+// Due scheduled prices become gia (each dated from its day) and an ended sale is
+// cleared; null when there is nothing to settle
+const settlePrices = (p: Product, day = localDay()): Product | null => {
+  const due = p.giaHenGio.filter((s) => s.tuNgay <= day).sort((a, b) => a.tuNgay.localeCompare(b.tuNgay));
+  const saleEnded = p.khuyenMai !== null && p.khuyenMai.denNgay < day;
+  if (!due.length && !saleEnded) return null;
+  return {
+    ...p,
+    gia: due.at(-1)?.gia ?? p.gia,
+    lichSuGia: [...p.lichSuGia, ...due.map((s) => ({ id: s.id, gia: s.gia, thoiGian: startOfDay(s.tuNgay) }))],
+    giaHenGio: p.giaHenGio.filter((s) => s.tuNgay > day),
+    khuyenMai: saleEnded ? null : p.khuyenMai,
+  };
+};
+
+/**********
+ * Orders *
+ **********/
+
+const orderLineName = (line: OrderLine) => (line.phanLoai ? `${line.ten} (${line.phanLoai})` : line.ten);
+
+// Today's price of the product, or of one of its variants
+const sellPrice = (p: Product, variant?: Variant) => (variant ? variantPrice(p, variant, effectivePrice(p)) : effectivePrice(p));
+
+// The cart's lines at today's prices; throws when a product or its variant is missing
+const orderLines = (products: Product[], cart: CartLine[]): OrderLine[] =>
+  cart.map(({ sanPhamId, bienTheId, soLuong }) => {
+    const p = products.find((x) => x.id === sanPhamId);
+    if (!p) throw new Error(t("product.notFound", { id: sanPhamId }));
+    const variant = p.bienThe.find((b) => b.id === bienTheId);
+    if (p.bienThe.length && !variant) throw new Error(t("orders.chooseVariant", { name: p.ten }));
+    return {
+      sanPhamId,
+      ...(variant && { bienTheId: variant.id, phanLoai: variantLabel(variant) }),
+      soLuong,
+      ten: p.ten,
+      maVach: variant?.sku || p.maVach,
+      donGia: sellPrice(p, variant),
+    };
+  });
+
+const orderTotal = (lines: OrderLine[]) => lines.reduce((sum, l) => sum + l.donGia * l.soLuong, 0);
+
+// Books an order in the stock ledger. "sell" takes its lines out and throws, changing
+// nothing, if any would go below zero. "restock" puts a cancelled order back; products
+// and variants deleted since then are skipped.
+const applyOrderStock = (products: Product[], order: Order, direction: "sell" | "restock"): Product[] => {
+  const sign = direction === "sell" ? -1 : 1;
+  const lyDo = t(direction === "sell" ? "orders.ledgerSale" : "orders.ledgerCancel", { id: order.id });
+  const byId = new Map(products.map((p) => [p.id, p] as const));
+  for (const line of order.dongHang) {
+    const p = byId.get(line.sanPhamId);
+    const variant = p?.bienThe.find((b) => b.id === line.bienTheId);
+    if (!p || (line.bienTheId && !variant)) {
+      if (direction === "sell") throw new Error(t("orders.gone", { name: orderLineName(line) }));
+      continue;
+    }
+    const delta = sign * line.soLuong;
+    const left = variant ? variant.soLuong : p.soLuong;
+    if (left + delta < 0) throw new Error(t("orders.notEnough", { name: orderLineName(line), left }));
+    byId.set(p.id, {
+      ...p,
+      soLuong: p.soLuong + delta,
+      bienThe: p.bienThe.map((b) => (b === variant ? { ...b, soLuong: b.soLuong + delta } : b)),
+      lichSuKho: [...p.lichSuKho, { ...movement(direction === "sell" ? "sale" : "return", delta, lyDo), ...(variant && { bienTheId: variant.id }) }],
+    });
+  }
+  return products.map((p) => byId.get(p.id)!);
+};
+
+/*****************
+ * Product codes *
+ *****************/
+
+// Product.maVach is what labels print and scanners read: an EAN-13 when it is 13 digits
+// with a valid check digit, otherwise any printable ASCII SKU (printed as Code 128).
+const MAX_CODE_LENGTH = 32;
+
+const eanCheckDigit = (first12: string) => {
+  const sum = [...first12].reduce((n, d, i) => n + Number(d) * (i % 2 ? 3 : 1), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+const isEan13 = (code: string) => /^\d{13}$/.test(code) && eanCheckDigit(code.slice(0, 12)) === code[12];
+
+// Generated codes use the GS1 prefix 20, reserved for in-store numbering, followed by a
+// 10-digit sequence number
+const internalCode = (seq: number) => {
+  const first12 = `20${String(seq).padStart(10, "0")}`;
+  return first12 + eanCheckDigit(first12);
+};
+
+const internalSeq = (code: string) => (code.startsWith("20") && isEan13(code) ? Number(code.slice(2, 12)) : 0);
+
+const nextInternalCode = (codes: string[]) => internalCode(codes.reduce((m, c) => Math.max(m, internalSeq(c)), 0) + 1);
+
+// Codes are compared case-insensitively, as scanners may send either case
+const codeKey = (code: string) => code.trim().toUpperCase();
+
+const codeProblem = (code: string): string | null => {
+  if (/^\d{13}$/.test(code)) return isEan13(code) ? null : t("validate.maVachCheckDigit", { digit: eanCheckDigit(code.slice(0, 12)) });
+  if (code.length > MAX_CODE_LENGTH) return t("validate.maVachTooLong", { max: MAX_CODE_LENGTH });
+  return /^[\x20-\x7e]+$/.test(code) ? null : t("validate.maVachChars");
+};
+
+/**************
+ * Categories *
+ **************/
+
+const isAttributeDef = (x: unknown): x is AttributeDef =>
+  isRecord(x) &&
+  typeof x.khoa === "string" && !!x.khoa &&
+  typeof x.ten === "string" &&
+  ["text", "number", "date", "select"].includes(x.kieu as string) &&
+  typeof x.batBuoc === "boolean" &&
+  (x.donVi === undefined || typeof x.donVi === "string") &&
+  (x.min === undefined || Number.isFinite(x.min)) &&
+  (x.max === undefined || Number.isFinite(x.max)) &&
+  (x.luaChon === undefined || isStringArray(x.luaChon)) &&
+  (x.mau === undefined || typeof x.mau === "string");
+
+const isCategory = (x: unknown): x is Category =>
+  isRecord(x) && typeof x.id === "string" && typeof x.ten === "string" && !!x.ten.trim() &&
+  (x.parentId === null || typeof x.parentId === "string") &&
+  Array.isArray(x.dacTinh) && x.dacTinh.every(isAttributeDef);
+
+// Appends a top-level category for every product category name that has none, so
+// products never point at a category the UI cannot show
+const ensureCategories = (categories: Category[], products: { danhMuc: DanhMuc }[]): Category[] => {
+  const known = new Set(categories.map((c) => c.ten));
+  const missing = [...new Set(products.map((p) => p.danhMuc))].filter((ten) => !known.has(ten));
+  return missing.length ? [...categories, ...missing.map((ten) => ({ id: newId(), ten, parentId: null, dacTinh: DEFAULT_ATTRIBUTES[ten] ?? [] }))] : categories;
+};
+
+const defaultCategories = (): Category[] => ensureCategories([], DEFAULT_CATEGORIES.map((danhMuc) => ({ danhMuc })));
+
+// Depth-first, siblings in array order
+const categoryTree = (categories: Category[]): { category: Category; depth: number }[] => {
+  const out: { category: Category; depth: number }[] = [];
+  const ids = new Set(categories.map((c) => c.id));
+  const walk = (parentId: string | null, depth: number) => {
+    for (const c of categories) {
+      // Orphans (parent deleted elsewhere) are shown at the top level
+      const parent = c.parentId && ids.has(c.parentId) ? c.parentId : null;
+      if (parent !== parentId) continue;
+      out.push({ category: c, depth });
+      walk(c.id, depth + 1);
+    }
+  };
+  walk(null, 0);
+  return out;
+};
+
+// Own attributes last, after those inherited from parent categories
+const attributesFor = (categories: Category[], ten: DanhMuc): AttributeDef[] => {
+  const chain: Category[] = [];
+  for (let c = categories.find((x) => x.ten === ten); c && !chain.includes(c); c = categories.find((x) => x.id === c!.parentId)) {
+    chain.unshift(c);
+  }
+  return chain.flatMap((c) => c.dacTinh);
+};
+
+// Keys read like the label ("Bảo hành" -> "bao-hanh") so exports and the audit log stay legible
+const attributeKey = (ten: string, taken: Set<string>) => {
+  const base = skuPart(ten).toLowerCase() || "thuoc-tinh";
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}-${n}`;
+  return key;
+};
+
+// Dates are calendar days, so they are read as local midnight rather than UTC
+const formatAttribute = (def: AttributeDef, value: string | number) => {
+  if (def.kieu === "number") return `${formatNumber(Number(value))}${def.donVi ? ` ${def.donVi}` : ""}`;
+  if (def.kieu === "date") return formatDate(`${value}T00:00:00`);
+  return String(value);
+};
+
+// Why a category's own schema can't be saved, or null. `inherited` are the parents' attributes.
+const attributesProblem = (defs: AttributeDef[], inherited: AttributeDef[]): string | null => {
+  const names = new Set(inherited.map((d) => d.ten.trim().toLocaleLowerCase("vi")));
+  for (const d of defs) {
+    if (!d.ten.trim()) return t("attributes.nameRequired");
+    const name = d.ten.trim().toLocaleLowerCase("vi");
+    if (names.has(name)) return t("attributes.nameTaken", { name: d.ten.trim() });
+    names.add(name);
+    if (d.kieu === "select" && !d.luaChon?.length) return t("attributes.optionsRequired", { name: d.ten });
+    const bounds = [d.min, d.max].filter((n) => n !== undefined);
+    if (!bounds.every(Number.isFinite) || (bounds.length === 2 && d.min! > d.max!)) return t("attributes.rangeInvalid", { name: d.ten });
+    if (d.mau !== undefined) {
+      try {
+        new RegExp(d.mau);
+      } catch {
+        return t("attributes.patternInvalid", { name: d.ten });
+      }
+    }
+  }
+  return null;
+};
+
+const isRecord = (x: unknown): x is Record<string, unknown> => typeof x === "object" && x !== null && !Array.isArray(x);
+
+/******************************
+ * Sample data (>= 10 items)  *
+ ******************************/
+const initialProducts: Product[] = ([
+  { id: 1, ten: "iPhone 15 Pro", danhMuc: "Điện tử", gia: 25000000, soLuong: 10, moTa: "Flagship Apple, chip A17 Pro.", nguongDatHang: 12, dacTinh: { thuongHieu: "Apple", baoHanh: 12 } },
+  { id: 2, ten: "Áo Thun Nam", danhMuc: "Quần áo", gia: 150000, soLuong: 50, moTa: "Cotton 100%, form regular fit.", nguongDatHang: 10, dacTinh: {} },
+  { id: 3, ten: "Bánh Mì Bơ Tỏi", danhMuc: "Đồ ăn", gia: 35000, soLuong: 120, moTa: "Giòn thơm, làm mới mỗi ngày.", nguongDatHang: 20, dacTinh: { hanSuDung: "2026-12-31" } },
+  { id: 4, ten: "Sách Dạy Nấu Ăn", danhMuc: "Sách", gia: 99000, soLuong: 40, moTa: "Tuyển tập công thức dễ làm.", nguongDatHang: 10, dacTinh: { tacGia: "Nhiều tác giả" } },
+  { id: 5, ten: "Tai Nghe Bluetooth", danhMuc: "Điện tử", gia: 790000, soLuong: 35, moTa: "Bluetooth 5.3, chống ồn chủ động.", nguongDatHang: 10, dacTinh: { thuongHieu: "Sony", baoHanh: 12 } },
+  { id: 6, ten: "Quần Jean Slim", danhMuc: "Quần áo", gia: 399000, soLuong: 28, moTa: "Denim co giãn, xanh đậm.", nguongDatHang: 30, dacTinh: {} },
+  { id: 7, ten: "Cơm Gà Xối Mỡ", danhMuc: "Đồ ăn", gia: 45000, soLuong: 60, moTa: "Suất ăn nóng, gà giòn rụm.", nguongDatHang: 15, dacTinh: { hanSuDung: "2026-12-01" } },
+  { id: 8, ten: "Sách Kinh Tế Học", danhMuc: "Sách", gia: 159000, soLuong: 22, moTa: "Nhập môn kinh tế (bản mới).", nguongDatHang: 5, dacTinh: { tacGia: "N. Gregory Mankiw", isbn: "978-0-357-03831-4" } },
+  { id: 9, ten: "Bình Giữ Nhiệt", danhMuc: "Khác", gia: 199000, soLuong: 45, moTa: "Giữ nóng/lạnh 6-8h, 500ml.", nguongDatHang: 10, dacTinh: {} },
+  { id: 10, ten: "Chuột Không Dây", danhMuc: "Điện tử", gia: 259000, soLuong: 70, moTa: "2.4G + BT, DPI 800-1600-2400.", nguongDatHang: 15, dacTinh: { thuongHieu: "Logitech", baoHanh: 24 } },
+  { id: 11, ten: "Áo Khoác Hoodie", danhMuc: "Quần áo", gia: 499000, soLuong: 15, moTa: "Nỉ dày, có mũ, unisex.", nguongDatHang: 20, dacTinh: {} },
+] as Omit<Product, "lichSuKho" | "hinhAnh" | "thuocTinh" | "bienThe" | "maVach" | "lichSuGia" | "giaHenGio" | "khuyenMai" | "idCu" | "phienBan">[]).map((p) => ({
+  ...p,
+  maVach: internalCode(p.id),
+  lichSuKho: [openingMovement(p.soLuong, "2025-01-01T00:00:00.000Z")],
+  hinhAnh: [],
+  thuocTinh: [],
+  bienThe: [],
+  lichSuGia: [priceEntry(p.gia, "2025-01-01T00:00:00.000Z")],
+  giaHenGio: [],
+  khuyenMai: null,
+  idCu: [],
+  phienBan: 1,
+}));
+
+/*****************************
+ * LocalStorage persistence  *
+ *****************************/
+
+// Everything is stored in a versioned envelope. Older layouts are brought up to
+// SCHEMA_VERSION by running MIGRATIONS[v] for each version v in between.
+const LS_KEY = "product_app_state";
+const LEGACY_LS_KEY = "product_app_state_v1"; // schema v1: a bare Product[] under its own key
+const QUARANTINE_KEY = "product_app_quarantine";
+const SCHEMA_VERSION = 12;
+
+type StorageEnvelope = { version: number; savedAt: string; products: unknown[]; categories?: unknown[]; orders?: unknown[] };
+
+type QuarantinedRecord = { raw: unknown; reason: string; quarantinedAt: string };
+
+const MIGRATIONS: Record<number, (env: StorageEnvelope) => StorageEnvelope> = {
+  // v1 -> v2: only the envelope changed, records are unchanged
+  1: (env) => ({ ...env, version: 2 }),
+  // v2 -> v3: stock ledger and reorder threshold; existing stock becomes the opening balance
+  2: (env) => ({
+    ...env,
+    version: 3,
+    products: env.products.map((p) =>
+      isRecord(p) && typeof p.soLuong === "number"
+        ? { nguongDatHang: 0, ...p, lichSuKho: [openingMovement(p.soLuong, env.savedAt || undefined)] }
+        : p,
+    ),
+  }),
+  // v3 -> v4: categories become data; start from the old fixed list plus any other names in use
+  3: (env) => ({
+    ...env,
+    version: 4,
+    categories: ensureCategories(defaultCategories(), env.products.filter(isRecord).map((p) => ({ danhMuc: String(p.danhMuc) }))),
+  }),
+  // v4 -> v5: products get an (empty) image list
+  4: (env) => ({ ...env, version: 5, products: env.products.map((p) => (isRecord(p) ? { hinhAnh: [], ...p } : p)) }),
+  // v5 -> v6: option axes and variants, none for existing products
+  5: (env) => ({ ...env, version: 6, products: env.products.map((p) => (isRecord(p) ? { thuocTinh: [], bienThe: [], ...p } : p)) }),
+  // v6 -> v7: revision numbers for conflict detection
+  6: (env) => ({ ...env, version: 7, products: env.products.map((p) => (isRecord(p) ? { phienBan: 1, ...p } : p)) }),
+  // v7 -> v8: custom attributes; the default categories get their starting schemas
+  7: (env) => ({
+    ...env,
+    version: 8,
+    products: env.products.map((p) => (isRecord(p) ? { dacTinh: {}, ...p } : p)),
+    categories: env.categories?.map((c) => (isRecord(c) ? { dacTinh: DEFAULT_ATTRIBUTES[String(c.ten)] ?? [], ...c } : c)),
+  }),
+  // v8 -> v9: product codes; existing products get an internal EAN-13 numbered by their id
+  8: (env) => ({
+    ...env,
+    version: 9,
+    products: env.products.map((p) => (isRecord(p) && Number.isInteger(p.id) ? { maVach: internalCode(p.id as number), ...p } : p)),
+  }),
+  // v9 -> v10: price history, starting with the current price as of the first stock movement
+  9: (env) => ({
+    ...env,
+    version: 10,
+    products: env.products.map((p) => {
+      if (!isRecord(p)) return p;
+      const since = Array.isArray(p.lichSuKho) && isRecord(p.lichSuKho[0]) ? String(p.lichSuKho[0].thoiGian) : undefined;
+      return { lichSuGia: [priceEntry(p.gia as number, since)], giaHenGio: [], khuyenMai: null, ...p };
+    }),
+  }),
+  // v10 -> v11: orders, none yet
+  10: (env) => ({ ...env, version: 11, orders: [] }),
+  // v11 -> v12: ids merged into each product, none yet
+  11: (env) => ({ ...env, version: 12, products: env.products.map((p) => (isRecord(p) ? { idCu: [], ...p } : p)) }),
+};
+
+const isDay = (x: unknown): x is string => typeof x === "string" && /^\d{4}-\d{2}-\d{2}$/.test(x) && !Number.isNaN(Date.parse(x));
+
+const isPriceEntry = (x: unknown): x is PriceEntry =>
+  isRecord(x) && typeof x.id === "string" && typeof x.gia === "number" && x.gia >= 0 && typeof x.thoiGian === "string";
+
+const isScheduledPrice = (x: unknown): x is ScheduledPrice =>
+  isRecord(x) && typeof x.id === "string" && typeof x.gia === "number" && x.gia > 0 && isDay(x.tuNgay);
+
+const isSalePrice = (x: unknown): x is SalePrice =>
+  isRecord(x) && typeof x.gia === "number" && x.gia > 0 && isDay(x.tuNgay) && isDay(x.denNgay) && x.tuNgay <= x.denNgay;
+
+const isMovement = (x: unknown): x is StockMovement =>
+  isRecord(x) &&
+  typeof x.id === "string" &&
+  MOVEMENT_TYPES.some((t) => t.value === x.loai) &&
+  Number.isInteger(x.soLuong) &&
+  typeof x.lyDo === "string" &&
+  typeof x.thoiGian === "string" &&
+  (x.bienTheId === undefined || typeof x.bienTheId === "string");
+
+const isProductImage = (x: unknown): x is ProductImage =>
+  isRecord(x) &&
+  typeof x.id === "string" &&
+  typeof x.ten === "string" &&
+  Number.isInteger(x.rong) &&
+  Number.isInteger(x.cao);
+
+const isStringArray = (x: unknown): x is string[] => Array.isArray(x) && x.every((v) => typeof v === "string");
+
+const isOptionAxis = (x: unknown): x is OptionAxis => isRecord(x) && typeof x.ten === "string" && isStringArray(x.giaTri);
+
+const isVariant = (x: unknown, axes: number): x is Variant =>
+  isRecord(x) &&
+  typeof x.id === "string" &&
+  isStringArray(x.giaTri) &&
+  x.giaTri.length === axes &&
+  typeof x.sku === "string" &&
+  (x.gia === null || (typeof x.gia === "number" && Number.isFinite(x.gia) && x.gia > 0)) &&
+  Number.isInteger(x.soLuong) &&
+  (x.soLuong as number) >= 0;
+
+const isOrderLine = (x: unknown): x is OrderLine =>
+  isRecord(x) &&
+  Number.isInteger(x.sanPhamId) &&
+  (x.bienTheId === undefined || typeof x.bienTheId === "string") &&
+  Number.isInteger(x.soLuong) &&
+  (x.soLuong as number) > 0 &&
+  typeof x.ten === "string" &&
+  (x.phanLoai === undefined || typeof x.phanLoai === "string") &&
+  typeof x.maVach === "string" &&
+  typeof x.donGia === "number" &&
+  x.donGia >= 0;
+
+const isOrder = (x: unknown): x is Order =>
+  isRecord(x) &&
+  Number.isInteger(x.id) &&
+  (x.id as number) > 0 &&
+  typeof x.thoiGian === "string" &&
+  Array.isArray(x.dongHang) &&
+  x.dongHang.length > 0 &&
+  x.dongHang.every(isOrderLine) &&
+  typeof x.tongTien === "number" &&
+  typeof x.ghiChu === "string" &&
+  (x.nguoiBan === null || typeof x.nguoiBan === "string") &&
+  (x.trangThai === "completed" || x.trangThai === "cancelled") &&
+  (x.huyLuc === undefined || typeof x.huyLuc === "string");
+
+// Returns why `x` is not a valid Product, or null when it is
+const productProblem = (x: unknown): string | null => {
+  if (!isRecord(x)) return t("data.notObject");
+  if (!Number.isInteger(x.id) || (x.id as number) <= 0) return t("data.invalidField", { field: "id" });
+  if (typeof x.ten !== "string" || !x.ten.trim()) return t("data.invalidField", { field: "ten" });
+  if (typeof x.danhMuc !== "string" || !x.danhMuc.trim()) return t("data.invalidField", { field: "danhMuc" });
+  if (typeof x.gia !== "number" || !Number.isFinite(x.gia) || x.gia < 0) return t("data.invalidField", { field: "gia" });
+  if (!Number.isInteger(x.soLuong) || (x.soLuong as number) < 0) return t("data.invalidField", { field: "soLuong" });
+  if (typeof x.moTa !== "string") return t("data.invalidField", { field: "moTa" });
+  if (!Number.isInteger(x.nguongDatHang) || (x.nguongDatHang as number) < 0) return t("data.invalidField", { field: "nguongDatHang" });
+  if (!Array.isArray(x.lichSuKho) || !x.lichSuKho.every(isMovement)) return t("data.invalidField", { field: "lichSuKho" });
+  if (!Array.isArray(x.hinhAnh) || !x.hinhAnh.every(isProductImage)) return t("data.invalidField", { field: "hinhAnh" });
+  if (!Array.isArray(x.thuocTinh) || !x.thuocTinh.every(isOptionAxis)) return t("data.invalidField", { field: "thuocTinh" });
+  const axes = x.thuocTinh.length;
+  if (!Array.isArray(x.bienThe) || !x.bienThe.every((v) => isVariant(v, axes))) return t("data.invalidField", { field: "bienThe" });
+  if (!isRecord(x.dacTinh) || !Object.values(x.dacTinh).every((v) => typeof v === "string" || Number.isFinite(v))) {
+    return t("data.invalidField", { field: "dacTinh" });
+  }
+  if (typeof x.maVach !== "string" || !x.maVach.trim() || codeProblem(x.maVach)) return t("data.invalidField", { field: "maVach" });
+  if (!Array.isArray(x.lichSuGia) || !x.lichSuGia.every(isPriceEntry)) return t("data.invalidField", { field: "lichSuGia" });
+  if (!Array.isArray(x.giaHenGio) || !x.giaHenGio.every(isScheduledPrice)) return t("data.invalidField", { field: "giaHenGio" });
+  if (x.khuyenMai !== null && !isSalePrice(x.khuyenMai)) return t("data.invalidField", { field: "khuyenMai" });
+  if (!Array.isArray(x.idCu) || !x.idCu.every((id) => Number.isInteger(id) && id > 0)) return t("data.invalidField", { field: "idCu" });
+  if (!Number.isInteger(x.phienBan) || (x.phienBan as number) < 1) return t("data.invalidField", { field: "phienBan" });
+  return null;
+};
+
+type RepositoryErrorKind = "quota" | "unavailable" | "network" | "http" | "not-found" | "invalid" | "conflict";
+
+class RepositoryError extends Error {
+  kind: RepositoryErrorKind;
+  status?: number;
+  current?: Product; // for a conflict, the stored copy that was saved first, when known
+
+  constructor(kind: RepositoryErrorKind, message: string, status?: number, current?: Product) {
+    super(message);
+    this.name = "RepositoryError";
+    this.kind = kind;
+    this.status = status;
+    this.current = current;
+  }
+}
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === "QuotaExceededError" || e.name === "NS_ERROR_DOM_QUOTA_REACHED" || e.code === 22);
+
+const persist = (products: Product[], categories: Category[], orders: Order[]) => {
+  const envelope: StorageEnvelope = { version: SCHEMA_VERSION, savedAt: new Date().toISOString(), products, categories, orders };
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify(envelope));
+  } catch (e) {
+    throw isQuotaError(e)
+      ? new RepositoryError("quota", t("repo.quota"))
+      : new RepositoryError("unavailable", t("repo.unavailable"));
+  }
+};
+
+const loadQuarantine = (): QuarantinedRecord[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUARANTINE_KEY) ?? "[]") as unknown;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQuarantine = (records: QuarantinedRecord[]) => {
+  try {
+    if (records.length) localStorage.setItem(QUARANTINE_KEY, JSON.stringify(records));
+    else localStorage.removeItem(QUARANTINE_KEY);
+  } catch {
+    // Quarantine is best effort; the banner still shows what was found this session
+  }
+};
+
+// Reads whichever layout is present and normalises it to an envelope (not yet migrated)
+const readEnvelope = (): StorageEnvelope | null => {
+  const raw = localStorage.getItem(LS_KEY);
+  if (raw) {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!isRecord(parsed) || !Number.isInteger(parsed.version) || !Array.isArray(parsed.products)) {
+      throw new Error(t("data.badEnvelope"));
+    }
+    return parsed as StorageEnvelope;
+  }
+  const legacy = localStorage.getItem(LEGACY_LS_KEY);
+  if (legacy) {
+    const parsed = JSON.parse(legacy) as unknown;
+    if (!Array.isArray(parsed)) throw new Error(t("data.v1NotArray"));
+    return { version: 1, savedAt: "", products: parsed };
+  }
+  return null;
+};
+
+type StoredCatalogue = { products: Product[]; categories: Category[]; orders: Order[] };
+
+// Moves the payload readEnvelope() couldn't use into quarantine, so that later loads (every
+// local write is one) start from sample data instead of quarantining it again. The key is
+// only removed once the copy is stored.
+const quarantinePayload = (reason: string, quarantinedAt: string) => {
+  try {
+    const key = localStorage.getItem(LS_KEY) !== null ? LS_KEY : LEGACY_LS_KEY;
+    const raw = localStorage.getItem(key);
+    if (raw === null) return;
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...loadQuarantine(), { raw, reason, quarantinedAt }]));
+    localStorage.removeItem(key);
+  } catch {
+    // Storage is unavailable or full; the payload stays where it is
+  }
+};
+
+const loadFromStorage = (): StoredCatalogue | null => {
+  const now = new Date().toISOString();
+  const quarantined: QuarantinedRecord[] = [];
+  let stored: StorageEnvelope | null;
+  let env: StorageEnvelope;
+  try {
+    stored = readEnvelope();
+    if (!stored) return null;
+    env = stored;
+    while (env.version < SCHEMA_VERSION) {
+      const migrate = MIGRATIONS[env.version];
+      if (!migrate) throw new Error(t("data.noMigration", { version: env.version }));
+      env = migrate(env);
+    }
+  } catch (e) {
+    // Unreadable payload: keep the raw text so it can be recovered, start from sample data
+    quarantinePayload(e instanceof Error ? e.message : t("data.brokenJson"), now);
+    return null;
+  }
+
+  const seen = new Set<number>();
+  const products: Product[] = [];
+  let repaired = false;
+  for (const rec of env.products) {
+    const problem = productProblem(rec) ?? (seen.has((rec as Product).id) ? t("data.duplicateId") : null);
+    if (problem) {
+      quarantined.push({ raw: rec, reason: problem, quarantinedAt: now });
+      continue;
+    }
+    seen.add((rec as Product).id);
+    const product = reconcilePrices(reconcileLedger(withVariantTotals(rec as Product), t("ledger.loadReconcile")));
+    if (product !== rec) repaired = true;
+    products.push(product);
+  }
+
+  const storedCategories = env.categories ?? [];
+  const validCategories = storedCategories.filter(isCategory);
+  for (const rec of storedCategories) {
+    if (!isCategory(rec)) quarantined.push({ raw: rec, reason: t("data.invalidCategory"), quarantinedAt: now });
+  }
+  const categories = ensureCategories(validCategories, products);
+  if (categories.length !== storedCategories.length) repaired = true;
+
+  // Orders keep their own copy of what was sold, so they stay valid when products go
+  const storedOrders = env.orders ?? [];
+  const orders = storedOrders.filter(isOrder);
+  for (const rec of storedOrders) {
+    if (!isOrder(rec)) quarantined.push({ raw: rec, reason: t("data.invalidOrder"), quarantinedAt: now });
+  }
+
+  // Rewrite in the current layout so the repair or migration only happens once.
+  // A failed rewrite is harmless: the same steps simply run again on the next load.
+  if (quarantined.length) saveQuarantine([...loadQuarantine(), ...quarantined]);
+  if (quarantined.length || repaired || stored.version !== SCHEMA_VERSION) {
+    try {
+      persist(products, categories, orders);
+      localStorage.removeItem(LEGACY_LS_KEY);
+    } catch {
+      // see above
+    }
+  }
+  return { products, categories, orders };
+};
+
+/**************************
+ * Product repositories   *
+ **************************/
+
+// Where the catalogue lives. Every method resolves with the stored state or
+// rejects with a RepositoryError, so callers can roll optimistic changes back.
+type ProductRepository = {
+  list: () => Promise<Product[]>;
+  get: (id: number) => Promise<Product>;
+  create: (p: Omit<Product, "id" | "phienBan">) => Promise<Product>;
+  // update() and replaceAll() reject with a "conflict" error when a product they change
+  // is no longer at the revision (phienBan) it carries, i.e. it was saved elsewhere since
+  update: (p: Product) => Promise<Product>;
+  delete: (id: number) => Promise<void>;
+  replaceAll: (products: Product[]) => Promise<Product[]>;
+  // Call list() first: a backend may load both from the same place
+  listCategories: () => Promise<Category[]>;
+  // With `products` (a rename or reassignment reaching them), writes both together as
+  // replaceAll would, all or nothing; `products` in the result is null without them
+  saveCategories: (categories: Category[], products?: Product[]) => Promise<{ categories: Category[]; products: Product[] | null }>;
+  // Call list() first, as for categories. Oldest first.
+  listOrders: () => Promise<Order[]>;
+  // Writes the order together with the catalogue its stock changes leave (as for
+  // replaceAll), all or nothing. Rejects with a "conflict" error like replaceAll does,
+  // and also when a new order's id is taken or a cancelled order was not still completed.
+  saveOrder: (order: Order, products: Product[]) => Promise<{ order: Order; products: Product[] }>;
+  // Only backends that repair data on load have something to report here
+  recovery?: { quarantined: () => QuarantinedRecord[]; clear: () => void };
+  // Only backends that queue writes for a sync endpoint
+  sync?: SyncSource;
+};
+
+const conflictError = (p: Product) =>
+  new RepositoryError("conflict", t("repo.conflictProduct", { name: p.ten, revision: p.phienBan }), 409, p);
+
+// A new order must not exist yet; a cancellation must find the order still completed
+const checkOrder = (stored: Order[], order: Order) => {
+  const existing = stored.find((o) => o.id === order.id);
+  if (existing?.trangThai !== (order.trangThai === "completed" ? undefined : "completed")) {
+    throw new RepositoryError("conflict", t("repo.conflictOrder", { id: order.id }), 409);
+  }
+};
+
+// Applies a full-list write on top of what is stored now. `known` is the list the writer
+// started from: products it left alone are taken as stored (including ones added or
+// deleted elsewhere since), products it changed or deleted must still be at the
+// revision it knew, and changed ones get the next revision.
+const mergeRevisions = (stored: Product[], next: Product[], known: Product[]): Product[] => {
+  const storedById = new Map(stored.map((p) => [p.id, p] as const));
+  const knownById = new Map(known.map((p) => [p.id, p] as const));
+  const nextIds = new Set(next.map((p) => p.id));
+  for (const s of stored) {
+    const k = knownById.get(s.id);
+    if (!nextIds.has(s.id) && k && k.phienBan !== s.phienBan) throw conflictError(s);
+  }
+  const addedElsewhere = stored.filter((s) => !knownById.has(s.id) && !nextIds.has(s.id));
+  const merged = next.flatMap((p) => {
+    const s = storedById.get(p.id);
+    const k = knownById.get(p.id);
+    if (k && sameProduct(k, p)) return s ? [s] : []; // untouched here
+    if (!s) return [{ ...p, phienBan: 1 }];
+    if (sameProduct(s, p)) return [s];
+    if (s.phienBan !== p.phienBan) throw conflictError(s);
+    return [{ ...p, phienBan: s.phienBan + 1 }];
+  });
+  return [...addedElsewhere, ...merged];
+};
+
+const createLocalStorageRepository = (): ProductRepository => {
+  // What this tab last read or wrote. Other tabs write to the same key, so every
+  // write starts from what is stored at that moment instead.
+  let products: Product[] = [];
+  let categories: Category[] = [];
+  let orders: Order[] = [];
+  const stored = () => loadFromStorage()?.products ?? products;
+  const storedCategories = () => loadFromStorage()?.categories ?? categories;
+  const storedOrders = () => loadFromStorage()?.orders ?? orders;
+  const save = (next: Product[], nextCategories = storedCategories(), nextOrders = storedOrders()) => {
+    persist(next, nextCategories, nextOrders);
+    products = next;
+    categories = nextCategories;
+    orders = nextOrders;
+  };
+  const find = (list: Product[], id: number) => {
+    const p = list.find((x) => x.id === id);
+    if (!p) throw new RepositoryError("not-found", t("product.notFound", { id }), 404);
+    return p;
+  };
+
+  return {
+    list: async () => {
+      // Sample data only while nothing is stored: an emptied catalogue stays empty
+      const stored = loadFromStorage();
+      products = stored ? stored.products : initialProducts;
+      categories = ensureCategories(stored ? stored.categories : defaultCategories(), products);
+      orders = stored?.orders ?? [];
+      return products;
+    },
+    listCategories: async () => categories,
+    listOrders: async () => orders,
+    saveOrder: async (order, next) => {
+      const current = storedOrders();
+      checkOrder(current, order);
+      const merged = mergeRevisions(stored(), next, products);
+      save(merged, storedCategories(), current.some((o) => o.id === order.id) ? current.map((o) => (o.id === order.id ? order : o)) : [...current, order]);
+      return { order, products: merged };
+    },
+    saveCategories: async (next, nextProducts) => {
+      const merged = nextProducts ? mergeRevisions(stored(), nextProducts, products) : null;
+      save(merged ?? stored(), next);
+      return { categories: next, products: merged };
+    },
+    get: async (id) => find(stored(), id),
+    create: async (p) => {
+      const current = stored();
+      // Ids merged away stay taken so their links keep leading to the merged product
+      const created: Product = { id: current.reduce((m, x) => Math.max(m, x.id, ...x.idCu), 0) + 1, ...p, phienBan: 1 };
+      save([created, ...current]);
+      return created;
+    },
+    update: async (p) => {
+      const current = stored();
+      const existing = find(current, p.id);
+      if (existing.phienBan !== p.phienBan) throw conflictError(existing);
+      const saved = { ...p, phienBan: p.phienBan + 1 };
+      save(current.map((x) => (x.id === p.id ? saved : x)));
+      return saved;
+    },
+    delete: async (id) => {
+      const current = stored();
+      find(current, id);
+      save(current.filter((x) => x.id !== id));
+    },
+    replaceAll: async (next) => {
+      const merged = mergeRevisions(stored(), next, products);
+      save(merged);
+      return merged;
+    },
+    recovery: {
+      quarantined: loadQuarantine,
+      clear: () => saveQuarantine([]),
+    },
+  };
+};
+
+// JSON REST API: GET/PUT /products, GET/PUT/DELETE /products/:id, POST /products,
+// GET/PUT /categories, GET /orders, PUT /orders/:id ({ order, products } both ways).
+// See mock-server/server.mjs for a local stand-in.
+const createHttpRepository = (baseUrl: string): ProductRepository => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const request = async (path: string, init?: RequestInit): Promise<unknown> => {
+    let res: Response;
+    try {
+      res = await fetch(root + path, { ...init, headers: { "Content-Type": "application/json", ...init?.headers } });
+    } catch {
+      throw new RepositoryError("network", t("repo.network"));
+    }
+    if (res.status === 409) {
+      // A product conflict carries the server's copy, for the user to merge with
+      const body = (await res.json().catch(() => null)) as unknown;
+      if (isRecord(body) && !productProblem(body.product)) throw conflictError(body.product as Product);
+      throw new RepositoryError("conflict", t("repo.conflict"), 409);
+    }
+    if (!res.ok) {
+      throw new RepositoryError(res.status === 404 ? "not-found" : "http", t("repo.httpError", { status: res.status }), res.status);
+    }
+    return res.status === 204 ? undefined : res.json();
+  };
+
+  // Responses are checked like stored data so a misbehaving server can't hydrate garbage
+  const asProduct = (x: unknown): Product => {
+    const problem = productProblem(x);
+    if (problem) throw new RepositoryError("invalid", t("repo.invalidProduct", { problem }));
+    return x as Product;
+  };
+  const asProducts = (x: unknown): Product[] => {
+    if (!Array.isArray(x)) throw new RepositoryError("invalid", t("repo.invalidData"));
+    return x.map(asProduct);
+  };
+  const asCategories = (x: unknown): Category[] => {
+    if (!Array.isArray(x) || !x.every(isCategory)) throw new RepositoryError("invalid", t("repo.invalidCategories"));
+    return x;
+  };
+  const asOrders = (x: unknown): Order[] => {
+    if (!Array.isArray(x) || !x.every(isOrder)) throw new RepositoryError("invalid", t("repo.invalidOrders"));
+    return x;
+  };
+
+  // The list as this client last read or wrote it. Full-list writes send along the
+  // revisions it knew and which products it changed, so the server can apply the same
+  // rules as mergeRevisions: products this client never saw are kept, and one it
+  // dropped or changed must still be at the revision it knew.
+  let known: Product[] = [];
+  const remember = (list: Product[]) => (known = list);
+  const listWrite = (products: Product[]) => {
+    const knownById = new Map(known.map((p) => [p.id, p] as const));
+    return {
+      products,
+      known: known.map((p) => [p.id, p.phienBan]),
+      changed: products.filter((p) => !knownById.has(p.id) || !sameProduct(knownById.get(p.id)!, p)).map((p) => p.id),
+    };
+  };
+  const patchKnown = (p: Product) => {
+    known = known.some((k) => k.id === p.id) ? known.map((k) => (k.id === p.id ? p : k)) : [p, ...known];
+    return p;
+  };
+
+  return {
+    list: async () => remember(asProducts(await request("/products"))),
+    get: async (id) => asProduct(await request(`/products/${id}`)),
+    create: async (p) => patchKnown(asProduct(await request("/products", { method: "POST", body: JSON.stringify(p) }))),
+    update: async (p) => patchKnown(asProduct(await request(`/products/${p.id}`, { method: "PUT", body: JSON.stringify(p) }))),
+    delete: async (id) => {
+      await request(`/products/${id}`, { method: "DELETE" });
+      known = known.filter((k) => k.id !== id);
+    },
+    replaceAll: async (products) => remember(asProducts(await request("/products", { method: "PUT", body: JSON.stringify(listWrite(products)) }))),
+    listCategories: async () => asCategories(await request("/categories")),
+    saveCategories: async (categories, products) => {
+      if (!products) return { categories: asCategories(await request("/categories", { method: "PUT", body: JSON.stringify(categories) })), products: null };
+      const saved = await request("/categories", { method: "PUT", body: JSON.stringify({ categories, ...listWrite(products) }) });
+      if (!isRecord(saved)) throw new RepositoryError("invalid", t("repo.invalidData"));
+      return { categories: asCategories(saved.categories), products: remember(asProducts(saved.products)) };
+    },
+    listOrders: async () => asOrders(await request("/orders")),
+    saveOrder: async (order, products) => {
+      const saved = await request(`/orders/${order.id}`, { method: "PUT", body: JSON.stringify({ order, ...listWrite(products) }) });
+      if (!isRecord(saved)) throw new RepositoryError("invalid", t("repo.invalidData"));
+      return { order: asOrders([saved.order])[0], products: remember(asProducts(saved.products)) };
+    },
+  };
+};
+
+/******************
+ * Offline outbox *
+ ******************/
+
+// With a sync endpoint configured, the local catalogue stays the working copy, so the
+// app keeps working offline, and every write is also queued here and posted to the
+// endpoint in order. The queue lives in localStorage: it is shared by all tabs and
+// survives reloads until the endpoint has accepted each entry.
+const OUTBOX_KEY = "product_app_outbox";
+const SYNC_RETRY_MS = 30_000;
+
+type OutboxOp =
+  | { kind: "create" | "update"; product: Product }
+  | { kind: "delete"; id: number }
+  | { kind: "replaceAll"; products: Product[] }
+  | { kind: "saveCategories"; categories: Category[]; products?: Product[] }
+  | { kind: "saveOrder"; order: Order; products: Product[] };
+
+// `id` lets the endpoint skip an entry it already applied when only the reply was lost
+type OutboxEntry = { id: string; at: string; op: OutboxOp };
+
+type SyncState = {
+  pending: number; // entries the endpoint has not accepted yet
+  syncing: boolean;
+  error: string | null; // last failure, cleared by the next accepted entry
+  lastSyncedAt: string | null;
+};
+
+type SyncSource = {
+  state: () => SyncState; // same object until something changes
+  subscribe: (listener: () => void) => () => void;
+  flush: () => void;
+};
+
+const loadOutbox = (): OutboxEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? "[]") as unknown;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveOutbox = (entries: OutboxEntry[]) => localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+
+const createSyncingRepository = (inner: ProductRepository, syncUrl: string): ProductRepository => {
+  let state: SyncState = { pending: loadOutbox().length, syncing: false, error: null, lastSyncedAt: null };
+  const listeners = new Set<() => void>();
+  const setState = (patch: Partial<SyncState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+  let retry: ReturnType<typeof setTimeout> | undefined;
+
+  // Resolves with a message when the endpoint rejects the entry outright: it would be
+  // rejected on every retry, so it is dropped rather than left to block the queue
+  const post = async (entry: OutboxEntry): Promise<string | null> => {
+    let res: Response;
+    try {
+      res = await fetch(syncUrl, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(entry) });
+    } catch {
+      throw new RepositoryError("network", t("sync.network"));
+    }
+    if (res.status >= 400 && res.status < 500 && res.status !== 408 && res.status !== 429) {
+      return t("sync.rejected", { status: res.status });
+    }
+    if (!res.ok) throw new RepositoryError("http", t("sync.httpError", { status: res.status }), res.status);
+    return null;
+  };
+
+  const flush = async () => {
+    if (state.syncing || !navigator.onLine) return;
+    clearTimeout(retry);
+    setState({ syncing: true });
+    try {
+      for (;;) {
+        const entry = loadOutbox()[0];
+        if (!entry) break;
+        const rejected = await post(entry);
+        saveOutbox(loadOutbox().filter((e) => e.id !== entry.id));
+        setState({ pending: loadOutbox().length, error: rejected, lastSyncedAt: new Date().toISOString() });
+      }
+    } catch (e) {
+      setState({ error: errorMessage(e) });
+      retry = setTimeout(() => void flush(), SYNC_RETRY_MS);
+    } finally {
+      setState({ syncing: false, pending: loadOutbox().length });
+    }
+  };
+
+  const enqueue = (op: OutboxOp) => {
+    // A full-list write supersedes every product write queued before it; earlier orders
+    // and categories stay queued for what else they carry
+    const queued =
+      op.kind === "replaceAll" || op.kind === "saveOrder" || (op.kind === "saveCategories" && op.products)
+        ? loadOutbox().filter((e) => e.op.kind === "saveCategories" || e.op.kind === "saveOrder")
+        : loadOutbox();
+    try {
+      saveOutbox([...queued, { id: newId(), at: new Date().toISOString(), op }]);
+    } catch {
+      // The change is saved locally; only the endpoint won't hear about it
+      setState({ error: t("sync.queueFull") });
+      return;
+    }
+    setState({ pending: queued.length + 1 });
+    void flush();
+  };
+
+  const queued = <A extends unknown[], R>(call: (...args: A) => Promise<R>, op: (result: R, ...args: A) => OutboxOp) =>
+    async (...args: A) => {
+      const result = await call(...args);
+      enqueue(op(result, ...args));
+      return result;
+    };
+
+  window.addEventListener("online", () => void flush());
+  window.addEventListener("storage", (e) => {
+    if (e.key === OUTBOX_KEY) setState({ pending: loadOutbox().length });
+  });
+  void flush(); // whatever an earlier session left behind
+
+  return {
+    ...inner,
+    create: queued(inner.create, (product) => ({ kind: "create", product })),
+    update: queued(inner.update, (product) => ({ kind: "update", product })),
+    delete: queued(inner.delete, (_, id) => ({ kind: "delete", id })),
+    replaceAll: queued(inner.replaceAll, (products) => ({ kind: "replaceAll", products })),
+    saveCategories: queued(inner.saveCategories, ({ categories, products }) => ({ kind: "saveCategories", categories, ...(products && { products }) })),
+    saveOrder: queued(inner.saveOrder, (saved) => ({ kind: "saveOrder", ...saved })),
+    sync: {
+      state: () => state,
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      flush: () => void flush(),
+    },
+  };
+};
+
+// VITE_PRODUCT_BACKEND=http switches to the REST API at VITE_PRODUCT_API_URL. Otherwise
+// the catalogue is local, and VITE_SYNC_URL adds the outbox in front of it.
+const createConfiguredRepository = (): ProductRepository => {
+  if (import.meta.env.VITE_PRODUCT_BACKEND === "http") {
+    return createHttpRepository((import.meta.env.VITE_PRODUCT_API_URL as string | undefined) ?? "http://localhost:4000");
+  }
+  const syncUrl = import.meta.env.VITE_SYNC_URL as string | undefined;
+  return syncUrl ? createSyncingRepository(createLocalStorageRepository(), syncUrl) : createLocalStorageRepository();
+};
+
+/***************
+ * Image store *
+ ***************/
+
+// Image bytes are too large for localStorage, so they go to IndexedDB keyed by
+// ProductImage.id. This store is local to the browser whichever repository is used.
+const IMAGE_DB = "product_app_media";
+const IMAGE_STORE = "images";
+const IMAGE_MAX_SIDE = 1600;
+const THUMB_MAX_SIDE = 320;
+const MAX_IMAGES = 12;
+
+type StoredImage = { id: string; full: Blob; thumb: Blob; storedAt?: number }; // storedAt: ms, missing on older records
+
+let imageDb: Promise<IDBDatabase> | null = null;
+
+const openImageDb = () =>
+  (imageDb ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(IMAGE_DB, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(IMAGE_STORE, { keyPath: "id" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      imageDb = null; // let the next call try again
+      reject(new RepositoryError("unavailable", t("images.dbUnavailable")));
+    };
+  }));
+
+const withImageStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openImageDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(IMAGE_STORE, mode);
+    const req = run(tx.objectStore(IMAGE_STORE));
+    tx.oncomplete = () => resolve(req ? req.result : undefined);
+    tx.onerror = tx.onabort = () =>
+      reject(
+        isQuotaError(tx.error)
+          ? new RepositoryError("quota", t("images.quota"))
+          : new RepositoryError("unavailable", t("images.writeFailed")),
+      );
+  });
+};
+
+const putImages = (images: StoredImage[]) => {
+  const storedAt = Date.now();
+  return withImageStore("readwrite", (store) => images.forEach((img) => store.put({ ...img, storedAt })));
+};
+const getImage = (id: string) => withImageStore<StoredImage | undefined>("readonly", (store) => store.get(id));
+
+// Uploads are kept this long even when nothing refers to them: `keep` only knows this
+// tab's products, and a form open in another tab may not have saved its images yet
+const IMAGE_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Blobs are not deleted together with the product, since undo can bring the product
+// back. Anything no product or history entry refers to any more is removed here.
+const pruneImages = (keep: Set<string>) => {
+  const cutoff = Date.now() - IMAGE_GRACE_MS;
+  return withImageStore("readwrite", (store) => {
+    const req = store.openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      const img = cursor.value as StoredImage;
+      if (!keep.has(img.id) && (img.storedAt ?? 0) < cutoff) cursor.delete();
+      cursor.continue();
+    };
+  });
+};
+
+// Draws the image at most `maxSide` px on its longer side and re-encodes it as JPEG
+const scaleImage = async (source: ImageBitmap, maxSide: number, quality: number) => {
+  const scale = Math.min(1, maxSide / Math.max(source.width, source.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#fff"; // JPEG has no alpha; transparent areas would turn black
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", quality));
+  if (!blob) throw new Error(t("images.encodeFailed"));
+  return { blob, rong: canvas.width, cao: canvas.height };
+};
+
+// Resizes and stores uploaded files, returning their metadata in the same order
+const storeImageFiles = async (files: File[]): Promise<ProductImage[]> => {
+  const stored: StoredImage[] = [];
+  const images: ProductImage[] = [];
+  for (const file of files) {
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(file);
+    } catch {
+      throw new Error(t("images.notImage", { name: file.name }));
+    }
+    try {
+      const full = await scaleImage(bitmap, IMAGE_MAX_SIDE, 0.85);
+      const thumb = await scaleImage(bitmap, THUMB_MAX_SIDE, 0.75);
+      const id = newId();
+      stored.push({ id, full: full.blob, thumb: thumb.blob });
+      images.push({ id, ten: file.name, rong: full.rong, cao: full.cao });
+    } finally {
+      bitmap.close();
+    }
+  }
+  await putImages(stored);
+  return images;
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBlob = async (url: string) => (await fetch(url)).blob();
+
+/*********************
+ * Undo / redo       *
+ *********************/
+
+// A history entry records, for every product it touched, the value and list
+// position before and after. `null` means the product did not exist on that side.
+type HistoryChange = { id: number; before: Product | null; after: Product | null; beforeIndex: number; afterIndex: number };
+// `permission`: what the change needed beyond edit and delete (an import), so that
+// replaying it needs the same
+type HistoryEntry = { label: string; at: string; changes: HistoryChange[]; permission?: Permission };
+type History = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+const HISTORY_KEY = "product_app_history";
+const HISTORY_LIMIT = 50;
+
+// The revision is bookkeeping, not content: two copies that differ only in phienBan are the same product
+const sameProduct = (a: Product, b: Product) => JSON.stringify({ ...a, phienBan: 0 }) === JSON.stringify({ ...b, phienBan: 0 });
+
+// Old snapshots (history, audit, an import) carry the revision they had back then;
+// writing them back is a change on top of the current revision, not a conflict
+const rebaseRevisions = (next: Product[], current: Product[]): Product[] => {
+  const revisions = new Map(current.map((p) => [p.id, p.phienBan] as const));
+  return next.map((p) => ({ ...p, phienBan: revisions.get(p.id) ?? p.phienBan }));
+};
+
+const diffProducts = (before: Product[], after: Product[]): HistoryChange[] => {
+  const beforeIdx = new Map(before.map((p, i) => [p.id, i] as const));
+  const afterIdx = new Map(after.map((p, i) => [p.id, i] as const));
+  const changes: HistoryChange[] = [];
+  for (const id of new Set([...beforeIdx.keys(), ...afterIdx.keys()])) {
+    const bi = beforeIdx.get(id) ?? -1;
+    const ai = afterIdx.get(id) ?? -1;
+    const b = bi >= 0 ? before[bi] : null;
+    const a = ai >= 0 ? after[ai] : null;
+    if (b && a && sameProduct(b, a)) continue;
+    changes.push({ id, before: b, after: a, beforeIndex: bi, afterIndex: ai });
+  }
+  return changes;
+};
+
+// Takes every touched product out of `list`, then puts the chosen side back at its
+// recorded position. Untouched products keep their relative order.
+const applyChanges = (list: Product[], changes: HistoryChange[], direction: "undo" | "redo"): Product[] => {
+  const touched = new Set(changes.map((c) => c.id));
+  const next = list.filter((p) => !touched.has(p.id));
+  changes
+    .map((c) => (direction === "undo" ? { p: c.before, i: c.beforeIndex } : { p: c.after, i: c.afterIndex }))
+    .filter((t): t is { p: Product; i: number } => t.p !== null)
+    .sort((x, y) => x.i - y.i)
+    .forEach(({ p, i }) => next.splice(Math.min(i, next.length), 0, p));
+  return next;
+};
+
+const historyProducts = (h: History) =>
+  [...h.past, ...h.future].flatMap((e) => e.changes.flatMap((c) => [c.before, c.after])).filter((p): p is Product => p !== null);
+
+// Snapshots are brought up to date with the migrations from v4 on, which only add
+// missing fields; entries that still don't hold valid products are dropped rather
+// than letting undo restore a broken record
+const upgradeSnapshot = (p: unknown) => {
+  if (!isRecord(p)) return p;
+  let env: StorageEnvelope = { version: 4, savedAt: "", products: [p] };
+  while (env.version < SCHEMA_VERSION) env = MIGRATIONS[env.version](env);
+  return env.products[0];
+};
+
+const upgradeEntries = (entries: unknown[]): HistoryEntry[] =>
+  entries.filter(isRecord).flatMap((e) => {
+    if (!Array.isArray(e.changes)) return [];
+    const changes = (e.changes as HistoryChange[]).map(
+      (c) => ({ ...c, before: upgradeSnapshot(c.before), after: upgradeSnapshot(c.after) }) as HistoryChange,
+    );
+    const valid = changes.every((c) => [c.before, c.after].every((p) => p === null || !productProblem(p)));
+    return valid ? [{ ...(e as HistoryEntry), changes }] : [];
+  });
+
+const loadHistory = (): History => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(HISTORY_KEY) ?? "null") as unknown;
+    if (isRecord(parsed) && Array.isArray(parsed.past) && Array.isArray(parsed.future)) {
+      return { past: upgradeEntries(parsed.past), future: upgradeEntries(parsed.future) };
+    }
+  } catch {
+    // A broken history is not worth a banner; start with an empty one
+  }
+  return { past: [], future: [] };
+};
+
+const saveHistory = (history: History) => {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch {
+    // History is a convenience; losing it must not block the edit itself
+  }
+};
+
+/*************
+ * Audit log *
+ *************/
+
+type AuditAction = "create" | "update" | "delete";
+
+// Field values are stored already formatted, so an entry reads the same even after
+// the product (or the way it is displayed) changes
+type FieldChange = { field: keyof Product; truoc: string | null; sau: string | null };
+
+type AuditEntry = {
+  id: string;
+  at: string;
+  actor: { id: string; ten: string } | null;
+  action: AuditAction;
+  productId: number;
+  productTen: string;
+  label: string; // what the user did, e.g. "Điều chỉnh giá 3 sản phẩm"
+  changes: FieldChange[];
+  snapshot: Product; // the product after the change, or before it for a delete
+};
+
+const AUDIT_KEY = "product_app_audit";
+const AUDIT_LIMIT = 1000;
+
+// The ledger is left out: a stock movement shows up as a change of soLuong
+const AUDIT_FIELDS: { key: keyof Product; label: MessageKey; format: (p: Product) => string }[] = [
+  { key: "ten", label: "field.ten", format: (p) => p.ten },
+  { key: "danhMuc", label: "field.danhMuc", format: (p) => p.danhMuc },
+  { key: "gia", label: "field.gia", format: (p) => formatMoney(p.gia) },
+  { key: "soLuong", label: "field.soLuong", format: (p) => formatNumber(p.soLuong) },
+  { key: "moTa", label: "field.moTa", format: (p) => p.moTa },
+  { key: "nguongDatHang", label: "field.nguongDatHang", format: (p) => formatNumber(p.nguongDatHang) },
+  { key: "hinhAnh", label: "field.hinhAnh", format: (p) => p.hinhAnh.map((img) => img.ten).join(", ") || "—" },
+  {
+    key: "bienThe",
+    label: "field.bienThe",
+    format: (p) => p.bienThe.map((v) => `${variantLabel(v)} (${v.sku}): ${v.soLuong} × ${formatMoney(variantPrice(p, v))}`).join("; ") || "—",
+  },
+  { key: "dacTinh", label: "field.dacTinh", format: (p) => Object.entries(p.dacTinh).map(([k, v]) => `${k}: ${v}`).join("; ") || "—" },
+  { key: "maVach", label: "field.maVach", format: (p) => p.maVach },
+  { key: "giaHenGio", label: "field.giaHenGio", format: (p) => p.giaHenGio.map((s) => `${formatDay(s.tuNgay)}: ${formatMoney(s.gia)}`).join("; ") || "—" },
+  {
+    key: "khuyenMai",
+    label: "field.khuyenMai",
+    format: (p) => (p.khuyenMai ? `${formatMoney(p.khuyenMai.gia)} (${formatDay(p.khuyenMai.tuNgay)} – ${formatDay(p.khuyenMai.denNgay)})` : "—"),
+  },
+];
+
+const diffFields = (before: Product | null, after: Product | null): FieldChange[] =>
+  AUDIT_FIELDS.flatMap(({ key, format }) => {
+    const truoc = before && format(before);
+    const sau = after && format(after);
+    return truoc === sau ? [] : [{ field: key, truoc, sau }];
+  });
+
+const auditEntries = (label: string, changes: HistoryChange[], actor: { id: string; ten: string } | null): AuditEntry[] => {
+  const at = new Date().toISOString();
+  return changes.map((c) => {
+    const snapshot = (c.after ?? c.before)!;
+    return {
+      id: newId(),
+      at,
+      actor: actor && { id: actor.id, ten: actor.ten },
+      action: !c.before ? "create" : !c.after ? "delete" : "update",
+      productId: c.id,
+      productTen: snapshot.ten,
+      label,
+      changes: diffFields(c.before, c.after),
+      snapshot,
+    };
+  });
+};
+
+const loadAudit = (): AuditEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(AUDIT_KEY) ?? "[]") as unknown;
+    if (!Array.isArray(parsed)) return [];
+    // Old snapshots are upgraded like history entries; anything unusable is dropped
+    return parsed
+      .filter((e): e is AuditEntry => isRecord(e) && typeof e.id === "string" && typeof e.at === "string" && Array.isArray(e.changes))
+      .map((e) => ({ ...e, snapshot: upgradeSnapshot(e.snapshot) as Product }))
+      .filter((e) => !productProblem(e.snapshot));
+  } catch {
+    return [];
+  }
+};
+
+const saveAudit = (log: AuditEntry[]) => {
+  try {
+    localStorage.setItem(AUDIT_KEY, JSON.stringify(log));
+  } catch {
+    // Dropping the oldest half is better than losing every new entry once storage is full
+    try {
+      localStorage.setItem(AUDIT_KEY, JSON.stringify(log.slice(Math.floor(log.length / 2))));
+    } catch {
+      // Nothing more to do; the in-memory log is still shown for this session
+    }
+  }
+};
+
+/******************
+ * Authentication *
+ ******************/
+
+type Role = "viewer" | "editor" | "admin";
+type Permission = "edit" | "delete" | "manageCategories" | "import" | "audit";
+
+type User = { id: string; ten: string; email: string; role: Role };
+type Session = { user: User; token: string; expiresAt: string };
+
+const ROLE_LABELS: Record<Role, MessageKey> = { viewer: "role.viewer", editor: "role.editor", admin: "role.admin" };
+
+const PERMISSION_LABELS: Record<Permission, MessageKey> = {
+  edit: "permission.edit",
+  delete: "permission.delete",
+  manageCategories: "permission.manageCategories",
+  import: "permission.import",
+  audit: "permission.audit",
+};
+
+// Visitors who are not signed in get the viewer's (empty) set
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  editor: ["edit", "delete"],
+  admin: ["edit", "delete", "manageCategories", "import", "audit"],
+};
+
+// Who is signed in. Every method resolves with the session or rejects with an Error
+// whose message can be shown as is.
+type IdentityProvider = {
+  restore: () => Session | null;
+  signIn: (email: string, password: string) => Promise<Session>;
+  signOut: () => Promise<void>;
+};
+
+const SESSION_KEY = "product_app_session";
+const SESSION_HOURS = 8;
+
+// Development stand-in: fixed accounts, all with the password "demo"
+const DEMO_USERS: User[] = [
+  { id: "u-viewer", ten: "Người xem", email: "viewer@demo.vn", role: "viewer" },
+  { id: "u-editor", ten: "Biên tập viên", email: "editor@demo.vn", role: "editor" },
+  { id: "u-admin", ten: "Quản trị viên", email: "admin@demo.vn", role: "admin" },
+];
+
+const createMockIdentityProvider = (users = DEMO_USERS, password = "demo"): IdentityProvider => ({
+  restore: () => {
+    try {
+      const session = JSON.parse(localStorage.getItem(SESSION_KEY) ?? "null") as Session | null;
+      if (session && Date.parse(session.expiresAt) > Date.now() && users.some((u) => u.id === session.user?.id)) return session;
+    } catch {
+      // An unreadable session just means signing in again
+    }
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+  },
+  signIn: async (email, pw) => {
+    const user = users.find((u) => u.email.toLowerCase() === email.trim().toLowerCase());
+    if (!user || pw !== password) throw new Error(t("auth.badCredentials"));
+    const session: Session = { user, token: newId(), expiresAt: new Date(Date.now() + SESSION_HOURS * 3600_000).toISOString() };
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    return session;
+  },
+  signOut: async () => localStorage.removeItem(SESSION_KEY),
+});
+
+type AuthContextType = {
+  user: User | null;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => void;
+  can: (permission: Permission) => boolean;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+const defaultIdentity = createMockIdentityProvider();
+
+const AuthProvider: React.FC<{ children: React.ReactNode; identity?: IdentityProvider }> = ({ children, identity = defaultIdentity }) => {
+  const [session, setSession] = useState<Session | null>(() => identity.restore());
+
+  const value = useMemo<AuthContextType>(() => {
+    const user = session?.user ?? null;
+    const granted = new Set(ROLE_PERMISSIONS[user?.role ?? "viewer"]);
+    return {
+      user,
+      signIn: async (email, password) => setSession(await identity.signIn(email, password)),
+      signOut: () => {
+        setSession(null);
+        void identity.signOut();
+      },
+      can: (permission) => granted.has(permission),
+    };
+  }, [session, identity]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+const useAuth = () => {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used within AuthProvider");
+  return ctx;
+};
+
+const permissionError = (permission: Permission) => t("auth.forbidden", { action: t(PERMISSION_LABELS[permission]) });
+
+/************************
+ * Context + useReducer *
+ ************************/
+
+// Rows coming from an import file may or may not carry an id (or images: CSV has none)
+type ImportItem = Omit<ProductInput, "hinhAnh" | "thuocTinh" | "bienThe" | "maVach" | "giaHenGio" | "khuyenMai"> & {
+  id?: number;
+  maVach?: string; // generated when missing
+  lichSuKho?: StockMovement[];
+  lichSuGia?: PriceEntry[];
+  giaHenGio?: ScheduledPrice[];
+  khuyenMai?: SalePrice | null;
+  idCu?: number[];
+  hinhAnh?: ProductImage[];
+  thuocTinh?: OptionAxis[];
+  bienThe?: Variant[];
+};
+type ImportMode = "merge" | "replace";
+
+type Action =
+  | { type: "loading" }
+  | { type: "loadFailed"; payload: string }
+  | { type: "hydrate"; payload: Product[] }
+  | { type: "add"; payload: Product }
+  | { type: "replaceId"; payload: { id: number; product: Product } }
+  | { type: "update"; payload: Product }
+  | { type: "delete"; payload: { id: number } }
+  | { type: "restore"; payload: { product: Product; index: number } }
+  | { type: "bulk"; payload: { ids: number[]; op: BulkOp } }
+  | { type: "setCategories"; payload: Category[] }
+  | { type: "setOrders"; payload: Order[] }
+  | { type: "saveOrder"; payload: Order }
+  | { type: "fail"; payload: string }
+  | { type: "dismissError" };
+
+type LoadStatus = "loading" | "ready" | "error";
+
+type ProductState = { products: Product[]; categories: Category[]; orders: Order[]; status: LoadStatus; error: string | null };
+
+const reducer = (state: ProductState, action: Action): ProductState => {
+  switch (action.type) {
+    case "loading":
+      return { ...state, status: "loading", error: null };
+    case "loadFailed":
+      return { ...state, status: "error", error: action.payload };
+    case "hydrate":
+      return { ...state, products: action.payload, status: "ready" };
+    case "add":
+      return { ...state, products: [action.payload, ...state.products] };
+    case "replaceId":
+      return { ...state, products: state.products.map((p) => (p.id === action.payload.id ? action.payload.product : p)) };
+    case "update":
+      return { ...state, products: state.products.map((p) => (p.id === action.payload.id ? action.payload : p)) };
+    case "delete":
+      return { ...state, products: state.products.filter((p) => p.id !== action.payload.id) };
+    case "restore": {
+      const products = [...state.products];
+      products.splice(action.payload.index, 0, action.payload.product);
+      return { ...state, products };
+    }
+    case "bulk":
+      try {
+        return { ...state, products: applyBulk(state.products, action.payload.ids, action.payload.op) };
+      } catch {
+        return state; // the provider validates before dispatching; never apply half a batch
+      }
+    case "setCategories":
+      return { ...state, categories: action.payload };
+    case "setOrders":
+      return { ...state, orders: action.payload };
+    case "saveOrder": {
+      const order = action.payload;
+      const known = state.orders.some((o) => o.id === order.id);
+      return { ...state, orders: known ? state.orders.map((o) => (o.id === order.id ? order : o)) : [...state.orders, order] };
+    }
+    case "fail":
+      return { ...state, error: action.payload };
+    case "dismissError":
+      return { ...state, error: null };
+    default:
+      return state;
+  }
+};
+
+// merge: rows whose id exists overwrite that product, the rest are appended with fresh ids
+// replace: the file becomes the catalogue; ids are kept when present and not duplicated
+const applyImport = (current: Product[], items: ImportItem[], mode: ImportMode): Product[] => {
+  const base = mode === "replace" ? [] : current;
+  const byId = new Map(base.map((p) => [p.id, p] as const));
+  let nextId = (mode === "replace" ? items.flatMap((it) => [it.id ?? 0, ...(it.idCu ?? [])]) : current.flatMap((p) => [p.id, ...p.idCu]))
+    .reduce((m, id) => Math.max(m, id), 0) + 1;
+  let codeSeq = [...base.map((p) => p.maVach), ...items.map((it) => it.maVach ?? "")].reduce((m, c) => Math.max(m, internalSeq(c)), 0);
+  const added: Product[] = [];
+  for (const { id, lichSuKho, hinhAnh, thuocTinh, bienThe, maVach, lichSuGia, giaHenGio, khuyenMai, idCu, ...rest } of items) {
+    // A merged row keeps the existing ledger, images, variants and price plans unless the
+    // file brings its own. With variants the row's soLuong is ignored in favour of their total.
+    const existing = id != null && mode === "merge" ? byId.get(id) : undefined;
+    const extra = {
+      lichSuKho: lichSuKho ?? existing?.lichSuKho ?? [],
+      hinhAnh: hinhAnh ?? existing?.hinhAnh ?? [],
+      thuocTinh: (bienThe ? thuocTinh : existing?.thuocTinh) ?? [],
+      bienThe: bienThe ?? existing?.bienThe ?? [],
+      maVach: maVach || existing?.maVach || internalCode(++codeSeq),
+      lichSuGia: lichSuGia ?? existing?.lichSuGia ?? [],
+      giaHenGio: giaHenGio ?? existing?.giaHenGio ?? [],
+      khuyenMai: khuyenMai !== undefined ? khuyenMai : existing?.khuyenMai ?? null,
+      idCu: idCu ?? existing?.idCu ?? [],
+    };
+    const toProduct = (pid: number) =>
+      reconcilePrices(reconcileLedger(withVariantTotals({ id: pid, ...rest, ...extra, phienBan: existing?.phienBan ?? 1 }), t("ledger.import")));
+    if (id != null && mode === "merge" && byId.has(id)) {
+      byId.set(id, toProduct(id));
+    } else if (id != null && mode === "replace" && !byId.has(id)) {
+      const p = toProduct(id);
+      byId.set(id, p);
+      added.push(p);
+    } else {
+      const p = toProduct(nextId++);
+      byId.set(p.id, p);
+      added.push(p);
+    }
+  }
+  return mode === "replace" ? added : [...base.map((p) => byId.get(p.id)!), ...added];
+};
+
+type BulkOp =
+  | { kind: "delete" }
+  | { kind: "setCategory"; danhMuc: DanhMuc }
+  | { kind: "adjustPrice"; mode: "percent" | "amount"; value: number }
+  | { kind: "setQuantity"; soLuong: number };
+
+// All-or-nothing: throws (and changes nothing) if any product would end up invalid
+const applyBulk = (products: Product[], ids: number[], op: BulkOp): Product[] => {
+  const selected = new Set(ids);
+  if (op.kind === "delete") return products.filter((p) => !selected.has(p.id));
+  if (op.kind === "setQuantity" && (!Number.isInteger(op.soLuong) || op.soLuong < 0)) {
+    throw new Error(t("validate.soLuongInvalid"));
+  }
+  return products.map((p) => {
+    if (!selected.has(p.id)) return p;
+    switch (op.kind) {
+      case "setCategory":
+        return { ...p, danhMuc: op.danhMuc };
+      case "setQuantity":
+        if (p.bienThe.length) throw new Error(t("bulk.hasVariants", { name: p.ten }));
+        return reconcileLedger({ ...p, soLuong: op.soLuong }, t("ledger.bulkSet"));
+      case "adjustPrice": {
+        // Variant price overrides move by the same rule as the base price
+        const adjust = (n: number) => Math.round(op.mode === "percent" ? n * (1 + op.value / 100) : n + op.value);
+        const gia = adjust(p.gia);
+        const bienThe = p.bienThe.map((v) => (v.gia === null ? v : { ...v, gia: adjust(v.gia) }));
+        if ([gia, ...bienThe.map((v) => v.gia ?? gia)].some((g) => !Number.isFinite(g) || g <= 0)) {
+          throw new Error(t("bulk.priceNotPositive", { name: p.ten }));
+        }
+        return reconcilePrices({ ...p, gia, bienThe });
+      }
+    }
+  });
+};
+
+const bulkLabel = (count: number, op: BulkOp) => {
+  switch (op.kind) {
+    case "delete":
+      return t("bulk.labelDelete", { count });
+    case "setCategory":
+      return t("bulk.labelCategory", { count, category: op.danhMuc });
+    case "adjustPrice":
+      return t("bulk.labelPrice", { count });
+    case "setQuantity":
+      return t("bulk.labelQuantity", { count });
+  }
+};
+
+type MergePicks = Partial<Record<keyof Product, number>>; // field -> id of the product whose value is kept
+
+// Stock is always summed and variants are never merged, so neither is up for choice
+const MERGE_FIELDS = AUDIT_FIELDS.filter((f) => f.key !== "soLuong" && f.key !== "bienThe");
+
+// Collapses `ids` into the product `keepId`. Each picked field takes the value of the
+// product chosen for it (the kept one's otherwise); stock is added up and each merged
+// product's share booked in the ledger. The merged ids go into idCu so their links keep
+// working. Products with variants are refused: their stock can't simply be added up.
+const mergeProducts = (products: Product[], ids: number[], keepId: number, picks: MergePicks): Product[] => {
+  const merged = products.filter((p) => ids.includes(p.id));
+  const kept = merged.find((p) => p.id === keepId);
+  if (!kept || merged.length < 2) throw new Error(t("merge.tooFew"));
+  const withVariants = merged.find((p) => p.bienThe.length);
+  if (withVariants) throw new Error(t("merge.hasVariants", { name: withVariants.ten }));
+  const others = merged.filter((p) => p !== kept);
+  const result: Product = { ...kept };
+  for (const [key, id] of Object.entries(picks) as [keyof Product, number][]) {
+    const source = merged.find((p) => p.id === id);
+    if (source && MERGE_FIELDS.some((f) => f.key === key)) Object.assign(result, { [key]: source[key] });
+  }
+  const moved = others.filter((p) => p.soLuong > 0);
+  result.soLuong = kept.soLuong + moved.reduce((s, p) => s + p.soLuong, 0);
+  result.lichSuKho = [...kept.lichSuKho, ...moved.map((p) => movement("adjustment", p.soLuong, t("ledger.merged", { name: p.ten, id: p.id })))];
+  result.idCu = [...kept.idCu, ...others.flatMap((p) => [p.id, ...p.idCu])];
+  const gone = new Set(others.map((p) => p.id));
+  return products.filter((p) => !gone.has(p.id)).map((p) => (p === kept ? reconcilePrices(result) : p));
+};
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : t("error.unknown"));
+
+// Optimistically added products get negative ids until the repository assigns the real one
+let lastTempId = 0;
+const nextTempId = () => --lastTempId;
+const isTempId = (id: number) => id < 0;
+
+// Context
+
+type ProductContextType = {
+  products: Product[];
+  categories: Category[];
+  // Category edits return an error message, or null once the change is under way
+  addCategory: (ten: string, parentId: string | null) => string | null;
+  renameCategory: (id: string, ten: string) => string | null;
+  moveCategory: (id: string, direction: -1 | 1) => void;
+  deleteCategory: (id: string, reassignTo: DanhMuc | null) => string | null;
+  // Replaces the category's own attribute schema; stored product values are left alone
+  setCategoryAttributes: (id: string, dacTinh: AttributeDef[]) => string | null;
+  status: LoadStatus;
+  error: string | null;
+  saving: boolean;
+  reload: () => void;
+  dismissError: () => void;
+  add: (p: ProductInput) => void;
+  // Resolves with the stored copy when someone else saved the product first (the edit is
+  // then rolled back, for the user to merge with it), otherwise with null
+  update: (p: Product) => Promise<Product | null>;
+  // Products with variants need `bienTheId`; the movement then applies to that variant
+  recordMovement: (id: number, loai: MovementType, soLuong: number, lyDo: string, bienTheId?: string) => string | null;
+  remove: (id: number) => void;
+  importMany: (items: ImportItem[], mode: ImportMode) => void;
+  bulk: (ids: number[], op: BulkOp) => void;
+  // Collapses the products into `keepId` (see mergeProducts); returns an error message,
+  // or null once the change is under way
+  merge: (ids: number[], keepId: number, picks: MergePicks) => string | null;
+  // Rolls due scheduled prices into gia and clears ended sales (see usePriceSchedule)
+  applyDuePrices: () => void;
+  orders: Order[]; // oldest first
+  // Not optimistic: the stock check has to pass against the stored catalogue first.
+  // Resolves with the saved order, or with why it was refused (e.g. not enough stock).
+  placeOrder: (cart: CartLine[], ghiChu: string) => Promise<{ order: Order } | { error: string }>;
+  // Puts the order's stock back; resolves with an error message, or null once cancelled
+  cancelOrder: (id: number) => Promise<string | null>;
+  quarantined: QuarantinedRecord[];
+  clearQuarantine: () => void;
+  undo: () => void;
+  redo: () => void;
+  auditLog: AuditEntry[]; // oldest first
+  // Puts the product back the way it was in that entry (re-creating it if deleted);
+  // returns an error message, or null once the change is under way
+  restoreVersion: (entryId: string) => string | null;
+  undoLabel: string | null; // label of the entry undo() would revert, null when there is none
+  redoLabel: string | null;
+  lastAction: { kind: "do" | "undo" | "redo"; label: string; at: number } | null;
+  sync: SyncState | null; // null unless writes are queued for a sync endpoint
+  retrySync: () => void;
+};
+
+const ProductContext = createContext<ProductContextType | null>(null);
+
+const noSubscription = () => () => {};
+const noSyncState = () => null;
+
+// Every tab announces its saves on this channel so the others re-read the repository
+// instead of carrying on with, and later writing back, a stale copy
+const SYNC_CHANNEL = "product_app_sync";
+
+const defaultRepository = createConfiguredRepository();
+
+const ProductProvider: React.FC<{ children: React.ReactNode; repository?: ProductRepository }> = ({
+  children,
+  repository = defaultRepository,
+}) => {
+  const [state, dispatch] = useReducer(reducer, { products: [], categories: [], orders: [], status: "loading", error: null });
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [pending, setPending] = useState(0);
+  const [history, setHistory] = useState<History>(loadHistory);
+  const [lastAction, setLastAction] = useState<ProductContextType["lastAction"]>(null);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(loadAudit);
+  const { user, can } = useAuth();
+  const productsRef = useRef(state.products);
+  const ordersRef = useRef(state.orders);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const sync = useSyncExternalStore(repository.sync?.subscribe ?? noSubscription, repository.sync?.state ?? noSyncState);
+
+  useEffect(() => {
+    productsRef.current = state.products;
+  }, [state.products]);
+
+  useEffect(() => {
+    ordersRef.current = state.orders;
+  }, [state.orders]);
+
+  const reload = useCallback(async () => {
+    dispatch({ type: "loading" });
+    try {
+      const products = await repository.list();
+      const categories = await repository.listCategories();
+      const orders = await repository.listOrders();
+      // Show everything still in quarantine, including records left over from earlier sessions
+      setQuarantined(repository.recovery?.quarantined() ?? []);
+      dispatch({ type: "setCategories", payload: ensureCategories(categories, products) });
+      dispatch({ type: "setOrders", payload: orders });
+      dispatch({ type: "hydrate", payload: products });
+      // Clears out blobs of deleted products that fell off the history and audit log,
+      // and of uploads abandoned for longer than IMAGE_GRACE_MS
+      const keep = new Set(
+        [...products, ...historyProducts(loadHistory()), ...loadAudit().map((e) => e.snapshot)].flatMap((p) => p.hinhAnh.map((img) => img.id)),
+      );
+      pruneImages(keep).catch(() => {});
+    } catch (e) {
+      dispatch({ type: "loadFailed", payload: t("provider.loadFailed", { error: errorMessage(e) }) });
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Picks up changes saved elsewhere without the loading state, so the page stays put
+  const refresh = useCallback(async () => {
+    try {
+      const products = await repository.list();
+      const categories = await repository.listCategories();
+      const orders = await repository.listOrders();
+      dispatch({ type: "setCategories", payload: ensureCategories(categories, products) });
+      dispatch({ type: "setOrders", payload: orders });
+      dispatch({ type: "hydrate", payload: products });
+    } catch {
+      // Left for the next save or reload to report
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined") return;
+    const channel = new BroadcastChannel(SYNC_CHANNEL);
+    channel.onmessage = () => void refresh();
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [refresh]);
+
+  // The history and audit log are shared by all tabs through localStorage
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === HISTORY_KEY) setHistory(loadHistory());
+      if (e.key === AUDIT_KEY) setAuditLog(loadAudit());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  useEffect(() => {
+    saveAudit(auditLog);
+  }, [auditLog]);
+
+  // Every saved change to products ends up in the audit log, including undo/redo and
+  // category renames; only the ones the user made directly are undoable
+  const audit = useCallback(
+    (label: string, changes: HistoryChange[]) => {
+      if (changes.length) setAuditLog((log) => [...log, ...auditEntries(label, changes, user)].slice(-AUDIT_LIMIT));
+    },
+    [user],
+  );
+
+  const record = useCallback(
+    (label: string, changes: HistoryChange[], permission?: Permission) => {
+      if (!changes.length) return;
+      setHistory((h) => ({ past: [...h.past, { label, at: new Date().toISOString(), changes, permission }].slice(-HISTORY_LIMIT), future: [] }));
+      setLastAction({ kind: "do", label, at: Date.now() });
+      audit(label, changes);
+    },
+    [audit],
+  );
+
+  const value = useMemo(() => {
+    // Permissions are enforced here, not only by hiding buttons, so a stale page or a
+    // keyboard shortcut can't get a change past the user's role
+    const allowed = (permission: Permission) => {
+      if (can(permission)) return true;
+      dispatch({ type: "fail", payload: permissionError(permission) });
+      return false;
+    };
+
+    // Applies `optimistic` immediately, then runs the repository call; on failure
+    // `rollback` undoes the optimistic change and the error is surfaced. A conflict means
+    // another tab saved first, so the latest data is loaded for the user to retry on.
+    // Resolves with the error, or null once saved.
+    const mutate = async <T,>(optimistic: () => void, call: () => Promise<T>, onSaved: (result: T) => void, rollback: () => void) => {
+      optimistic();
+      setPending((n) => n + 1);
+      try {
+        const result = await call();
+        channelRef.current?.postMessage("saved");
+        onSaved(result);
+        return null;
+      } catch (e) {
+        rollback();
+        if (e instanceof RepositoryError && e.kind === "conflict") {
+          void refresh();
+          dispatch({ type: "fail", payload: t("provider.conflict", { error: errorMessage(e) }) });
+        } else {
+          dispatch({ type: "fail", payload: t("provider.saveFailed", { error: errorMessage(e) }) });
+        }
+        return e;
+      } finally {
+        setPending((n) => n - 1);
+      }
+    };
+
+    // Orders are audited but not undoable: cancelling is how a sale is taken back. A
+    // conflict loads the latest stock and orders so the cart can be checked again.
+    const saveOrder = async (order: Order, previous: Product[], next: Product[], label: string) => {
+      setPending((n) => n + 1);
+      try {
+        const saved = await repository.saveOrder(order, next);
+        channelRef.current?.postMessage("saved");
+        dispatch({ type: "hydrate", payload: saved.products });
+        dispatch({ type: "saveOrder", payload: saved.order });
+        audit(label, diffProducts(previous, saved.products));
+        return saved.order;
+      } catch (e) {
+        if (e instanceof RepositoryError && e.kind === "conflict") void refresh();
+        throw e;
+      } finally {
+        setPending((n) => n - 1);
+      }
+    };
+
+    // Moves one entry between the stacks up front so repeated shortcuts walk the
+    // history instead of replaying the same entry; a failed save moves it back
+    const travel = (direction: "undo" | "redo") => {
+      const [src, dst] = direction === "undo" ? (["past", "future"] as const) : (["future", "past"] as const);
+      const entry = history[src].at(-1);
+      if (!entry) return;
+      // The history is shared by everyone using this browser: replaying an entry takes
+      // what making the change took, and removing products takes "delete"
+      const removes = entry.changes.some((c) => (direction === "undo" ? c.before : c.after) === null);
+      const needed: Permission[] = ["edit", ...(removes ? ["delete" as const] : []), ...(entry.permission ? [entry.permission] : [])];
+      if (!needed.every(allowed)) return;
+      const shift = (a: keyof History, b: keyof History) => (h: History): History =>
+        ({ ...h, [a]: h[a].slice(0, -1), [b]: [...h[b], entry] }) as History;
+      const previous = productsRef.current;
+      const next = rebaseRevisions(applyChanges(previous, entry.changes, direction), previous);
+      setHistory(shift(src, dst));
+      void mutate(
+        () => dispatch({ type: "hydrate", payload: next }),
+        () => repository.replaceAll(next),
+        (saved) => {
+          dispatch({ type: "hydrate", payload: saved });
+          setLastAction({ kind: direction, label: entry.label, at: Date.now() });
+          audit(t(direction === "undo" ? "history.undoneLabel" : "history.redoneLabel", { label: entry.label }), diffProducts(previous, saved));
+        },
+        () => {
+          dispatch({ type: "hydrate", payload: previous });
+          setHistory(shift(dst, src));
+        },
+      );
+    };
+
+    // Saves a new category list, plus the products it affects (renames, reassignment).
+    // Categories are not part of the undo history: undoing a product edit must not
+    // resurrect a deleted category or undo a rename behind the user's back.
+    const saveCategories = (categories: Category[], products?: Product[], label = t("categories.updatedLabel")) => {
+      const previousCategories = state.categories;
+      const previousProducts = productsRef.current;
+      void mutate(
+        () => {
+          dispatch({ type: "setCategories", payload: categories });
+          if (products) dispatch({ type: "hydrate", payload: products });
+        },
+        // One write, so a failure can't leave the products renamed and the categories not
+        () => repository.saveCategories(categories, products),
+        (saved) => {
+          dispatch({ type: "setCategories", payload: saved.categories });
+          if (saved.products) {
+            dispatch({ type: "hydrate", payload: saved.products });
+            audit(label, diffProducts(previousProducts, saved.products));
+          }
+        },
+        () => {
+          dispatch({ type: "setCategories", payload: previousCategories });
+          if (products) dispatch({ type: "hydrate", payload: previousProducts });
+        },
+      );
+    };
+
+    const nameProblem = (ten: string, exceptId?: string) => {
+      if (!ten.trim()) return t("categories.nameRequired");
+      const taken = state.categories.some((c) => c.id !== exceptId && c.ten.toLocaleLowerCase("vi") === ten.trim().toLocaleLowerCase("vi"));
+      return taken ? t("categories.nameTaken") : null;
+    };
+
+    return {
+      products: state.products,
+      categories: state.categories,
+      addCategory: (ten: string, parentId: string | null) => {
+        if (!can("manageCategories")) return permissionError("manageCategories");
+        const problem = nameProblem(ten);
+        if (problem) return problem;
+        saveCategories([...state.categories, { id: newId(), ten: ten.trim(), parentId, dacTinh: [] }]);
+        return null;
+      },
+      renameCategory: (id: string, ten: string) => {
+        if (!can("manageCategories")) return permissionError("manageCategories");
+        const category = state.categories.find((c) => c.id === id);
+        if (!category) return t("categories.notFound");
+        const problem = nameProblem(ten, id);
+        if (problem) return problem;
+        const next = ten.trim();
+        if (next === category.ten) return null;
+        const affected = productsRef.current.some((p) => p.danhMuc === category.ten);
+        saveCategories(
+          state.categories.map((c) => (c.id === id ? { ...c, ten: next } : c)),
+          affected ? productsRef.current.map((p) => (p.danhMuc === category.ten ? { ...p, danhMuc: next } : p)) : undefined,
+          t("categories.renamedLabel", { from: category.ten, to: next }),
+        );
+        return null;
+      },
+      moveCategory: (id: string, direction: -1 | 1) => {
+        if (!allowed("manageCategories")) return;
+        // Swaps with the nearest sibling in that direction
+        const list = [...state.categories];
+        const i = list.findIndex((c) => c.id === id);
+        if (i < 0) return;
+        let j = i + direction;
+        while (j >= 0 && j < list.length && list[j].parentId !== list[i].parentId) j += direction;
+        if (j < 0 || j >= list.length) return;
+        [list[i], list[j]] = [list[j], list[i]];
+        saveCategories(list);
+      },
+      deleteCategory: (id: string, reassignTo: DanhMuc | null) => {
+        if (!can("manageCategories")) return permissionError("manageCategories");
+        const category = state.categories.find((c) => c.id === id);
+        if (!category) return t("categories.notFound");
+        const affected = productsRef.current.filter((p) => p.danhMuc === category.ten);
+        if (affected.length && !reassignTo) return t("categories.chooseReassign", { count: affected.length });
+        if (reassignTo === category.ten) return t("categories.reassignSelf");
+        // Sub-categories move up one level instead of disappearing with their parent
+        const categories = state.categories
+          .filter((c) => c.id !== id)
+          .map((c) => (c.parentId === id ? { ...c, parentId: category.parentId } : c));
+        saveCategories(
+          categories,
+          affected.length ? productsRef.current.map((p) => (p.danhMuc === category.ten ? { ...p, danhMuc: reassignTo! } : p)) : undefined,
+          t("categories.deletedLabel", { name: category.ten, to: reassignTo! }),
+        );
+        return null;
+      },
+      setCategoryAttributes: (id: string, dacTinh: AttributeDef[]) => {
+        if (!can("manageCategories")) return permissionError("manageCategories");
+        const category = state.categories.find((c) => c.id === id);
+        if (!category) return t("categories.notFound");
+        const problem = attributesProblem(dacTinh, attributesFor(state.categories, category.ten).filter((d) => !category.dacTinh.includes(d)));
+        if (problem) return problem;
+        saveCategories(state.categories.map((c) => (c.id === id ? { ...c, dacTinh } : c)));
+        return null;
+      },
+      status: state.status,
+      error: state.error,
+      saving: pending > 0,
+      reload: () => void reload(),
+      dismissError: () => dispatch({ type: "dismissError" }),
+      add: (input: ProductInput) => {
+        if (!allowed("edit")) return;
+        const { soLuong } = withVariantTotals({ id: 0, ...input, lichSuKho: [], lichSuGia: [], idCu: [], phienBan: 1 });
+        const p: Omit<Product, "id" | "phienBan"> = { ...input, soLuong, lichSuKho: [openingMovement(soLuong)], lichSuGia: [priceEntry(input.gia)], idCu: [] };
+        const temp: Product = { id: nextTempId(), ...p, phienBan: 1 };
+        void mutate(
+          () => dispatch({ type: "add", payload: temp }),
+          () => repository.create(p),
+          (saved) => {
+            dispatch({ type: "replaceId", payload: { id: temp.id, product: saved } });
+            record(t("history.added", { name: saved.ten }), [{ id: saved.id, before: null, after: saved, beforeIndex: -1, afterIndex: 0 }]);
+          },
+          () => dispatch({ type: "delete", payload: { id: temp.id } }),
+        );
+      },
+      update: async (edited: Product) => {
+        if (!allowed("edit")) return null;
+        const p = reconcilePrices(reconcileLedger(withVariantTotals(edited), t("ledger.edit")));
+        const index = productsRef.current.findIndex((x) => x.id === p.id);
+        const previous = productsRef.current[index];
+        if (previous && sameProduct(previous, p)) return null;
+        const error = await mutate(
+          () => dispatch({ type: "update", payload: p }),
+          () => repository.update(p),
+          (saved) => {
+            dispatch({ type: "update", payload: saved });
+            if (previous && !sameProduct(previous, saved)) {
+              record(t("history.edited", { name: saved.ten }), [{ id: saved.id, before: previous, after: saved, beforeIndex: index, afterIndex: index }]);
+            }
+          },
+          // A newer version (from another tab or a later edit) is not overwritten
+          () => previous && productsRef.current.find((x) => x.id === p.id) === p && dispatch({ type: "update", payload: previous }),
+        );
+        return error instanceof RepositoryError && error.kind === "conflict" ? (error.current ?? null) : null;
+      },
+      remove: (id: number) => {
+        if (!allowed("delete")) return;
+        const index = productsRef.current.findIndex((x) => x.id === id);
+        const product = productsRef.current[index];
+        void mutate(
+          () => dispatch({ type: "delete", payload: { id } }),
+          () => repository.delete(id),
+          () => product && record(t("history.deleted", { name: product.ten }), [{ id, before: product, after: null, beforeIndex: index, afterIndex: -1 }]),
+          () => product && dispatch({ type: "restore", payload: { product, index } }),
+        );
+      },
+      importMany: (items: ImportItem[], mode: ImportMode) => {
+        if (!allowed("import")) return;
+        const previous = productsRef.current;
+        const next = rebaseRevisions(applyImport(previous, items, mode), previous);
+        void mutate(
+          () => dispatch({ type: "hydrate", payload: next }),
+          () => repository.replaceAll(next),
+          (saved) => {
+            dispatch({ type: "hydrate", payload: saved });
+            record(t("history.imported", { count: items.length }), diffProducts(previous, saved), "import");
+          },
+          () => dispatch({ type: "hydrate", payload: previous }),
+        );
+      },
+      // Audited but not undoable: undoing would only bring back prices that are due again
+      applyDuePrices: () => {
+        if (!can("edit")) return;
+        const previous = productsRef.current;
+        const today = localDay();
+        const next = previous.map((p) => settlePrices(p, today) ?? p);
+        const count = next.filter((p, i) => p !== previous[i]).length;
+        if (!count) return;
+        void mutate(
+          () => dispatch({ type: "hydrate", payload: next }),
+          () => repository.replaceAll(next),
+          (saved) => {
+            dispatch({ type: "hydrate", payload: saved });
+            audit(t("history.pricesApplied", { count }), diffProducts(previous, saved));
+          },
+          () => dispatch({ type: "hydrate", payload: previous }),
+        );
+      },
+      orders: state.orders,
+      placeOrder: async (cart: CartLine[], ghiChu: string) => {
+        if (!can("edit")) return { error: permissionError("edit") };
+        if (!cart.length) return { error: t("orders.empty") };
+        const previous = productsRef.current;
+        try {
+          const dongHang = orderLines(previous, cart);
+          const order: Order = {
+            id: ordersRef.current.reduce((max, o) => Math.max(max, o.id), 0) + 1,
+            thoiGian: new Date().toISOString(),
+            dongHang,
+            tongTien: orderTotal(dongHang),
+            ghiChu: ghiChu.trim(),
+            nguoiBan: user?.ten ?? null,
+            trangThai: "completed",
+          };
+          const next = applyOrderStock(previous, order, "sell");
+          return { order: await saveOrder(order, previous, next, t("history.orderPlaced", { id: order.id })) };
+        } catch (e) {
+          return { error: errorMessage(e) };
+        }
+      },
+      cancelOrder: async (id: number) => {
+        if (!can("edit")) return permissionError("edit");
+        const order = ordersRef.current.find((o) => o.id === id);
+        if (!order) return t("orders.notFound", { id });
+        if (order.trangThai === "cancelled") return t("orders.alreadyCancelled");
+        const previous = productsRef.current;
+        try {
+          const cancelled: Order = { ...order, trangThai: "cancelled", huyLuc: new Date().toISOString() };
+          await saveOrder(cancelled, previous, applyOrderStock(previous, order, "restock"), t("history.orderCancelled", { id }));
+          return null;
+        } catch (e) {
+          return errorMessage(e);
+        }
+      },
+      // `soLuong` is a magnitude; the movement type decides the sign. Returns an
+      // error message instead of recording a sale or adjustment that would go below zero.
+      recordMovement: (id: number, loai: MovementType, soLuong: number, lyDo: string, bienTheId?: string) => {
+        if (!can("edit")) return permissionError("edit");
+        const index = productsRef.current.findIndex((x) => x.id === id);
+        const previous = productsRef.current[index];
+        if (!previous) return t("product.notFound", { id });
+        const variant = previous.bienThe.find((v) => v.id === bienTheId);
+        if (previous.bienThe.length && !variant) return t("stock.chooseVariant");
+        const delta = loai === "sale" ? -Math.abs(soLuong) : loai === "adjustment" ? soLuong : Math.abs(soLuong);
+        if (!Number.isInteger(delta) || delta === 0) return t("stock.nonZero");
+        if (previous.soLuong + delta < 0) return t("stock.notEnough", { left: previous.soLuong });
+        if (variant && variant.soLuong + delta < 0) return t("stock.notEnoughVariant", { variant: variantLabel(variant), left: variant.soLuong });
+        const next: Product = {
+          ...previous,
+          soLuong: previous.soLuong + delta,
+          bienThe: previous.bienThe.map((v) => (v === variant ? { ...v, soLuong: v.soLuong + delta } : v)),
+          lichSuKho: [...previous.lichSuKho, { ...movement(loai, delta, lyDo.trim()), ...(variant && { bienTheId: variant.id }) }],
+        };
+        const label = t(MOVEMENT_TYPES.find((x) => x.value === loai)!.label) + (variant ? ` (${variantLabel(variant)})` : "");
+        void mutate(
+          () => dispatch({ type: "update", payload: next }),
+          () => repository.update(next),
+          (saved) => {
+            dispatch({ type: "update", payload: saved });
+            record(`${label} ${delta > 0 ? "+" : ""}${delta} “${saved.ten}”`, [{ id, before: previous, after: saved, beforeIndex: index, afterIndex: index }]);
+          },
+          () => dispatch({ type: "update", payload: previous }),
+        );
+        return null;
+      },
+      bulk: (ids: number[], op: BulkOp) => {
+        if (!allowed(op.kind === "delete" ? "delete" : "edit")) return;
+        const previous = productsRef.current;
+        let next: Product[];
+        try {
+          next = applyBulk(previous, ids, op);
+        } catch (e) {
+          dispatch({ type: "fail", payload: t("bulk.failed", { error: errorMessage(e) }) });
+          return;
+        }
+        // The whole batch is saved in one write, so it either lands completely or is rolled back
+        void mutate(
+          () => dispatch({ type: "bulk", payload: { ids, op } }),
+          () => repository.replaceAll(next),
+          (saved) => {
+            dispatch({ type: "hydrate", payload: saved });
+            record(bulkLabel(ids.length, op), diffProducts(previous, saved));
+          },
+          () => dispatch({ type: "hydrate", payload: previous }),
+        );
+      },
+      merge: (ids: number[], keepId: number, picks: MergePicks) => {
+        if (!can("edit") || !can("delete")) return permissionError(can("edit") ? "delete" : "edit");
+        const previous = productsRef.current;
+        let next: Product[];
+        try {
+          next = mergeProducts(previous, ids, keepId, picks);
+        } catch (e) {
+          return errorMessage(e);
+        }
+        const label = t("history.merged", { count: ids.length - 1, name: next.find((p) => p.id === keepId)!.ten });
+        void mutate(
+          () => dispatch({ type: "hydrate", payload: next }),
+          () => repository.replaceAll(next),
+          (saved) => {
+            dispatch({ type: "hydrate", payload: saved });
+            record(label, diffProducts(previous, saved));
+          },
+          () => dispatch({ type: "hydrate", payload: previous }),
+        );
+        return null;
+      },
+      quarantined,
+      clearQuarantine: () => {
+        repository.recovery?.clear();
+        setQuarantined([]);
+      },
+      auditLog,
+      restoreVersion: (entryId: string) => {
+        if (!can("edit")) return permissionError("edit");
+        const entry = auditLog.find((e) => e.id === entryId);
+        if (!entry) return t("audit.versionNotFound");
+        const previous = productsRef.current;
+        const current = previous.find((p) => p.id === entry.productId);
+        // The ledger and price history are append-only: the current ones are kept and the
+        // differences recorded
+        const restored = reconcilePrices(
+          reconcileLedger(
+            withVariantTotals({
+              ...entry.snapshot,
+              lichSuKho: current?.lichSuKho ?? entry.snapshot.lichSuKho,
+              lichSuGia: current?.lichSuGia ?? entry.snapshot.lichSuGia,
+            }),
+            t("ledger.restore"),
+          ),
+        );
+        const next = rebaseRevisions(current ? previous.map((p) => (p.id === restored.id ? restored : p)) : [restored, ...previous], previous);
+        const label = t("audit.restoredLabel", { name: restored.ten, at: formatDateTime(entry.at) });
+        void mutate(
+          () => dispatch({ type: "hydrate", payload: next }),
+          () => repository.replaceAll(next),
+          (saved) => {
+            dispatch({ type: "hydrate", payload: saved });
+            record(label, diffProducts(previous, saved));
+          },
+          () => dispatch({ type: "hydrate", payload: previous }),
+        );
+        return null;
+      },
+      undo: () => travel("undo"),
+      redo: () => travel("redo"),
+      undoLabel: history.past.at(-1)?.label ?? null,
+      redoLabel: history.future.at(-1)?.label ?? null,
+      lastAction,
+      sync,
+      retrySync: () => repository.sync?.flush(),
+    };
+  }, [state.products, state.categories, state.orders, state.status, state.error, pending, quarantined, reload, refresh, repository, history, lastAction, record, audit, auditLog, can, user, sync]);
+
+  return <ProductContext.Provider value={value}>{children}</ProductContext.Provider>;
+};
+
+const useProducts = () => {
+  const ctx = useContext(ProductContext);
+  if (!ctx) throw new Error("useProducts must be used within ProductProvider");
+  return ctx;
+};
+
+const SETTLE_INTERVAL_MS = 60_000;
+
+// Scheduled prices and sale ends are written back from an editor's session: once the
+// catalogue has loaded and then every minute, so a session left open past midnight
+// catches up too. Everyone else sees them through effectivePrice in the meantime.
+const usePriceSchedule = () => {
+  const { status, applyDuePrices } = useProducts();
+  const applyRef = useRef(applyDuePrices);
+  useEffect(() => {
+    applyRef.current = applyDuePrices;
+  }, [applyDuePrices]);
+
+  useEffect(() => {
+    if (status !== "ready") return;
+    applyRef.current();
+    const timer = window.setInterval(() => applyRef.current(), SETTLE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [status]);
+};
+
+/****************
+ * UI Utilities *
+ ****************/
+
+
+const subscribeOnline = (onChange: () => void) => {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+};
+
+const useOnline = () => useSyncExternalStore(subscribeOnline, () => navigator.onLine);
+
+// A VND amount or range, followed by the second currency (when one is set) in smaller type
+const Money: React.FC<{ value: number | [number, number] }> = ({ value }) => {
+  const { currency } = useI18n();
+  const [lo, hi] = typeof value === "number" ? [value, value] : value;
+  const range = (f: (n: number) => string | null) => (lo === hi ? f(lo) : `${f(lo)} – ${f(hi)}`);
+  return (
+    <>
+      {range(formatMoney)}
+      {currency && <span className="ml-1 text-xs font-normal text-zinc-500">≈ {range((n) => formatSecondMoney(n, currency))}</span>}
+    </>
+  );
+};
+
+// Today's price; during a sale the list price follows struck through, with the discount
+const PriceTag: React.FC<{ p: Product }> = ({ p }) => {
+  const { t } = useI18n();
+  const sale = activeSale(p);
+  const list = listPrice(p);
+  return (
+    <>
+      <Money value={priceRange(p, effectivePrice(p))} />
+      {sale && (
+        <>
+          <s className="ml-2 text-sm font-normal text-zinc-500">{formatPriceRange(p, list)}</s>
+          <span className="ml-2 text-xs font-medium px-1.5 py-0.5 rounded-full bg-rose-100 text-rose-700 dark:bg-rose-900/50 dark:text-rose-200">
+            {t("prices.saleBadge", { percent: Math.round((1 - sale.gia / list) * 100) })}
+          </span>
+        </>
+      )}
+    </>
+  );
+};
+
+const Card: React.FC<{ children: React.ReactNode } & React.HTMLAttributes<HTMLDivElement>> = ({ children, className = "", ...rest }) => (
+  <div className={`rounded-2xl shadow p-4 bg-white dark:bg-zinc-900 border border-zinc-200/60 dark:border-zinc-800 ${className}`} {...rest}>
+    {children}
+  </div>
+);
+
+// A product that is still being created has no page yet: its temporary id goes away
+// once the repository assigns the real one
+const ProductLink: React.FC<{ id: number; className?: string; target?: string; children: React.ReactNode }> = ({ id, className, target, children }) =>
+  isTempId(id) ? <span className={className}>{children}</span> : <Link to={`/products/${id}`} className={className} target={target}>{children}</Link>;
+
+const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ className = "", ...props }) => (
+  <button
+    className={`px-3 py-2 rounded-xl shadow text-sm font-medium border border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 ${className}`}
+    {...props}
+  />
+);
+
+const Input: React.FC<React.InputHTMLAttributes<HTMLInputElement>> = ({ className = "", ...props }) => (
+  <input
+    className={`w-full px-3 py-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 outline-none focus:ring-2 focus:ring-indigo-500 ${className}`}
+    {...props}
+  />
+);
+
+const Select: React.FC<React.SelectHTMLAttributes<HTMLSelectElement>> = ({ className = "", children, ...props }) => (
+  <select
+    className={`w-full px-3 py-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 outline-none focus:ring-2 focus:ring-indigo-500 ${className}`}
+    {...props}
+  >
+    {children}
+  </select>
+);
+
+const Textarea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement>> = ({ className = "", ...props }) => (
+  <textarea
+    className={`w-full px-3 py-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 outline-none focus:ring-2 focus:ring-indigo-500 ${className}`}
+    {...props}
+  />
+);
+
+// <option>s for every category, indented to show nesting; values are category names
+const CategoryOptions: React.FC = () => {
+  const { categories } = useProducts();
+  return (
+    <>
+      {categoryTree(categories).map(({ category, depth }) => (
+        <option key={category.id} value={category.ten}>{"\u00a0\u00a0".repeat(depth) + category.ten}</option>
+      ))}
+    </>
+  );
+};
+
+/**********
+ * Charts *
+ **********/
+
+type ChartPoint = { x: number; y: number; label?: string };
+
+// Minimal SVG line chart. `step` draws a staircase, which suits running balances;
+// `guide` adds a dashed horizontal reference line (e.g. a threshold).
+const LineChart: React.FC<{
+  points: ChartPoint[];
+  step?: boolean;
+  height?: number;
+  formatX?: (x: number) => string;
+  formatY?: (y: number) => string;
+  guide?: { y: number; label: string };
+}> = ({ points, step = false, height = 180, formatX = String, formatY = String, guide }) => {
+  const { t } = useI18n();
+  if (!points.length) return <div className="text-sm text-zinc-500">{t("common.noData")}</div>;
+  const W = 600;
+  const pad = { l: 56, r: 12, t: 12, b: 24 };
+  const xs = points.map((p) => p.x);
+  const ys = [...points.map((p) => p.y), ...(guide ? [guide.y] : [])];
+  const [x0, x1] = [Math.min(...xs), Math.max(...xs)];
+  const [y0, y1] = [Math.min(0, ...ys), Math.max(...ys)];
+  const sx = (x: number) => pad.l + (x1 === x0 ? (W - pad.l - pad.r) / 2 : ((x - x0) / (x1 - x0)) * (W - pad.l - pad.r));
+  const sy = (y: number) => height - pad.b - (y1 === y0 ? 0 : ((y - y0) / (y1 - y0)) * (height - pad.t - pad.b));
+  const d = points
+    .map((p, i) => {
+      if (i === 0) return `M${sx(p.x)},${sy(p.y)}`;
+      return step ? `H${sx(p.x)}V${sy(p.y)}` : `L${sx(p.x)},${sy(p.y)}`;
+    })
+    .join("");
+
+  return (
+    <svg viewBox={`0 0 ${W} ${height}`} className="w-full h-auto text-indigo-600" role="img">
+      <line x1={pad.l} x2={W - pad.r} y1={sy(y0)} y2={sy(y0)} className="stroke-zinc-300" />
+      <text x={pad.l - 6} y={sy(y1) + 4} textAnchor="end" className="fill-zinc-500 text-[10px]">{formatY(y1)}</text>
+      <text x={pad.l - 6} y={sy(y0) + 4} textAnchor="end" className="fill-zinc-500 text-[10px]">{formatY(y0)}</text>
+      <text x={pad.l} y={height - 6} className="fill-zinc-500 text-[10px]">{formatX(x0)}</text>
+      <text x={W - pad.r} y={height - 6} textAnchor="end" className="fill-zinc-500 text-[10px]">{formatX(x1)}</text>
+      {guide && (
+        <g className="text-amber-500">
+          <line x1={pad.l} x2={W - pad.r} y1={sy(guide.y)} y2={sy(guide.y)} stroke="currentColor" strokeDasharray="4 4" />
+          <text x={W - pad.r} y={sy(guide.y) - 4} textAnchor="end" fill="currentColor" className="text-[10px]">{guide.label}</text>
+        </g>
+      )}
+      <path d={d} fill="none" stroke="currentColor" strokeWidth={2} />
+      {points.map((p, i) => (
+        <circle key={i} cx={sx(p.x)} cy={sy(p.y)} r={3} fill="currentColor">
+          <title>{p.label ?? `${formatX(p.x)}: ${formatY(p.y)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+// Horizontal bars, one per item, scaled to the largest value
+const BarChart: React.FC<{
+  items: { label: string; value: number; hint?: string }[];
+  format?: (v: number) => string;
+}> = ({ items, format = String }) => {
+  const { t } = useI18n();
+  if (!items.length) return <div className="text-sm text-zinc-500">{t("common.noData")}</div>;
+  const max = Math.max(...items.map((i) => i.value), 1);
+  return (
+    <div className="space-y-1.5">
+      {items.map((item) => (
+        <div key={item.label} className="grid grid-cols-[8rem_1fr_auto] items-center gap-2 text-sm" title={item.hint}>
+          <div className="truncate text-zinc-600 dark:text-zinc-300">{item.label}</div>
+          <div className="h-4 rounded bg-zinc-100 dark:bg-zinc-800">
+            <div className="h-4 rounded bg-indigo-500" style={{ width: `${(item.value / max) * 100}%` }} />
+          </div>
+          <div className="tabular-nums text-right">{format(item.value)}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/************
+ * Barcodes *
+ ************/
+
+// Hand-rolled like the charts: EAN-13 for valid 13-digit codes, Code 128 (set B) for
+// other SKUs, and QR codes for links. Each encoder returns modules; the components draw
+// them as SVG in module units so they scale to any size, on screen or on a label sheet.
+
+// Left-hand digits in odd (L) parity; R is their complement and G is R reversed
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_R = EAN_L.map((l) => [...l].map((b) => (b === "1" ? "0" : "1")).join(""));
+const EAN_G = EAN_R.map((r) => [...r].reverse().join(""));
+// The first digit isn't drawn as bars; it picks the parity of the next six
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+// 95 modules as "1"/"0"
+const ean13Modules = (code: string) => {
+  const digits = [...code].map(Number);
+  const left = digits.slice(1, 7).map((d, i) => (EAN_PARITY[digits[0]][i] === "L" ? EAN_L : EAN_G)[d]).join("");
+  const right = digits.slice(7).map((d) => EAN_R[d]).join("");
+  return `101${left}01010${right}101`;
+};
+
+// Bar/space widths of Code 128 symbols 0-105, then the stop symbol
+const CODE128 = (
+  "212222 222122 222221 121223 121322 131222 122213 122312 132212 221213 221312 231212 112232 122132 122231 113222 " +
+  "123122 123221 223211 221132 221231 213212 223112 312131 311222 321122 321221 312212 322112 322211 212123 212321 " +
+  "232121 111323 131123 131321 112313 132113 132311 211313 231113 231311 112133 112331 132131 113123 113321 133121 " +
+  "313121 211331 231131 213113 213311 213131 311123 311321 331121 312113 312311 332111 314111 221411 431111 111224 " +
+  "111422 121124 121421 141122 141221 112214 112412 122114 122411 142112 142211 241211 221114 413111 241112 134111 " +
+  "111242 121142 121241 114212 124112 124211 411212 421112 421211 212141 214121 412121 111143 111341 131141 114113 " +
+  "114311 411113 411311 113141 114131 311141 411131 211412 211214 211232 2331112"
+).split(" ");
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+// Printable ASCII only (see codeProblem); set B covers all of it
+const code128Modules = (code: string) => {
+  const values = [...code].map((c) => c.charCodeAt(0) - 32);
+  const check = values.reduce((sum, v, i) => sum + v * (i + 1), CODE128_START_B) % 103;
+  return [CODE128_START_B, ...values, check, CODE128_STOP]
+    .map((v) => [...CODE128[v]].map((w, i) => (i % 2 ? "0" : "1").repeat(Number(w))).join(""))
+    .join("");
+};
+
+// QR codes in byte mode at error correction level M, versions 1-10 (up to 213 bytes)
+// Per version: total codewords, EC codewords per block, number of blocks
+const QR_BLOCKS_M: [total: number, ec: number, blocks: number][] = [
+  [26, 10, 1], [44, 16, 1], [70, 26, 1], [100, 18, 2], [134, 24, 2],
+  [172, 16, 4], [196, 18, 4], [242, 22, 4], [292, 22, 5], [346, 26, 5],
+];
+const QR_ALIGNMENT: number[][] = [
+  [], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50],
+];
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMul = (a: number, b: number) => {
+  let r = 0;
+  for (let i = 7; i >= 0; i--) {
+    r = (r << 1) ^ ((r >>> 7) * 0x11d);
+    r ^= ((b >>> i) & 1) * a;
+  }
+  return r;
+};
+
+const reedSolomon = (data: number[], degree: number) => {
+  const divisor = Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  for (let i = 0, root = 1; i < degree; i++, root = gfMul(root, 2)) {
+    for (let j = 0; j < degree; j++) divisor[j] = gfMul(divisor[j], root) ^ (divisor[j + 1] ?? 0);
+  }
+  const rest = Array<number>(degree).fill(0);
+  for (const b of data) {
+    const factor = b ^ (rest.shift() ?? 0);
+    rest.push(0);
+    divisor.forEach((c, i) => (rest[i] ^= gfMul(c, factor)));
+  }
+  return rest;
+};
+
+// Data codewords for `bytes` in the given version: mode, length, data, terminator, padding
+const qrCodewords = (bytes: Uint8Array, version: number, capacity: number) => {
+  const bits: number[] = [];
+  const put = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  put(0b0100, 4);
+  put(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((b) => put(b, 8));
+  put(0, Math.min(4, capacity * 8 - bits.length));
+  put(0, (8 - (bits.length % 8)) % 8);
+  const words: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) words.push(bits.slice(i, i + 8).reduce((n, b) => (n << 1) | b, 0));
+  for (let pad = 0xec; words.length < capacity; pad ^= 0xec ^ 0x11) words.push(pad);
+  return words;
+};
+
+const QR_MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// The standard's penalty score; the mask with the lowest one is used
+const qrPenalty = (m: boolean[][]) => {
+  const size = m.length;
+  let score = 0;
+  const finderLike = /10111010000|00001011101/g;
+  for (const lines of [m, m.map((_, x) => m.map((row) => row[x]))]) {
+    for (const line of lines) {
+      for (let i = 0, run = 1; i < size; i++, run++) {
+        if (i + 1 < size && line[i + 1] === line[i]) continue;
+        if (run >= 5) score += run - 2;
+        run = 0;
+      }
+      score += (line.map(Number).join("").match(finderLike)?.length ?? 0) * 40;
+    }
+  }
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const c = m[y][x];
+      if (m[y][x + 1] === c && m[y + 1][x] === c && m[y + 1][x + 1] === c) score += 3;
+    }
+  }
+  const dark = m.flat().filter(Boolean).length;
+  return score + Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+};
+
+// Square matrix of dark modules (true), or null when the text is too long
+const qrMatrix = (text: string): boolean[][] | null => {
+  const bytes = new TextEncoder().encode(text);
+  const version = QR_BLOCKS_M.findIndex(([total, ec, blocks], i) => 4 + (i < 9 ? 8 : 16) + bytes.length * 8 <= (total - ec * blocks) * 8) + 1;
+  if (version < 1) return null;
+
+  const [total, ecLength, blockCount] = QR_BLOCKS_M[version - 1];
+  const data = qrCodewords(bytes, version, total - ecLength * blockCount);
+  // Blocks differ in length by at most one codeword; the longer ones come last
+  const shortLength = Math.floor(total / blockCount) - ecLength;
+  const longBlocks = total % blockCount;
+  const blocks: number[][] = [];
+  for (let b = 0, at = 0; b < blockCount; b++) {
+    const length = shortLength + (b >= blockCount - longBlocks ? 1 : 0);
+    blocks.push(data.slice(at, at + length));
+    at += length;
+  }
+  const ecBlocks = blocks.map((block) => reedSolomon(block, ecLength));
+  const codewords: number[] = [];
+  for (let i = 0; i <= shortLength; i++) blocks.forEach((block) => i < block.length && codewords.push(block[i]));
+  for (let i = 0; i < ecLength; i++) ecBlocks.forEach((block) => codewords.push(block[i]));
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => Array<boolean>(size).fill(false));
+  const fn = (x: number, y: number, dark: boolean, target = modules) => {
+    target[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    fn(6, i, i % 2 === 0);
+    fn(i, 6, i % 2 === 0);
+  }
+  // Finder patterns with their light separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx, y = cy + dy;
+        const ring = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) fn(x, y, ring !== 2 && ring !== 4);
+      }
+    }
+  }
+  const align = QR_ALIGNMENT[version - 1];
+  align.forEach((cy, i) =>
+    align.forEach((cx, j) => {
+      const last = align.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return; // under a finder
+      for (let dy = -2; dy <= 2; dy++) for (let dx = -2; dx <= 2; dx++) fn(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }),
+  );
+
+  // Format bits (level M is 00) carry the mask; they are drawn once to reserve their
+  // modules and again once the mask is chosen
+  const drawFormat = (mask: number, target = modules) => {
+    let rem = mask;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((mask << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+    for (let i = 0; i <= 5; i++) fn(8, i, bit(i), target);
+    fn(8, 7, bit(6), target);
+    fn(8, 8, bit(7), target);
+    fn(7, 8, bit(8), target);
+    for (let i = 9; i < 15; i++) fn(14 - i, 8, bit(i), target);
+    for (let i = 0; i < 8; i++) fn(size - 1 - i, 8, bit(i), target);
+    for (let i = 8; i < 15; i++) fn(8, size - 15 + i, bit(i), target);
+    fn(8, size - 8, true, target); // the dark module
+  };
+  drawFormat(0);
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      fn(size - 11 + (i % 3), Math.floor(i / 3), dark);
+      fn(Math.floor(i / 3), size - 11 + (i % 3), dark);
+    }
+  }
+
+  // Codewords zigzag up and down two-module columns from the bottom right, skipping
+  // the vertical timing pattern
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let v = 0; v < size; v++) {
+      const y = upward ? size - 1 - v : v;
+      for (const x of [right, right - 1]) {
+        if (reserved[y][x] || bit >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+        bit++;
+      }
+    }
+  }
+
+  const candidates = QR_MASKS.map((test, mask) => {
+    const m = modules.map((row, y) => row.map((dark, x) => (reserved[y][x] ? dark : dark !== test(x, y))));
+    drawFormat(mask, m);
+    return { m, penalty: qrPenalty(m) };
+  });
+  return candidates.reduce((a, b) => (b.penalty < a.penalty ? b : a)).m;
+};
+
+// Shared by both components: `x`/`y`/`width`/`height` place it inside a bigger SVG
+// such as a label sheet; without them it is a standalone, fluid-width image.
+type SymbolProps = { value: string; className?: string; x?: number; y?: number; width?: number; height?: number };
+
+const BARCODE_HEIGHT = 50; // in modules
+const BARCODE_QUIET = 10;
+
+// EAN-13 when the code is one, Code 128 otherwise, with the code printed underneath
+const Barcode: React.FC<SymbolProps> = ({ value, className, ...place }) => {
+  const modules = isEan13(value) ? ean13Modules(value) : code128Modules(value);
+  const width = modules.length + BARCODE_QUIET * 2;
+  const bars: string[] = [];
+  for (let i = 0; i < modules.length; i++) {
+    if (modules[i] !== "1" || modules[i - 1] === "1") continue;
+    let w = 1;
+    while (modules[i + w] === "1") w++;
+    bars.push(`M${BARCODE_QUIET + i} 0h${w}v${BARCODE_HEIGHT}h${-w}z`);
+  }
+  return (
+    <svg viewBox={`0 0 ${width} ${BARCODE_HEIGHT + 12}`} className={className} {...place} role="img" aria-label={value}>
+      <rect width={width} height={BARCODE_HEIGHT + 12} fill="#fff" />
+      <path d={bars.join("")} fill="#000" />
+      <text x={width / 2} y={BARCODE_HEIGHT + 10} textAnchor="middle" fontSize={10} fontFamily="monospace" fill="#000">
+        {value}
+      </text>
+    </svg>
+  );
+};
+
+const QrCode: React.FC<SymbolProps> = ({ value, className, ...place }) => {
+  const matrix = useMemo(() => qrMatrix(value), [value]);
+  if (!matrix) return null;
+  const size = matrix.length + 8; // 4-module quiet zone
+  const d = matrix.flatMap((row, y) => row.flatMap((dark, x) => (dark ? [`M${x + 4} ${y + 4}h1v1h-1z`] : []))).join("");
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className={className} {...place} shapeRendering="crispEdges" role="img" aria-label={value}>
+      <rect width={size} height={size} fill="#fff" />
+      <path d={d} fill="#000" />
+    </svg>
+  );
+};
+
+// Where a product's QR code points
+const productUrl = (id: number) => `${window.location.origin}/products/${id}`;
+
+/**********
+ * Images *
+ **********/
+
+// Object URL for a stored image, revoked when the component unmounts or the id changes
+const useImageUrl = (id: string | undefined, size: "full" | "thumb") => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!id) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getImage(id)
+      .then((img) => {
+        if (cancelled || !img) return;
+        objectUrl = URL.createObjectURL(img[size]);
+        setUrl(objectUrl);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [id, size]);
+  return url;
+};
+
+const ProductImg: React.FC<{ image: ProductImage; size: "full" | "thumb"; className?: string }> = ({ image, size, className = "" }) => {
+  const url = useImageUrl(image.id, size);
+  if (!url) return <div className={`flex items-center justify-center bg-zinc-100 dark:bg-zinc-800 text-zinc-400 ${className}`} aria-label={image.ten}>📷</div>;
+  return <img src={url} alt={image.ten} className={className} />;
+};
+
+// Upload (file picker or drag and drop), reorder by dragging or with the arrows,
+// choose the cover (always the first image) and remove
+const ImageField: React.FC<{ value: ProductImage[]; onChange: React.Dispatch<React.SetStateAction<ProductImage[]>> }> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [dropping, setDropping] = useState(false);
+  const dragFrom = useRef<number | null>(null);
+
+  const addFiles = async (list: FileList | null) => {
+    const files = [...(list ?? [])].filter((f) => f.type.startsWith("image/"));
+    const room = MAX_IMAGES - value.length;
+    setError(files.length > room ? t("images.tooMany", { max: MAX_IMAGES, count: files.length - Math.max(room, 0) }) : "");
+    if (!files.length || room <= 0) return;
+    setBusy(true);
+    try {
+      const added = await storeImageFiles(files.slice(0, room));
+      onChange((images) => [...images, ...added]);
+    } catch (e) {
+      setError(errorMessage(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const move = (from: number, to: number) =>
+    onChange((images) => {
+      if (to < 0 || to >= images.length || from === to) return images;
+      const next = [...images];
+      const [img] = next.splice(from, 1);
+      next.splice(to, 0, img);
+      return next;
+    });
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDropping(false);
+    if (e.dataTransfer.files.length) void addFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div>
+      <label
+        className={`block rounded-xl border-2 border-dashed p-4 text-center text-sm cursor-pointer ${dropping ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-950/30" : "border-zinc-300 dark:border-zinc-700"}`}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          setDropping(true);
+        }}
+        onDragLeave={() => setDropping(false)}
+        onDrop={onDrop}
+      >
+        <input type="file" accept="image/*" multiple className="hidden" onChange={(e) => { void addFiles(e.target.files); e.target.value = ""; }} />
+        {busy ? t("images.processing") : <>{t("images.dropHint")} <span className="text-indigo-600 underline">{t("images.pickFiles")}</span></>}
+        <div className="text-xs text-zinc-500 mt-1">{t("images.countHint", { count: value.length, max: MAX_IMAGES })}</div>
+      </label>
+      {error && <div className="text-xs text-red-600 mt-1">{error}</div>}
+      {value.length > 0 && (
+        <div className="mt-3 grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {value.map((img, i) => (
+            <div
+              key={img.id}
+              draggable
+              onDragStart={() => (dragFrom.current = i)}
+              onDragEnd={() => (dragFrom.current = null)}
+              onDragOver={(e) => dragFrom.current !== null && e.preventDefault()}
+              onDrop={(e) => {
+                if (dragFrom.current === null) return;
+                e.preventDefault();
+                e.stopPropagation();
+                move(dragFrom.current, i);
+                dragFrom.current = null;
+              }}
+              className={`relative rounded-xl overflow-hidden border ${i === 0 ? "border-indigo-500" : "border-zinc-200 dark:border-zinc-700"}`}
+            >
+              <ProductImg image={img} size="thumb" className="w-full aspect-square object-cover cursor-move" />
+              {i === 0 && <span className="absolute top-1 left-1 text-[10px] px-1.5 py-0.5 rounded bg-indigo-600 text-white">{t("images.cover")}</span>}
+              <div className="flex items-center justify-between gap-1 px-1 py-0.5 text-xs bg-white dark:bg-zinc-900">
+                <button type="button" className="!bg-transparent !p-0 disabled:opacity-30" disabled={i === 0} aria-label={t("images.moveLeft")} onClick={() => move(i, i - 1)}>←</button>
+                {i > 0 && <button type="button" className="!bg-transparent !p-0 text-indigo-600" onClick={() => move(i, 0)}>{t("images.makeCover")}</button>}
+                <button type="button" className="!bg-transparent !p-0 disabled:opacity-30" disabled={i === value.length - 1} aria-label={t("images.moveRight")} onClick={() => move(i, i + 1)}>→</button>
+                <button type="button" className="!bg-transparent !p-0 text-red-600" aria-label={t("images.remove", { name: img.ten })} onClick={() => onChange((images) => images.filter((x) => x.id !== img.id))}>✕</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Full-screen viewer; Esc closes, arrow keys step through the images
+const Lightbox: React.FC<{ images: ProductImage[]; index: number; onIndex: (i: number) => void; onClose: () => void }> = ({
+  images,
+  index,
+  onIndex,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const count = images.length;
+  const prev = (index - 1 + count) % count;
+  const next = (index + 1) % count;
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft") onIndex(prev);
+      else if (e.key === "ArrowRight") onIndex(next);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [prev, next, onIndex, onClose]);
+
+  const image = images[index];
+  return (
+    <div role="dialog" aria-modal="true" aria-label={image.ten} className="fixed inset-0 z-50 bg-black/90 flex flex-col items-center justify-center p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()}>
+        <ProductImg image={image} size="full" className="max-h-[80vh] max-w-[90vw] object-contain" />
+      </div>
+      <div className="mt-3 flex items-center gap-4 text-white text-sm" onClick={(e) => e.stopPropagation()}>
+        {count > 1 && <button type="button" className="!bg-transparent !p-0" onClick={() => onIndex(prev)}>‹ {t("common.previous")}</button>}
+        <span>{index + 1} / {count} — {image.ten}</span>
+        {count > 1 && <button type="button" className="!bg-transparent !p-0" onClick={() => onIndex(next)}>{t("common.next")} ›</button>}
+      </div>
+      <button type="button" aria-label={t("common.close")} className="absolute top-4 right-4 text-white text-2xl !bg-transparent !p-0" onClick={onClose}>✕</button>
+    </div>
+  );
+};
+
+const ProductGallery: React.FC<{ images: ProductImage[] }> = ({ images }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState<number | null>(null);
+  if (!images.length) return null;
+  return (
+    <div>
+      <button type="button" className="block w-full !p-0 !bg-transparent" onClick={() => setOpen(0)}>
+        <ProductImg image={images[0]} size="full" className="w-full h-72 object-contain rounded-xl bg-zinc-100 dark:bg-zinc-800" />
+      </button>
+      {images.length > 1 && (
+        <div className="mt-2 flex gap-2 overflow-x-auto">
+          {images.map((img, i) => (
+            <button key={img.id} type="button" className="shrink-0 !p-0 !bg-transparent" aria-label={t("images.view", { name: img.ten })} onClick={() => setOpen(i)}>
+              <ProductImg image={img} size="thumb" className="h-16 w-16 object-cover rounded-lg" />
+            </button>
+          ))}
+        </div>
+      )}
+      {open !== null && <Lightbox images={images} index={Math.min(open, images.length - 1)} onIndex={setOpen} onClose={() => setOpen(null)} />}
+    </div>
+  );
+};
+
+/***********************
+ * Search & Filter Bar *
+ ***********************/
+
+type FilterState = {
+  q: string;
+  danhMuc: "" | DanhMuc;
+  min: string;
+  max: string;
+  sort: string; // e.g. "gia:desc,ten:asc"
+  low: boolean; // only products at or below their reorder threshold
+  // Custom attribute conditions, "a.<key>" in the URL. Text and select attributes match on
+  // "<key>"; numbers and dates use "<key>.min" / "<key>.max".
+  attrs: Record<string, string>;
+  where: string; // advanced filter, a serialised FilterGroup
+  // How results are shown (DISPLAY_PARAMS): page size, grid or table, pages or infinite scroll
+  size: number;
+  view: ListView;
+  scroll: boolean;
+};
+
+const useFilterParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Memoised so consumers can depend on `attrs` without recomputing on every render
+  const state = useMemo<FilterState>(() => ({
+    q: searchParams.get("q") ?? "",
+    danhMuc: (searchParams.get("danhMuc") as DanhMuc | null) ?? "",
+    min: searchParams.get("min") ?? "",
+    max: searchParams.get("max") ?? "",
+    sort: searchParams.get("sort") ?? "",
+    low: searchParams.get("low") === "1",
+    attrs: Object.fromEntries([...searchParams].filter(([k]) => k.startsWith("a.")).map(([k, v]) => [k.slice(2), v])),
+    where: searchParams.get("where") ?? "",
+    size: PAGE_SIZES.find((n) => String(n) === searchParams.get("size")) ?? DEFAULT_PAGE_SIZE,
+    view: searchParams.get("view") === "table" ? "table" : "grid",
+    scroll: searchParams.get("scroll") === "1",
+  }), [searchParams]);
+  const set = (patch: Partial<FilterState>) => {
+    const next = { ...state, ...patch };
+    const sp = new URLSearchParams();
+    if (next.q) sp.set("q", next.q);
+    if (next.danhMuc) sp.set("danhMuc", next.danhMuc);
+    if (next.min) sp.set("min", next.min);
+    if (next.max) sp.set("max", next.max);
+    if (next.sort) sp.set("sort", next.sort);
+    if (next.low) sp.set("low", "1");
+    for (const [k, v] of Object.entries(next.attrs)) if (v) sp.set(`a.${k}`, v);
+    if (next.where) sp.set("where", next.where);
+    if (next.size !== DEFAULT_PAGE_SIZE) sp.set("size", String(next.size));
+    if (next.view !== "grid") sp.set("view", next.view);
+    if (next.scroll) sp.set("scroll", "1");
+    setSearchParams(sp, { replace: true });
+  };
+  return [state, set] as const;
+};
+
+// Sort helpers: "field:dir" pairs joined by commas, earlier keys win, later ones break ties
+const parseSort = (raw: string): SortKey[] =>
+  raw
+    .split(",")
+    .map((part) => part.split(":"))
+    .filter(([field], i, all) => SORT_FIELDS.some((f) => f.value === field) && all.findIndex(([x]) => x === field) === i)
+    .map(([field, dir]) => ({ field: field as SortField, dir: dir === "desc" ? "desc" : "asc" }));
+
+const serializeSort = (keys: SortKey[]) => keys.map((k) => `${k.field}:${k.dir}`).join(",");
+
+const SortControl: React.FC<{ value: string; onChange: (sort: string) => void }> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const keys = parseSort(value);
+  const unused = SORT_FIELDS.filter((f) => !keys.some((k) => k.field === f.value));
+  const setKeys = (next: SortKey[]) => onChange(serializeSort(next));
+  const patch = (i: number, p: Partial<SortKey>) => setKeys(keys.map((k, j) => (j === i ? { ...k, ...p } : k)));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3">
+      <span className="text-sm text-zinc-500">{t("sort.label")}</span>
+      {keys.length === 0 && <span className="text-sm text-zinc-400">{t("sort.default")}</span>}
+      {keys.map((k, i) => (
+        <div key={k.field} className="flex items-center gap-1">
+          {i > 0 && <span className="text-xs text-zinc-400">{t("sort.then")}</span>}
+          <Select
+            className="!w-auto"
+            value={k.field}
+            onChange={(e) => patch(i, { field: e.target.value as SortField })}
+          >
+            {SORT_FIELDS.filter((f) => f.value === k.field || unused.includes(f)).map((f) => (
+              <option key={f.value} value={f.value}>{t(f.label)}</option>
+            ))}
+          </Select>
+          <Button type="button" onClick={() => patch(i, { dir: k.dir === "asc" ? "desc" : "asc" })}>
+            {k.dir === "asc" ? `↑ ${t("sort.asc")}` : `↓ ${t("sort.desc")}`}
+          </Button>
+          <Button type="button" aria-label={t("sort.remove")} onClick={() => setKeys(keys.filter((_, j) => j !== i))}>✕</Button>
+        </div>
+      ))}
+      {unused.length > 0 && (
+        <Button type="button" onClick={() => setKeys([...keys, { field: unused[0].value, dir: "asc" }])}>+ {t("sort.add")}</Button>
+      )}
+    </div>
+  );
+};
+
+const SearchFilterBar: React.FC<{ sortable?: boolean }> = ({ sortable = true }) => {
+  const { t } = useI18n();
+  const { categories } = useProducts();
+  const [f, setF] = useFilterParams();
+  const [advanced, setAdvanced] = useState(() => f.where !== "");
+  const conditions = countConditions(parseFilter(f.where));
+  // Attribute filters are offered once a category narrows down which attributes apply
+  const attributes = f.danhMuc ? attributesFor(categories, f.danhMuc) : [];
+  const setAttr = (key: string, value: string) => setF({ attrs: { ...f.attrs, [key]: value } });
+  return (
+    <Card className="mb-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div className="md:col-span-2">
+          <label className="text-sm text-zinc-500">{t("filter.search")}</label>
+          <Input
+            placeholder={t("filter.searchPlaceholder")}
+            value={f.q}
+            onChange={(e) => setF({ q: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="text-sm text-zinc-500">{t("field.danhMuc")}</label>
+          <Select value={f.danhMuc} onChange={(e) => setF({ danhMuc: e.target.value as DanhMuc | "", attrs: {} })}>
+            <option value="">{t("filter.all")}</option>
+            <CategoryOptions />
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm text-zinc-500">{t("filter.minPrice")}</label>
+          <Input type="number" min={0} value={f.min} onChange={(e) => setF({ min: e.target.value })} />
+        </div>
+        <div>
+          <label className="text-sm text-zinc-500">{t("filter.maxPrice")}</label>
+          <Input type="number" min={0} value={f.max} onChange={(e) => setF({ max: e.target.value })} />
+        </div>
+      </div>
+      {attributes.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mt-3">
+          {attributes.map((def) =>
+            def.kieu === "number" || def.kieu === "date" ? (
+              <div key={def.khoa}>
+                <label className="text-sm text-zinc-500">{def.ten}{def.donVi && ` (${def.donVi})`}</label>
+                <div className="flex gap-1">
+                  <Input type={def.kieu} aria-label={t("filter.attributeFrom", { name: def.ten })} placeholder={t("filter.from")} value={f.attrs[`${def.khoa}.min`] ?? ""} onChange={(e) => setAttr(`${def.khoa}.min`, e.target.value)} />
+                  <Input type={def.kieu} aria-label={t("filter.attributeTo", { name: def.ten })} placeholder={t("filter.to")} value={f.attrs[`${def.khoa}.max`] ?? ""} onChange={(e) => setAttr(`${def.khoa}.max`, e.target.value)} />
+                </div>
+              </div>
+            ) : (
+              <div key={def.khoa}>
+                <label className="text-sm text-zinc-500">{def.ten}</label>
+                {def.kieu === "select" ? (
+                  <Select value={f.attrs[def.khoa] ?? ""} onChange={(e) => setAttr(def.khoa, e.target.value)}>
+                    <option value="">{t("filter.all")}</option>
+                    {def.luaChon?.map((o) => <option key={o} value={o}>{o}</option>)}
+                  </Select>
+                ) : (
+                  <Input value={f.attrs[def.khoa] ?? ""} onChange={(e) => setAttr(def.khoa, e.target.value)} />
+                )}
+              </div>
+            ),
+          )}
+        </div>
+      )}
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        {sortable ? <SortControl value={f.sort} onChange={(sort) => setF({ sort })} /> : <span />}
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={f.low} onChange={(e) => setF({ low: e.target.checked })} />
+            {t("filter.lowOnly")}
+          </label>
+          <Button type="button" aria-expanded={advanced} onClick={() => setAdvanced(!advanced)}>
+            {t("builder.toggle")}{conditions > 0 && ` (${conditions})`}
+          </Button>
+        </div>
+      </div>
+      {advanced && <FilterBuilder value={f.where} onChange={(where) => setF({ where })} />}
+    </Card>
+  );
+};
+
+/******************
+ * Filter Builder *
+ ******************/
+
+const isFilterCondition = (x: unknown): x is FilterCondition =>
+  isRecord(x) &&
+  typeof x.field === "string" &&
+  (x.field.startsWith("a.") || FILTER_FIELDS.some((f) => f.value === x.field)) &&
+  typeof x.op === "string" &&
+  Object.hasOwn(FILTER_OP_LABELS, x.op) && // not `in`, which also lets "toString" through
+  Array.isArray(x.values) &&
+  x.values.every((v) => typeof v === "string");
+
+const isFilterGroup = (x: unknown, depth = 1): x is FilterGroup =>
+  isRecord(x) &&
+  (x.join === "and" || x.join === "or") &&
+  Array.isArray(x.items) &&
+  depth <= MAX_FILTER_DEPTH &&
+  x.items.every((item) => isFilterCondition(item) || isFilterGroup(item, depth + 1));
+
+// A malformed or hand-edited "where" is ignored rather than breaking the list
+const parseFilter = (raw: string): FilterGroup | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return isFilterGroup(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const serializeFilter = (group: FilterGroup) => (group.items.length ? JSON.stringify(group) : "");
+
+const countConditions = (group: FilterGroup | null): number =>
+  group ? group.items.reduce((n, item) => n + (isFilterGroupNode(item) ? countConditions(item) : 1), 0) : 0;
+
+const newCondition = (): FilterCondition => ({ field: "ten", op: "has", values: [""] });
+
+type FilterFieldOption = { value: string; label: string; kind: FilterFieldKind; options?: string[] };
+
+const FilterConditionRow: React.FC<{
+  condition: FilterCondition;
+  fields: FilterFieldOption[];
+  onChange: (c: FilterCondition) => void;
+  onRemove: () => void;
+}> = ({ condition, fields, onChange, onRemove }) => {
+  const { t } = useI18n();
+  const { categories } = useProducts();
+  // A field can disappear when its attribute is removed from the category; keep showing it
+  const field = fields.find((f) => f.value === condition.field) ?? {
+    value: condition.field,
+    label: t("builder.unknownField", { field: condition.field }),
+    kind: "text",
+  };
+  const ops = FILTER_OPS[field.kind];
+  const setValue = (i: number, value: string) => onChange({ ...condition, values: Object.assign([...condition.values], { [i]: value }) });
+  const choices = field.kind === "category" ? categoryTree(categories).map(({ category }) => category.ten) : field.options ?? [];
+  const toggleChoice = (choice: string) =>
+    onChange({
+      ...condition,
+      values: condition.values.includes(choice) ? condition.values.filter((v) => v !== choice) : [...condition.values.filter(Boolean), choice],
+    });
+  const inputType = field.kind === "number" || field.kind === "date" ? field.kind : "text";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        className="!w-auto"
+        aria-label={t("builder.field")}
+        value={field.value}
+        onChange={(e) => {
+          const next = fields.find((f) => f.value === e.target.value)!;
+          onChange({ field: next.value, op: FILTER_OPS[next.kind][0], values: [""] });
+        }}
+      >
+        {!fields.includes(field as FilterFieldOption) && <option value={field.value}>{field.label}</option>}
+        {fields.map((f) => <option key={f.value} value={f.value}>{f.label}</option>)}
+      </Select>
+      <Select
+        className="!w-auto"
+        aria-label={t("builder.operator")}
+        value={condition.op}
+        onChange={(e) => onChange({ ...condition, op: e.target.value as FilterOp })}
+      >
+        {(ops.includes(condition.op) ? ops : [condition.op, ...ops]).map((op) => <option key={op} value={op}>{t(FILTER_OP_LABELS[op])}</option>)}
+      </Select>
+      {condition.op === "in" || condition.op === "notIn" ? (
+        <div className="flex flex-wrap gap-2">
+          {choices.map((choice) => (
+            <label key={choice} className="flex items-center gap-1 text-sm px-2 py-1 rounded-lg border border-zinc-200 dark:border-zinc-700">
+              <input type="checkbox" checked={condition.values.includes(choice)} onChange={() => toggleChoice(choice)} />
+              {choice}
+            </label>
+          ))}
+        </div>
+      ) : condition.op === "between" ? (
+        <div className="flex gap-1">
+          <Input className="!w-40" type={inputType} aria-label={t("builder.value")} placeholder={t("filter.from")} value={condition.values[0] ?? ""} onChange={(e) => setValue(0, e.target.value)} />
+          <Input className="!w-40" type={inputType} aria-label={t("builder.value")} placeholder={t("filter.to")} value={condition.values[1] ?? ""} onChange={(e) => setValue(1, e.target.value)} />
+        </div>
+      ) : (
+        <Input className="!w-56" type={inputType} aria-label={t("builder.value")} value={condition.values[0] ?? ""} onChange={(e) => setValue(0, e.target.value)} />
+      )}
+      <Button type="button" aria-label={t("builder.removeCondition")} onClick={onRemove}>✕</Button>
+    </div>
+  );
+};
+
+const FilterGroupEditor: React.FC<{
+  group: FilterGroup;
+  fields: FilterFieldOption[];
+  depth: number;
+  onChange: (g: FilterGroup) => void;
+  onRemove?: () => void;
+}> = ({ group, fields, depth, onChange, onRemove }) => {
+  const { t } = useI18n();
+  const setItem = (i: number, item: FilterCondition | FilterGroup) => onChange({ ...group, items: group.items.map((x, j) => (j === i ? item : x)) });
+  const removeItem = (i: number) => onChange({ ...group, items: group.items.filter((_, j) => j !== i) });
+  const add = (item: FilterCondition | FilterGroup) => onChange({ ...group, items: [...group.items, item] });
+
+  return (
+    <div className={`space-y-2 ${depth > 1 ? "pl-3 border-l-2 border-indigo-200 dark:border-indigo-800" : ""}`}>
+      <div className="flex items-center gap-2">
+        <Select className="!w-auto" value={group.join} onChange={(e) => onChange({ ...group, join: e.target.value as FilterGroup["join"] })}>
+          <option value="and">{t("builder.and")}</option>
+          <option value="or">{t("builder.or")}</option>
+        </Select>
+        {onRemove && <Button type="button" aria-label={t("builder.removeGroup")} onClick={onRemove}>✕</Button>}
+      </div>
+      {group.items.length === 0 && <div className="text-sm text-zinc-400">{t("builder.empty")}</div>}
+      {group.items.map((item, i) =>
+        isFilterGroupNode(item) ? (
+          <FilterGroupEditor key={i} group={item} fields={fields} depth={depth + 1} onChange={(g) => setItem(i, g)} onRemove={() => removeItem(i)} />
+        ) : (
+          <FilterConditionRow key={i} condition={item} fields={fields} onChange={(c) => setItem(i, c)} onRemove={() => removeItem(i)} />
+        ),
+      )}
+      <div className="flex gap-2">
+        <Button type="button" onClick={() => add(newCondition())}>+ {t("builder.addCondition")}</Button>
+        {depth < MAX_FILTER_DEPTH && (
+          <Button type="button" onClick={() => add({ join: group.join === "and" ? "or" : "and", items: [newCondition()] })}>+ {t("builder.addGroup")}</Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Edits the "where" param in place, like the other filter inputs
+const FilterBuilder: React.FC<{ value: string; onChange: (where: string) => void }> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const { categories } = useProducts();
+  const group = parseFilter(value) ?? { join: "and", items: [] };
+  // Built-in fields first, then the custom attributes of every category
+  const fields: FilterFieldOption[] = [
+    ...FILTER_FIELDS.map((f) => ({ value: f.value, label: t(f.label), kind: f.kind })),
+    ...categories.flatMap((c) => c.dacTinh).map((d) => ({ value: `a.${d.khoa}`, label: d.ten, kind: d.kieu, options: d.luaChon })),
+  ];
+  return (
+    <div className="mt-3 pt-3 border-t border-zinc-200 dark:border-zinc-800">
+      <FilterGroupEditor group={group} fields={fields} depth={1} onChange={(g) => onChange(serializeFilter(g))} />
+      {group.items.length > 0 && (
+        <button type="button" className="mt-2 text-sm text-indigo-600 underline !bg-transparent !p-0" onClick={() => onChange("")}>
+          {t("builder.clear")}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**********
+ * Search *
+ **********/
+
+// Wraps every word of `text` whose folded form is one of `terms` in <mark>
+const Highlight: React.FC<{ text: string; terms?: string[] }> = ({ text, terms }) => {
+  if (!terms?.length) return <>{text}</>;
+  const wanted = new Set(terms);
+  const { folded, map } = foldWithMap(text);
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const m of folded.matchAll(WORD_RE)) {
+    if (!wanted.has(m[0])) continue;
+    const start = map[m.index];
+    const end = map[m.index + m[0].length - 1] + 1;
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(<mark key={start} className="bg-yellow-200 dark:bg-yellow-700/60 rounded-sm">{text.slice(start, end)}</mark>);
+    last = end;
+  }
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+/****************
+ * Pagination   *
+ ****************/
+
+// The first and last page, the current one and its neighbours; "…" stands for the pages
+// left out, unless it would hide just one page, which is then shown instead
+const pageWindow = (page: number, totalPages: number): (number | "…")[] => {
+  const shown = [...new Set([1, page - 1, page, page + 1, totalPages])].filter((p) => p >= 1 && p <= totalPages).sort((a, b) => a - b);
+  const out: (number | "…")[] = [];
+  shown.forEach((p, i) => {
+    const gap = i > 0 ? p - shown[i - 1] : 1;
+    if (gap === 2) out.push(p - 1);
+    else if (gap > 2) out.push("…");
+    out.push(p);
+  });
+  return out;
+};
+
+const Pagination: React.FC<{
+  total: number;
+  page: number;
+  pageSize: number;
+  onPage: (p: number) => void;
+}> = ({ total, page, pageSize, onPage }) => {
+  const { t } = useI18n();
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+      <div className="text-sm text-zinc-500">
+        {t("pagination.total")} <b>{formatNumber(total)}</b> {t("pagination.products", { count: total })} • {t("pagination.page")} <b>{page}</b> / {totalPages}
+      </div>
+      <div className="flex items-center gap-2">
+        <Button onClick={() => onPage(Math.max(1, page - 1))} disabled={page === 1}>{t("common.previous")}</Button>
+        <div className="flex items-center gap-1">
+          {pageWindow(page, totalPages).map((p, i) =>
+            p === "…" ? (
+              <span key={`gap-${i}`} className="px-1 text-zinc-400">…</span>
+            ) : (
+              <Button key={p} className={`${p === page ? "bg-indigo-600 text-white" : ""}`} aria-current={p === page ? "page" : undefined} onClick={() => onPage(p)}>
+                {p}
+              </Button>
+            ),
+          )}
+        </div>
+        <Button onClick={() => onPage(Math.min(totalPages, page + 1))} disabled={page === totalPages}>{t("common.next")}</Button>
+      </div>
+    </div>
+  );
+};
+
+/****************
+ * Product Card *
+ ****************/
+
+const ProductCard: React.FC<{
+  p: Product;
+  onDelete: (id: number) => void;
+  selected: boolean;
+  onToggle: (id: number) => void;
+  highlight?: string[]; // folded search terms to mark in the name and description
+}> = ({ p, onDelete, selected, onToggle, highlight }) => {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const unsaved = isTempId(p.id);
+  return (
+    <Card className={`h-full flex flex-col ${selected ? "ring-2 ring-indigo-500" : ""}`}>
+      <div className="flex-1">
+        {p.hinhAnh.length > 0 && (
+          <ProductLink id={p.id} className="block mb-3 -mx-4 -mt-4">
+            <ProductImg image={p.hinhAnh[0]} size="thumb" className="w-full h-40 object-cover rounded-t-2xl" />
+          </ProductLink>
+        )}
+        <div className="flex items-start justify-between gap-3">
+          <label className="flex items-start gap-2">
+            {(can("edit") || can("delete")) && (
+              <input type="checkbox" className="mt-1.5" disabled={unsaved} checked={selected} onChange={() => onToggle(p.id)} aria-label={t("list.select", { name: p.ten })} />
+            )}
+            <h3 className="text-lg font-semibold leading-tight"><Highlight text={p.ten} terms={highlight} /></h3>
+          </label>
+          <span className="text-xs px-2 py-1 rounded-full bg-zinc-100 dark:bg-zinc-800">{p.danhMuc}</span>
+        </div>
+        <div className="mt-2 text-zinc-500 text-sm line-clamp-3"><Highlight text={p.moTa} terms={highlight} /></div>
+        <div className="mt-3 text-base font-medium"><PriceTag p={p} /></div>
+        <div className="text-xs text-zinc-500 flex items-center gap-2">
+          {t("card.quantity", { count: formatNumber(p.soLuong) })}
+          {p.bienThe.length > 0 && ` (${t("card.variants", { count: p.bienThe.length })})`}
+          {isLowStock(p) && (
+            <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200" title={t("card.threshold", { threshold: p.nguongDatHang })}>
+              {t("card.lowStock")}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="mt-4 flex gap-2">
+        <Button className="flex-1" disabled={unsaved} onClick={() => navigate(`/products/${p.id}`)}>{t("common.details")}</Button>
+        {can("edit") && <Button className="flex-1" disabled={unsaved} onClick={() => navigate(`/edit/${p.id}`)}>{t("common.edit")}</Button>}
+        {can("delete") && <Button className="flex-1 text-red-600 border-red-300" disabled={unsaved} onClick={() => onDelete(p.id)}>{t("common.delete")}</Button>}
+      </div>
+    </Card>
+  );
+};
+
+/*****************
+ * Product Table *
+ *****************/
+
+// The table view's counterpart of ProductCard. Rows have a fixed-size thumbnail so they are
+// all the same height, which keeps the virtual list's estimates close.
+const ProductRow: React.FC<{
+  p: Product;
+  onDelete: (id: number) => void;
+  selected: boolean;
+  onToggle: (id: number) => void;
+  highlight?: string[];
+  rowRef?: (el: HTMLTableRowElement | null) => void;
+}> = ({ p, onDelete, selected, onToggle, highlight, rowRef }) => {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const unsaved = isTempId(p.id);
+  return (
+    <tr ref={rowRef} className={`border-t border-zinc-200 dark:border-zinc-800 ${selected ? "bg-indigo-50 dark:bg-indigo-950/40" : ""}`}>
+      <td className="p-2 w-8">
+        {(can("edit") || can("delete")) && (
+          <input type="checkbox" disabled={unsaved} checked={selected} onChange={() => onToggle(p.id)} aria-label={t("list.select", { name: p.ten })} />
+        )}
+      </td>
+      <td className="p-2">
+        <ProductLink id={p.id} className="flex items-center gap-3 hover:underline">
+          {p.hinhAnh.length > 0 ? (
+            <ProductImg image={p.hinhAnh[0]} size="thumb" className="w-10 h-10 shrink-0 object-cover rounded-lg" />
+          ) : (
+            <span className="w-10 h-10 shrink-0 rounded-lg bg-zinc-100 dark:bg-zinc-800" />
+          )}
+          <span className="font-medium"><Highlight text={p.ten} terms={highlight} /></span>
+        </ProductLink>
+      </td>
+      <td className="p-2 whitespace-nowrap">{p.danhMuc}</td>
+      <td className="p-2 text-right whitespace-nowrap"><PriceTag p={p} /></td>
+      <td className="p-2 text-right whitespace-nowrap">
+        {formatNumber(p.soLuong)}
+        {isLowStock(p) && (
+          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200" title={t("card.threshold", { threshold: p.nguongDatHang })}>
+            {t("card.lowStock")}
+          </span>
+        )}
+      </td>
+      <td className="p-2 text-right whitespace-nowrap">
+        <div className="inline-flex gap-1">
+          {can("edit") && <Button className="!px-2 !py-1" disabled={unsaved} onClick={() => navigate(`/edit/${p.id}`)}>{t("common.edit")}</Button>}
+          {can("delete") && <Button className="!px-2 !py-1 text-red-600 border-red-300" disabled={unsaved} onClick={() => onDelete(p.id)}>{t("common.delete")}</Button>}
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+// Wraps ProductRows (and, when virtualised, the spacer rows around them)
+const ProductTable: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { t } = useI18n();
+  return (
+    <Card className="!p-0 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-zinc-500">
+          <tr>
+            <th className="p-2 w-8"><span className="sr-only">{t("list.selectColumn")}</span></th>
+            <th className="p-2">{t("field.ten")}</th>
+            <th className="p-2">{t("field.danhMuc")}</th>
+            <th className="p-2 text-right">{t("field.gia")}</th>
+            <th className="p-2 text-right">{t("field.soLuong")}</th>
+            <th className="p-2 text-right"><span className="sr-only">{t("list.actions")}</span></th>
+          </tr>
+        </thead>
+        <tbody>{children}</tbody>
+      </table>
+    </Card>
+  );
+};
+
+/****************
+ * Bulk Actions *
+ ****************/
+
+const BulkActionBar: React.FC<{
+  count: number;
+  onApply: (op: BulkOp) => void;
+  onClear: () => void;
+  labelsTo: string; // the label page for the selection
+  mergeTo: string; // the merge page for the selection
+}> = ({ count, onApply, onClear, labelsTo, mergeTo }) => {
+  const { t } = useI18n();
+  const { can } = useAuth();
+  const [danhMuc, setDanhMuc] = useState<"" | DanhMuc>("");
+  const [priceMode, setPriceMode] = useState<"percent" | "amount">("percent");
+  const [priceValue, setPriceValue] = useState("");
+  const [soLuong, setSoLuong] = useState("");
+
+  const delta = Number(priceValue);
+  const qty = Number(soLuong);
+
+  return (
+    <Card className="mb-4 border-indigo-300">
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <div className="font-medium self-center">{t("bulk.selected", { count })}</div>
+        {can("delete") && <Button className="text-red-600 border-red-300" onClick={() => onApply({ kind: "delete" })}>{t("common.delete")}</Button>}
+
+        {can("edit") && (
+          <>
+            <div className="flex items-end gap-1">
+              <div>
+                <label className="text-xs text-zinc-500">{t("field.danhMuc")}</label>
+                <Select value={danhMuc} onChange={(e) => setDanhMuc(e.target.value as DanhMuc | "")}>
+                  <option value="">{t("common.choose")}</option>
+                  <CategoryOptions />
+                </Select>
+              </div>
+              <Button disabled={!danhMuc} onClick={() => danhMuc && onApply({ kind: "setCategory", danhMuc })}>{t("bulk.change")}</Button>
+            </div>
+
+            <div className="flex items-end gap-1">
+              <div>
+                <label className="text-xs text-zinc-500">{t("bulk.adjustPrice")}</label>
+                <div className="flex gap-1">
+                  <Input type="number" className="!w-28" value={priceValue} onChange={(e) => setPriceValue(e.target.value)} />
+                  <Select className="!w-auto" value={priceMode} onChange={(e) => setPriceMode(e.target.value as "percent" | "amount")}>
+                    <option value="percent">%</option>
+                    <option value="amount">₫</option>
+                  </Select>
+                </div>
+              </div>
+              <Button
+                disabled={!priceValue || Number.isNaN(delta) || delta === 0}
+                onClick={() => onApply({ kind: "adjustPrice", mode: priceMode, value: delta })}
+              >
+                {t("common.apply")}
+              </Button>
+            </div>
+
+            <div className="flex items-end gap-1">
+              <div>
+                <label className="text-xs text-zinc-500">{t("field.soLuong")}</label>
+                <Input type="number" min={0} className="!w-24" value={soLuong} onChange={(e) => setSoLuong(e.target.value)} />
+              </div>
+              <Button
+                disabled={!soLuong || !Number.isInteger(qty) || qty < 0}
+                onClick={() => onApply({ kind: "setQuantity", soLuong: qty })}
+              >
+                {t("bulk.set")}
+              </Button>
+            </div>
+          </>
+        )}
+
+        <Link to={labelsTo} className="ml-auto px-3 py-2 rounded-xl border border-zinc-300">{t("labels.title")}</Link>
+        {count >= 2 && can("edit") && can("delete") && (
+          <Link to={mergeTo} className="px-3 py-2 rounded-xl border border-zinc-300">{t("merge.title")}</Link>
+        )}
+        <Button onClick={onClear}>{t("bulk.clear")}</Button>
+      </div>
+    </Card>
+  );
+};
+
+/****************
+ * Virtual List *
+ ****************/
+
+// Same breakpoints as the grid's sm:/lg: classes, so a virtual row holds one visual row of cards
+const GRID_COLUMNS: [minWidth: number, columns: number][] = [[1024, 3], [640, 2]];
+
+const subscribeResize = (onChange: () => void) => {
+  window.addEventListener("resize", onChange);
+  return () => window.removeEventListener("resize", onChange);
+};
+
+const useGridColumns = () => useSyncExternalStore(subscribeResize, () => GRID_COLUMNS.find(([w]) => window.innerWidth >= w)?.[1] ?? 1);
+
+// Only rows near the viewport are rendered; the rest of the list is padding of the right
+// height. Heights start as an estimate and are replaced by measurements as rows render.
+// The window does the scrolling, so the page header and filters scroll away as usual.
+const useWindowVirtualizer = (count: number, estimate: number, overscan = 3) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef<number[]>([]);
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight });
+  const [, setMeasured] = useState(0);
+
+  useEffect(() => {
+    const update = () => {
+      const top = containerRef.current ? -containerRef.current.getBoundingClientRect().top : 0;
+      const bottom = top + window.innerHeight;
+      setViewport((v) => (v.top === top && v.bottom === bottom ? v : { top, bottom }));
+    };
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, []);
+
+  const offsets = [0];
+  for (let i = 0; i < count; i++) offsets.push(offsets[i] + (heights.current[i] ?? estimate));
+  // Index of the row that contains `y`, by binary search over the offsets
+  const rowAt = (y: number) => {
+    let lo = 0;
+    let hi = count;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (offsets[mid + 1] <= y) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const start = Math.max(0, rowAt(viewport.top) - overscan);
+  const end = Math.min(count, rowAt(viewport.bottom) + 1 + overscan);
+
+  const measure = (i: number) => (el: HTMLElement | null) => {
+    const h = el?.getBoundingClientRect().height;
+    if (h && Math.abs((heights.current[i] ?? estimate) - h) > 0.5) {
+      heights.current[i] = h;
+      setMeasured((n) => n + 1);
+    }
+  };
+
+  return { containerRef, start, end, before: offsets[start], after: offsets[count] - offsets[end], measure };
+};
+
+// Infinite scroll: the next `batch` results are revealed whenever the last ones come into
+// view. Remount it (key) when the results are replaced rather than updated.
+const VirtualResults: React.FC<{
+  items: Product[];
+  view: ListView;
+  batch: number;
+  card: (p: Product) => React.ReactNode;
+  row: (p: Product, rowRef: (el: HTMLElement | null) => void) => React.ReactNode;
+}> = ({ items, view, batch, card, row }) => {
+  const { t } = useI18n();
+  const columns = useGridColumns();
+  const perRow = view === "table" ? 1 : columns;
+  const [loaded, setLoaded] = useState(batch);
+  const shown = Math.min(items.length, loaded);
+  const rowCount = Math.ceil(shown / perRow);
+  const { containerRef, start, end, before, after, measure } = useWindowVirtualizer(rowCount, view === "table" ? 57 : 320);
+
+  useEffect(() => {
+    if (end >= rowCount && shown < items.length) setLoaded((n) => n + batch);
+  }, [end, rowCount, shown, items.length, batch]);
+
+  const rows = Array.from({ length: end - start }, (_, i) => start + i);
+  return (
+    <div ref={containerRef}>
+      {view === "table" ? (
+        <ProductTable>
+          {before > 0 && <tr aria-hidden style={{ height: before }} />}
+          {rows.map((r) => row(items[r], measure(r)))}
+          {after > 0 && <tr aria-hidden style={{ height: after }} />}
+        </ProductTable>
+      ) : (
+        <div style={{ paddingTop: before, paddingBottom: after }}>
+          {rows.map((r) => (
+            <div key={r} ref={measure(r)} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 pb-4">
+              {items.slice(r * perRow, (r + 1) * perRow).map(card)}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="mt-4 text-sm text-center text-zinc-500">
+        {t("list.showing", { shown: formatNumber(shown), count: items.length, total: formatNumber(items.length) })}
+        {shown < items.length && ` • ${t("list.scrollForMore")}`}
+      </div>
+    </div>
+  );
+};
+
+/***************
+ * Saved Views *
+ ***************/
+
+// A named list setup: the list page's query string (filters, advanced filter, sort).
+// Opening a view just navigates to it, so its link can be shared like any other.
+type SavedView = { id: string; ten: string; query: string };
+
+const VIEWS_KEY = "product_app_views";
+
+// Same parameters in any order count as the same view. Display settings (grid or table,
+// page size) are not part of a view: they stay as they are when switching views.
+const normalizeQuery = (query: string) => {
+  const sp = new URLSearchParams(query);
+  for (const key of DISPLAY_PARAMS) sp.delete(key);
+  sp.sort();
+  return sp.toString();
+};
+
+const loadViews = (): SavedView[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(VIEWS_KEY) ?? "[]") as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((v): v is SavedView => isRecord(v) && typeof v.id === "string" && typeof v.ten === "string" && typeof v.query === "string");
+  } catch {
+    return [];
+  }
+};
+
+// Views are kept in this browser; other tabs pick up changes through the storage event
+const useSavedViews = () => {
+  const [views, setViews] = useState(loadViews);
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === VIEWS_KEY) setViews(loadViews());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+  const save = (next: SavedView[]) => {
+    localStorage.setItem(VIEWS_KEY, JSON.stringify(next));
+    setViews(next);
+  };
+  return [views, save] as const;
+};
+
+const SavedViewTabs: React.FC = () => {
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [views, setViews] = useSavedViews();
+  const [name, setName] = useState<string | null>(null); // set while naming a new view
+  const [copy, setCopy] = useState<"copied" | "failed" | null>(null);
+  const current = normalizeQuery(searchParams.toString());
+
+  const open = (query: string) => {
+    const sp = new URLSearchParams(query);
+    for (const key of DISPLAY_PARAMS) {
+      const value = searchParams.get(key);
+      if (value !== null) sp.set(key, value);
+    }
+    setSearchParams(sp);
+  };
+
+  useEffect(() => setCopy(null), [current]);
+
+  const onSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ten = name?.trim();
+    if (!ten) return;
+    // Saving under an existing name updates that view
+    const existing = views.find((v) => v.ten === ten);
+    setViews(existing ? views.map((v) => (v === existing ? { ...v, query: current } : v)) : [...views, { id: newId(), ten, query: current }]);
+    setName(null);
+  };
+
+  const onCopy = () =>
+    navigator.clipboard.writeText(window.location.href).then(
+      () => setCopy("copied"),
+      () => setCopy("failed"),
+    );
+
+  const tab = (active: boolean) =>
+    `!bg-transparent !rounded-none !px-3 !py-2 !border-0 !border-b-2 text-sm ${active ? "!border-indigo-600 font-semibold" : "!border-transparent text-zinc-500"}`;
+
+  return (
+    <div className="mb-3">
+      <div className="flex flex-wrap items-end justify-between gap-2 border-b border-zinc-200 dark:border-zinc-800">
+        <div role="tablist" aria-label={t("views.label")} className="flex flex-wrap gap-1">
+          <button type="button" role="tab" aria-selected={current === ""} className={tab(current === "")} onClick={() => open("")}>
+            {t("views.all")}
+          </button>
+          {views.map((v) => {
+            const active = normalizeQuery(v.query) === current;
+            return (
+              <span key={v.id} className="flex items-center">
+                <button type="button" role="tab" aria-selected={active} className={tab(active)} onClick={() => open(v.query)}>
+                  {v.ten}
+                </button>
+                <button
+                  type="button"
+                  aria-label={t("views.remove", { name: v.ten })}
+                  className="!bg-transparent !p-1 text-xs text-zinc-400 hover:text-red-600"
+                  onClick={() => setViews(views.filter((x) => x.id !== v.id))}
+                >
+                  ✕
+                </button>
+              </span>
+            );
+          })}
+        </div>
+        <div className="flex items-center gap-2 pb-1">
+          {name === null ? (
+            <>
+              {current !== "" && !views.some((v) => normalizeQuery(v.query) === current) && (
+                <Button type="button" onClick={() => setName("")}>+ {t("views.save")}</Button>
+              )}
+              <Button type="button" onClick={onCopy}>{copy === "copied" ? t("views.copied") : t("views.copyLink")}</Button>
+            </>
+          ) : (
+            <form className="flex items-center gap-2" onSubmit={onSave}>
+              <Input className="!w-48" autoFocus placeholder={t("views.name")} aria-label={t("views.name")} value={name} onChange={(e) => setName(e.target.value)} />
+              <Button type="submit" className="bg-indigo-600 text-white" disabled={!name.trim()}>{t("common.save")}</Button>
+              <Button type="button" onClick={() => setName(null)}>{t("common.cancel")}</Button>
+            </form>
+          )}
+        </div>
+      </div>
+      {copy === "failed" && (
+        <div className="mt-2 text-sm text-zinc-500">
+          {t("views.copyFailed")} <Input readOnly className="mt-1" value={window.location.href} onFocus={(e) => e.target.select()} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/****************
+ * Product List *
+ ****************/
+
+// Above this many products, filtering and sorting run in a worker so typing stays smooth
+const WORKER_THRESHOLD = 5000;
+
+type QueryResult = { ids: number[]; hits: Map<number, SearchHit> | null };
+
+// Answers queries from productQuery.worker.ts while `enabled`; null until the first answer.
+// `failed` is set when the worker can't be started (e.g. its chunk isn't cached offline).
+const useQueryWorker = (enabled: boolean, products: Product[], categories: Category[], query: ProductQuery) => {
+  const worker = useRef<Worker | null>(null);
+  const latest = useRef(0);
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const w = new Worker(new URL("./productQuery.worker.ts", import.meta.url), { type: "module" });
+    w.onmessage = (e: MessageEvent<QueryResponse>) => {
+      // Answers to queries that have been superseded are dropped
+      if (e.data.id === latest.current) setResult({ ids: e.data.ids, hits: e.data.hits && new Map(e.data.hits) });
+    };
+    w.onerror = () => setFailed(true);
+    worker.current = w;
+    return () => {
+      w.terminate();
+      worker.current = null;
+      setResult(null);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    worker.current?.postMessage({ kind: "data", products, categories } satisfies QueryRequest);
+  }, [enabled, products, categories]);
+
+  useEffect(() => {
+    latest.current += 1;
+    worker.current?.postMessage({ kind: "query", id: latest.current, query } satisfies QueryRequest);
+  }, [enabled, products, categories, query]);
+
+  return { result, failed };
+};
+
+// The catalogue as narrowed down by SearchFilterBar; shared by the list and the dashboard.
+// `pending` is true while a large catalogue's first answer is still on its way from the worker.
+const useFilteredProducts = (f: FilterState) => {
+  const { products, categories } = useProducts();
+  const query = useMemo<ProductQuery>(
+    () => ({ q: f.q, danhMuc: f.danhMuc, min: f.min, max: f.max, low: f.low, attrs: f.attrs, where: parseFilter(f.where), sort: parseSort(f.sort) }),
+    [f.q, f.danhMuc, f.min, f.max, f.low, f.attrs, f.where, f.sort],
+  );
+  const large = products.length >= WORKER_THRESHOLD && typeof Worker !== "undefined";
+  const { result, failed } = useQueryWorker(large, products, categories, query);
+  const offload = large && !failed;
+
+  // Main thread, for everything below the threshold
+  const index = useMemo(() => (offload ? null : buildSearchIndex(products)), [offload, products]);
+  const local = useMemo(
+    () => (offload ? null : queryProducts(products, categories, query, index)),
+    [offload, products, categories, query, index],
+  );
+
+  // Worker answers are ids, looked up in the current catalogue
+  const byId = useMemo(() => (offload ? new Map(products.map((p) => [p.id, p])) : null), [offload, products]);
+  const remote = useMemo(
+    () => (byId && result ? result.ids.map((id) => byId.get(id)).filter((p) => p !== undefined) : []),
+    [byId, result],
+  );
+
+  if (local) return { filtered: local.list, hits: local.hits, pending: false };
+  return { filtered: remote, hits: result?.hits ?? null, pending: !result };
+};
+
+// Grid or table, pages or infinite scroll, and how many products per page (or per batch)
+const ListDisplayControls: React.FC<{ f: FilterState; setF: (patch: Partial<FilterState>) => void }> = ({ f, setF }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="inline-flex" role="group" aria-label={t("list.viewLabel")}>
+        {(["grid", "table"] as const).map((view) => (
+          <Button
+            key={view}
+            type="button"
+            aria-pressed={f.view === view}
+            className={`${view === "grid" ? "rounded-r-none" : "rounded-l-none -ml-px"} ${f.view === view ? "bg-indigo-600 text-white" : ""}`}
+            onClick={() => setF({ view })}
+          >
+            {view === "grid" ? t("list.gridView") : t("list.tableView")}
+          </Button>
+        ))}
+      </div>
+      <Select className="!w-auto" aria-label={t("list.pagingLabel")} value={f.scroll ? "scroll" : "pages"} onChange={(e) => setF({ scroll: e.target.value === "scroll" })}>
+        <option value="pages">{t("list.paged")}</option>
+        <option value="scroll">{t("list.infinite")}</option>
+      </Select>
+      <Select className="!w-auto" aria-label={t("list.pageSizeLabel")} value={f.size} onChange={(e) => setF({ size: Number(e.target.value) })}>
+        {PAGE_SIZES.map((n) => <option key={n} value={n}>{t("list.perPage", { count: n })}</option>)}
+      </Select>
+    </div>
+  );
+};
+
+const ProductListPage: React.FC = () => {
+  const { t } = useI18n();
+  const { status, remove, bulk } = useProducts();
+  const { can } = useAuth();
+  const { search } = useLocation();
+  const selectable = can("edit") || can("delete");
+  const [f, setF] = useFilterParams();
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const { filtered, hits, pending } = useFilteredProducts(f);
+
+  useEffect(() => {
+    setPage(1); // reset page when filter, sort or page size changes
+  }, [f.q, f.danhMuc, f.min, f.max, f.sort, f.low, f.attrs, f.where, f.size]);
+
+  useEffect(() => {
+    setSelected(new Set()); // a selection only makes sense for the results it was made in
+  }, [f.q, f.danhMuc, f.min, f.max, f.low, f.attrs, f.where]);
+
+  const total = filtered.length;
+  const start = (page - 1) * f.size;
+  const pageItems = filtered.slice(start, start + f.size);
+
+  // Ids that were deleted since they were selected simply drop out
+  const selectedIds = filtered.filter((p) => selected.has(p.id)).map((p) => p.id);
+  const pageAllSelected = pageItems.length > 0 && pageItems.every((p) => selected.has(p.id));
+
+  const toggle = (id: number) =>
+    setSelected((s) => {
+      const next = new Set(s);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const togglePage = () =>
+    setSelected((s) => {
+      const next = new Set(s);
+      pageItems.forEach((p) => (pageAllSelected ? next.delete(p.id) : next.add(p.id)));
+      return next;
+    });
+
+  const onBulk = (op: BulkOp) => {
+    // Undo covers this too, but a selection can reach far past the page on screen
+    if (op.kind === "delete" && !confirm(t("bulk.confirmDelete", { count: selectedIds.length }))) return;
+    bulk(selectedIds, op);
+    if (op.kind === "delete") setSelected(new Set());
+  };
+
+  // No confirm prompt: a deletion can be reverted from the undo toast
+  const onDelete = (id: number) => remove(id);
+
+  const card = (p: Product) => (
+    <ProductCard key={p.id} p={p} onDelete={onDelete} selected={selected.has(p.id)} onToggle={toggle} highlight={hits?.get(p.id)?.terms} />
+  );
+  const row = (p: Product, rowRef?: (el: HTMLElement | null) => void) => (
+    <ProductRow key={p.id} p={p} onDelete={onDelete} selected={selected.has(p.id)} onToggle={toggle} highlight={hits?.get(p.id)?.terms} rowRef={rowRef} />
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto p-4">
+      <Header />
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-2xl font-bold">{t("list.title")}</h2>
+        <div className="flex items-center gap-2">
+          <ExportButtons products={filtered} />
+          <Link to={`/labels${search}`} className="px-3 py-2 rounded-xl border border-zinc-300">{t("labels.title")}</Link>
+          {can("edit") && <Link to="/add" className="px-3 py-2 rounded-xl bg-indigo-600 text-white shadow">+ {t("list.add")}</Link>}
+        </div>
+      </div>
+
+      <SavedViewTabs />
+      <SearchFilterBar />
+
+      {status !== "ready" || pending ? (
+        <Card>
+          <div className="text-center text-zinc-500">{status === "error" ? t("common.loadFailed") : status === "loading" ? t("common.loading") : t("list.filtering")}</div>
+        </Card>
+      ) : total === 0 ? (
+        <Card>
+          <div className="text-center text-zinc-500">{t("list.empty")}</div>
+        </Card>
+      ) : (
+        <>
+          {selectedIds.length > 0 && (
+            <BulkActionBar
+              count={selectedIds.length}
+              onApply={onBulk}
+              onClear={() => setSelected(new Set())}
+              // Everything that matches the filter is sent as the filter, which keeps the URL short
+              labelsTo={selectedIds.length === total ? `/labels${search}` : `/labels?ids=${selectedIds.join(",")}`}
+              mergeTo={`/merge?ids=${selectedIds.join(",")}`}
+            />
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3 text-sm">
+            {selectable ? (
+              <div className="flex flex-wrap items-center gap-4">
+                {!f.scroll && (
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={pageAllSelected} onChange={togglePage} />
+                    {t("list.selectPage")}
+                  </label>
+                )}
+                {selectedIds.length < total && (
+                  <button type="button" className="text-indigo-600 underline !bg-transparent !p-0" onClick={() => setSelected(new Set(filtered.map((p) => p.id)))}>
+                    {t("list.selectAll", { count: total })}
+                  </button>
+                )}
+              </div>
+            ) : (
+              <span />
+            )}
+            <ListDisplayControls f={f} setF={setF} />
+          </div>
+          {f.scroll ? (
+            <VirtualResults key={search} items={filtered} view={f.view} batch={f.size} card={card} row={row} />
+          ) : (
+            <>
+              {f.view === "table" ? (
+                <ProductTable>{pageItems.map((p) => row(p))}</ProductTable>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">{pageItems.map(card)}</div>
+              )}
+              <Pagination total={total} page={page} pageSize={f.size} onPage={setPage} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+/*************
+ * Dashboard *
+ *************/
+
+// Price buckets on a 1-2-5 scale, so cheap snacks and phones both get readable bars
+const priceBuckets = (prices: number[]) => {
+  if (!prices.length) return [];
+  const steps: number[] = [];
+  for (let decade = 1; decade <= 1e12; decade *= 10) steps.push(decade, 2 * decade, 5 * decade);
+  const cheapest = Math.min(...prices);
+  const lo = steps.filter((b) => b <= cheapest).length - 1;
+  const hi = steps.findIndex((b) => b > Math.max(...prices));
+  return steps.slice(Math.max(lo, 0), hi).map((from, i, arr) => {
+    const to = arr[i + 1] ?? steps[hi];
+    return { label: `${formatCompact(from)} – ${formatCompact(to)}`, value: prices.filter((p) => p >= from && p < to).length };
+  });
+};
+
+const Stat: React.FC<{ label: string; value: React.ReactNode; hint?: string }> = ({ label, value, hint }) => (
+  <Card>
+    <div className="text-sm text-zinc-500">{label}</div>
+    <div className="text-2xl font-bold mt-1">{value}</div>
+    {hint && <div className="text-xs text-zinc-500 mt-1">{hint}</div>}
+  </Card>
+);
+
+const DashboardPage: React.FC = () => {
+  const { t } = useI18n();
+  const { status } = useProducts();
+  const [f] = useFilterParams();
+  const { filtered } = useFilteredProducts(f);
+  const [topN, setTopN] = useState(5);
+
+  const stats = useMemo(() => {
+    const byCategory = new Map<DanhMuc, { count: number; value: number }>();
+    for (const p of filtered) {
+      const c = byCategory.get(p.danhMuc) ?? { count: 0, value: 0 };
+      byCategory.set(p.danhMuc, { count: c.count + 1, value: c.value + stockValue(p) });
+    }
+    const categories = [...byCategory].sort((a, b) => b[1].value - a[1].value);
+    return {
+      units: filtered.reduce((n, p) => n + p.soLuong, 0),
+      value: filtered.reduce((n, p) => n + stockValue(p), 0),
+      categories,
+      top: [...filtered].sort((a, b) => stockValue(b) - stockValue(a)),
+      lowStock: filtered.filter(isLowStock).sort((a, b) => a.soLuong / a.nguongDatHang - b.soLuong / b.nguongDatHang),
+    };
+  }, [filtered]);
+
+  return (
+    <div className="max-w-6xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-3">{t("dashboard.title")}</h2>
+      <SearchFilterBar sortable={false} />
+
+      {status !== "ready" ? (
+        <Card><div className="text-center text-zinc-500">{status === "loading" ? t("common.loading") : t("common.loadFailed")}</div></Card>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Stat label={t("dashboard.products")} value={formatNumber(filtered.length)} />
+            <Stat label={t("dashboard.units")} value={formatNumber(stats.units)} hint={t("dashboard.unitsHint")} />
+            <Stat label={t("dashboard.value")} value={<Money value={stats.value} />} hint={t("dashboard.valueHint")} />
+            <Stat label={t("card.lowStock")} value={formatNumber(stats.lowStock.length)} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <h3 className="font-semibold mb-3">{t("dashboard.countByCategory")}</h3>
+              <BarChart items={stats.categories.map(([label, c]) => ({ label, value: c.count }))} />
+            </Card>
+            <Card>
+              <h3 className="font-semibold mb-3">{t("dashboard.valueByCategory")}</h3>
+              <BarChart
+                items={stats.categories.map(([label, c]) => ({ label, value: c.value, hint: formatMoney(c.value) }))}
+                format={formatCompact}
+              />
+            </Card>
+          </div>
+
+          <Card>
+            <h3 className="font-semibold mb-3">{t("dashboard.priceDistribution")}</h3>
+            <BarChart items={priceBuckets(filtered.map((p) => p.gia))} />
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold">{t("dashboard.topValue")}</h3>
+                <Select className="!w-auto" value={topN} onChange={(e) => setTopN(Number(e.target.value))}>
+                  {[5, 10, 20].map((n) => <option key={n} value={n}>{t("dashboard.top", { n })}</option>)}
+                </Select>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="text-left text-zinc-500">
+                  <tr><th className="p-1">{t("dashboard.product")}</th><th className="p-1 text-right">{t("dashboard.qtyShort")}</th><th className="p-1 text-right">{t("dashboard.valueShort")}</th></tr>
+                </thead>
+                <tbody>
+                  {stats.top.slice(0, topN).map((p) => (
+                    <tr key={p.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                      <td className="p-1"><ProductLink id={p.id} className="hover:underline">{p.ten}</ProductLink></td>
+                      <td className="p-1 text-right">{p.soLuong}</td>
+                      <td className="p-1 text-right"><Money value={stockValue(p)} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+            <Card>
+              <h3 className="font-semibold mb-3">{t("dashboard.lowStock")}</h3>
+              {stats.lowStock.length === 0 ? (
+                <div className="text-sm text-zinc-500">{t("dashboard.noLowStock")}</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-zinc-500">
+                    <tr><th className="p-1">{t("dashboard.product")}</th><th className="p-1 text-right">{t("dashboard.inStock")}</th><th className="p-1 text-right">{t("dashboard.threshold")}</th></tr>
+                  </thead>
+                  <tbody>
+                    {stats.lowStock.map((p) => (
+                      <tr key={p.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                        <td className="p-1"><ProductLink id={p.id} className="hover:underline">{p.ten}</ProductLink></td>
+                        <td className="p-1 text-right text-amber-700">{p.soLuong}</td>
+                        <td className="p-1 text-right">{p.nguongDatHang}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/****************
+ * Product Form *
+ ****************/
+
+type FormValues = {
+  ten: string;
+  danhMuc: "" | DanhMuc;
+  gia: string;
+  soLuong: string;
+  moTa: string;
+  nguongDatHang: string;
+  dacTinh: Record<string, string>; // by attribute key
+  maVach: string; // empty = generate one on save
+};
+
+type ProductFormProps =
+  | { mode: "add"; initial?: undefined; prefill?: Partial<FormValues>; onSubmit: (p: ProductInput) => void }
+  | { mode: "edit"; initial: Product; prefill?: undefined; onSubmit: (p: Product) => void };
+
+// `takenCodes` are the other products' codes and variant SKUs, as codeKey()s
+const validate = (v: FormValues, categories: Category[], takenCodes: Set<string> = new Set()) => {
+  // Custom attribute errors are keyed "dacTinh.<key>"
+  const errors: Partial<Record<keyof FormValues, string>> & Record<`dacTinh.${string}`, string> = {};
+  if (!v.ten.trim()) errors.ten = t("validate.tenRequired");
+  else if (v.ten.trim().length < 3) errors.ten = t("validate.tenTooShort", { min: 3 });
+
+  if (!v.danhMuc) errors.danhMuc = t("validate.danhMucRequired");
+  else if (!categories.some((c) => c.ten === v.danhMuc)) errors.danhMuc = t("validate.danhMucUnknown");
+
+  const gia = Number(v.gia);
+  if (!v.gia) errors.gia = t("validate.giaRequired");
+  else if (Number.isNaN(gia) || gia <= 0) errors.gia = t("validate.giaPositive");
+
+  const soLuong = Number(v.soLuong);
+  if (!v.soLuong) errors.soLuong = t("validate.soLuongRequired");
+  else if (!Number.isInteger(soLuong) || soLuong < 0) errors.soLuong = t("validate.soLuongInvalid");
+
+  if (!v.moTa.trim()) errors.moTa = t("validate.moTaRequired");
+
+  const nguong = Number(v.nguongDatHang);
+  if (v.nguongDatHang && (!Number.isInteger(nguong) || nguong < 0)) errors.nguongDatHang = t("validate.nguongInvalid");
+
+  const maVach = v.maVach.trim();
+  const codeError = maVach ? codeProblem(maVach) : null;
+  if (codeError) errors.maVach = codeError;
+  else if (maVach && takenCodes.has(codeKey(maVach))) errors.maVach = t("validate.maVachTaken");
+
+  if (!errors.danhMuc) {
+    for (const def of attributesFor(categories, v.danhMuc)) {
+      const problem = attributeError(def, v.dacTinh[def.khoa] ?? "");
+      if (problem) errors[`dacTinh.${def.khoa}`] = problem;
+    }
+  }
+
+  return errors;
+};
+
+// The rules an attribute's schema implies for one typed-in value
+const attributeError = (def: AttributeDef, raw: string): string | null => {
+  const value = raw.trim();
+  const name = def.ten;
+  if (!value) return def.batBuoc ? t("validate.attributeRequired", { name }) : null;
+  switch (def.kieu) {
+    case "number": {
+      const n = Number(value);
+      if (!Number.isFinite(n)) return t("validate.attributeNumber", { name });
+      if (def.min !== undefined && n < def.min) return t("validate.attributeMin", { name, min: formatNumber(def.min) });
+      if (def.max !== undefined && n > def.max) return t("validate.attributeMax", { name, max: formatNumber(def.max) });
+      return null;
+    }
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? null : t("validate.attributeDate", { name });
+    case "select":
+      return def.luaChon?.includes(value) ? null : t("validate.attributeOption", { name });
+    case "text":
+      return def.mau && !new RegExp(`^(?:${def.mau})$`).test(value) ? t("validate.attributePattern", { name }) : null;
+  }
+};
+
+// Keeps only the attributes the schema defines, typed for storage
+const parseAttributes = (defs: AttributeDef[], raw: Record<string, string>): Product["dacTinh"] =>
+  Object.fromEntries(
+    defs.flatMap((d) => {
+      const value = raw[d.khoa]?.trim();
+      return value ? [[d.khoa, d.kieu === "number" ? Number(value) : value]] : [];
+    }),
+  );
+
+const attributeDrafts = (dacTinh: Product["dacTinh"]): Record<string, string> =>
+  Object.fromEntries(Object.entries(dacTinh).map(([k, v]) => [k, String(v)]));
+
+const AttributeInput: React.FC<{ def: AttributeDef; value: string; onChange: (value: string) => void; onBlur?: () => void }> = ({
+  def,
+  value,
+  onChange,
+  onBlur,
+}) => {
+  const { t } = useI18n();
+  if (def.kieu === "select") {
+    return (
+      <Select value={value} onBlur={onBlur} onChange={(e) => onChange(e.target.value)}>
+        <option value="">{t("common.choose")}</option>
+        {def.luaChon?.map((o) => <option key={o} value={o}>{o}</option>)}
+      </Select>
+    );
+  }
+  return (
+    <Input
+      type={def.kieu === "text" ? "text" : def.kieu}
+      min={def.min}
+      max={def.max}
+      step={def.kieu === "number" ? "any" : undefined}
+      value={value}
+      onBlur={onBlur}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+};
+
+// Form-side shapes: values are kept as typed until submit
+type AxisDraft = { ten: string; giaTri: string }; // comma-separated values
+type VariantRow = { id: string; giaTri: string[]; sku: string; gia: string; soLuong: string };
+
+const parseAxes = (axes: AxisDraft[]): OptionAxis[] =>
+  axes.map((a) => ({ ten: a.ten.trim(), giaTri: [...new Set(a.giaTri.split(",").map((v) => v.trim()).filter(Boolean))] }));
+
+// SKUs must be unique across the catalogue, so `others` are the rest of the products
+const validateVariants = (axes: AxisDraft[], rows: VariantRow[], others: Product[]) => {
+  const errors: string[] = [];
+  const parsed = parseAxes(axes);
+  const names = new Set<string>();
+  parsed.forEach((a, i) => {
+    if (!a.ten) errors.push(t("variants.axisUnnamed", { n: i + 1 }));
+    else if (names.has(a.ten.toLocaleLowerCase("vi"))) errors.push(t("variants.axisDuplicate", { name: a.ten }));
+    else if (!a.giaTri.length) errors.push(t("variants.axisEmpty", { name: a.ten }));
+    names.add(a.ten.toLocaleLowerCase("vi"));
+  });
+  if (rows.length > MAX_VARIANTS) errors.push(t("variants.tooMany", { max: MAX_VARIANTS, count: rows.length }));
+  const taken = new Set(others.flatMap((p) => p.bienThe.map((v) => v.sku.toUpperCase())));
+  const seen = new Set<string>();
+  for (const r of rows) {
+    const label = r.giaTri.join(" / ");
+    const sku = r.sku.trim().toUpperCase();
+    if (!sku) errors.push(t("variants.skuRequired", { variant: label }));
+    else if (seen.has(sku) || taken.has(sku)) errors.push(t("variants.skuTaken", { variant: label, sku: r.sku.trim() }));
+    seen.add(sku);
+    const gia = Number(r.gia);
+    if (r.gia && (Number.isNaN(gia) || gia <= 0)) errors.push(t("variants.pricePositive", { variant: label }));
+    const soLuong = Number(r.soLuong);
+    if (!r.soLuong || !Number.isInteger(soLuong) || soLuong < 0) errors.push(t("variants.quantityInvalid", { variant: label }));
+  }
+  return errors;
+};
+
+const VariantEditor: React.FC<{
+  axes: AxisDraft[];
+  rows: VariantRow[];
+  basePrice: string;
+  onAxes: (axes: AxisDraft[]) => void;
+  onRows: React.Dispatch<React.SetStateAction<VariantRow[]>>;
+}> = ({ axes, rows, basePrice, onAxes, onRows }) => {
+  const { t } = useI18n();
+  const names = parseAxes(axes).map((a) => a.ten);
+  const setAxis = (i: number, patch: Partial<AxisDraft>) => onAxes(axes.map((a, j) => (j === i ? { ...a, ...patch } : a)));
+  const setRow = (id: string, patch: Partial<VariantRow>) => onRows((rs) => rs.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="space-y-2">
+      {axes.map((a, i) => (
+        <div key={i} className="grid grid-cols-[10rem_1fr_auto] gap-2">
+          <Input placeholder={t("variants.axisName")} value={a.ten} onChange={(e) => setAxis(i, { ten: e.target.value })} />
+          <Input placeholder={t("variants.axisValues")} value={a.giaTri} onChange={(e) => setAxis(i, { giaTri: e.target.value })} />
+          <Button type="button" aria-label={t("variants.removeAxis", { name: a.ten })} onClick={() => onAxes(axes.filter((_, j) => j !== i))}>✕</Button>
+        </div>
+      ))}
+      <Button type="button" disabled={axes.length >= MAX_AXES} onClick={() => onAxes([...axes, { ten: "", giaTri: "" }])}>
+        + {t("variants.addAxis")}
+      </Button>
+      {rows.length > 0 && (
+        <div className="overflow-x-auto max-h-96 border rounded-xl border-zinc-200 dark:border-zinc-800">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-100 dark:bg-zinc-800 text-left sticky top-0">
+              <tr>
+                {names.map((n, i) => <th key={i} className="p-2">{n || t("variants.axisN", { n: i + 1 })}</th>)}
+                <th className="p-2">SKU</th>
+                <th className="p-2">{t("variants.ownPrice")}</th>
+                <th className="p-2">{t("variants.stock")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                  {r.giaTri.map((v, i) => <td key={i} className="p-2 whitespace-nowrap">{v}</td>)}
+                  <td className="p-1"><Input className="!py-1 min-w-40" value={r.sku} onChange={(e) => setRow(r.id, { sku: e.target.value })} /></td>
+                  <td className="p-1"><Input className="!py-1 min-w-28" type="number" min={0} placeholder={basePrice || t("variants.basePrice")} value={r.gia} onChange={(e) => setRow(r.id, { gia: e.target.value })} /></td>
+                  <td className="p-1"><Input className="!py-1 min-w-20" type="number" min={0} value={r.soLuong} onChange={(e) => setRow(r.id, { soLuong: e.target.value })} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Scheduled list prices and the sale, kept as typed until submit
+type ScheduleRow = { id: string; gia: string; tuNgay: string };
+type SaleDraft = { gia: string; tuNgay: string; denNgay: string };
+
+// Scheduled prices can't be in the past (a date of today applies right away); a sale has to
+// undercut the list price and not have ended already
+const validatePricePlan = (schedule: ScheduleRow[], sale: SaleDraft | null, gia: number) => {
+  const errors: string[] = [];
+  const today = localDay();
+  const days = new Set<string>();
+  for (const r of schedule) {
+    const n = Number(r.gia);
+    if (!r.gia || Number.isNaN(n) || n <= 0) errors.push(t("prices.schedulePrice"));
+    if (!r.tuNgay) errors.push(t("prices.scheduleDateRequired"));
+    else if (r.tuNgay < today) errors.push(t("prices.schedulePast", { date: formatDay(r.tuNgay) }));
+    else if (days.has(r.tuNgay)) errors.push(t("prices.scheduleDuplicate", { date: formatDay(r.tuNgay) }));
+    days.add(r.tuNgay);
+  }
+  if (sale) {
+    const n = Number(sale.gia);
+    if (!sale.gia || Number.isNaN(n) || n <= 0) errors.push(t("prices.salePrice"));
+    else if (gia > 0 && n >= gia) errors.push(t("prices.saleNotLower"));
+    if (!sale.tuNgay || !sale.denNgay) errors.push(t("prices.saleDatesRequired"));
+    else if (sale.denNgay < sale.tuNgay) errors.push(t("prices.saleEndsBeforeStart"));
+    else if (sale.denNgay < today) errors.push(t("prices.saleEnded"));
+  }
+  return [...new Set(errors)];
+};
+
+const PricePlanEditor: React.FC<{
+  schedule: ScheduleRow[];
+  sale: SaleDraft | null;
+  onSchedule: React.Dispatch<React.SetStateAction<ScheduleRow[]>>;
+  onSale: (sale: SaleDraft | null) => void;
+}> = ({ schedule, sale, onSchedule, onSale }) => {
+  const { t } = useI18n();
+  const today = localDay();
+  const setRow = (id: string, patch: Partial<ScheduleRow>) => onSchedule((rs) => rs.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="space-y-2">
+      {schedule.map((r) => (
+        <div key={r.id} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+          <Input type="number" min={0} placeholder={t("prices.newPrice")} value={r.gia} onChange={(e) => setRow(r.id, { gia: e.target.value })} />
+          <Input type="date" min={today} aria-label={t("prices.from")} value={r.tuNgay} onChange={(e) => setRow(r.id, { tuNgay: e.target.value })} />
+          <Button type="button" aria-label={t("prices.removeSchedule")} onClick={() => onSchedule((rs) => rs.filter((x) => x.id !== r.id))}>✕</Button>
+        </div>
+      ))}
+      <Button type="button" onClick={() => onSchedule((rs) => [...rs, { id: newId(), gia: "", tuNgay: "" }])}>+ {t("prices.addSchedule")}</Button>
+      {sale ? (
+        <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+          <Input type="number" min={0} placeholder={t("prices.salePlaceholder")} value={sale.gia} onChange={(e) => onSale({ ...sale, gia: e.target.value })} />
+          <Input type="date" aria-label={t("prices.from")} value={sale.tuNgay} onChange={(e) => onSale({ ...sale, tuNgay: e.target.value })} />
+          <Input type="date" min={sale.tuNgay || today} aria-label={t("prices.until")} value={sale.denNgay} onChange={(e) => onSale({ ...sale, denNgay: e.target.value })} />
+          <Button type="button" aria-label={t("prices.removeSale")} onClick={() => onSale(null)}>✕</Button>
+        </div>
+      ) : (
+        <Button type="button" className="ml-2" onClick={() => onSale({ gia: "", tuNgay: today, denNgay: "" })}>+ {t("prices.addSale")}</Button>
+      )}
+    </div>
+  );
+};
+
+const ProductForm: React.FC<ProductFormProps> = ({ mode, initial, prefill, onSubmit }) => {
+  const { t } = useI18n();
+  const [v, setV] = useState<FormValues>(() => initial ? {
+    ten: initial.ten,
+    danhMuc: initial.danhMuc,
+    gia: String(initial.gia),
+    soLuong: String(initial.soLuong),
+    moTa: initial.moTa,
+    nguongDatHang: initial.nguongDatHang ? String(initial.nguongDatHang) : "",
+    dacTinh: attributeDrafts(initial.dacTinh),
+    maVach: initial.maVach,
+  } : { ten: "", danhMuc: "", gia: "", soLuong: "", moTa: "", nguongDatHang: "", dacTinh: {}, maVach: "", ...prefill });
+  const [images, setImages] = useState<ProductImage[]>(() => initial?.hinhAnh ?? []);
+  const [axes, setAxes] = useState<AxisDraft[]>(() => initial?.thuocTinh.map((a) => ({ ten: a.ten, giaTri: a.giaTri.join(", ") })) ?? []);
+  const [rows, setRows] = useState<VariantRow[]>(
+    () => initial?.bienThe.map((b) => ({ id: b.id, giaTri: b.giaTri, sku: b.sku, gia: b.gia === null ? "" : String(b.gia), soLuong: String(b.soLuong) })) ?? [],
+  );
+  const [schedule, setSchedule] = useState<ScheduleRow[]>(
+    () => initial?.giaHenGio.map((s) => ({ id: s.id, gia: String(s.gia), tuNgay: s.tuNgay })) ?? [],
+  );
+  const [sale, setSale] = useState<SaleDraft | null>(() => initial?.khuyenMai ? { ...initial.khuyenMai, gia: String(initial.khuyenMai.gia) } : null);
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const { products, categories } = useProducts();
+  // With variants the stock field is their total and can't be edited directly
+  const variantTotal = rows.reduce((n, r) => n + (Number.isInteger(Number(r.soLuong)) ? Number(r.soLuong) : 0), 0);
+  const others = useMemo(() => products.filter((p) => p.id !== initial?.id), [products, initial?.id]);
+  const takenCodes = useMemo(
+    () => new Set(others.flatMap((p) => [p.maVach, ...p.bienThe.map((b) => b.sku)]).filter(Boolean).map(codeKey)),
+    [others],
+  );
+  const errs = validate(rows.length ? { ...v, soLuong: String(variantTotal) } : v, categories, takenCodes);
+  // Only a warning: similar names can be different products
+  const ten = useDeferredValue(v.ten.trim());
+  const duplicates = useMemo(
+    () => (ten.length >= 3 && v.danhMuc ? findNearDuplicates(others, ten, v.danhMuc) : []),
+    [others, ten, v.danhMuc],
+  );
+  // Switching category swaps the attribute fields; typed values stay in case the user switches back
+  const attributes = v.danhMuc ? attributesFor(categories, v.danhMuc) : [];
+  const variantErrs = validateVariants(axes, rows, others);
+  const priceErrs = validatePricePlan(schedule, sale, Number(v.gia));
+
+  const changeAxes = (next: AxisDraft[]) => {
+    setAxes(next);
+    setRows((rs) =>
+      buildVariantMatrix(parseAxes(next), rs, (giaTri) => ({ id: newId(), giaTri, sku: suggestSku(v.ten, giaTri), gia: "", soLuong: "0" })),
+    );
+  };
+
+  const set = (patch: Partial<FormValues>) => setV((s) => ({ ...s, ...patch }));
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (Object.keys(errs).length || variantErrs.length || priceErrs.length) {
+      setTouched({
+        ten: true, danhMuc: true, gia: true, soLuong: true, moTa: true, nguongDatHang: true, maVach: true, bienThe: true, giaHenGio: true,
+        ...Object.fromEntries(attributes.map((d) => [`dacTinh.${d.khoa}`, true])),
+      });
+      return;
+    }
+    const bienThe: Variant[] = rows.map((r) => ({
+      id: r.id,
+      giaTri: r.giaTri,
+      sku: r.sku.trim(),
+      gia: r.gia ? Number(r.gia) : null,
+      soLuong: Number(r.soLuong),
+    }));
+    const fields: ProductInput = {
+      ten: v.ten.trim(),
+      danhMuc: v.danhMuc as DanhMuc,
+      gia: Number(v.gia),
+      soLuong: bienThe.length ? variantTotal : Number(v.soLuong),
+      moTa: v.moTa.trim(),
+      nguongDatHang: Number(v.nguongDatHang || 0),
+      hinhAnh: images,
+      thuocTinh: bienThe.length ? parseAxes(axes) : [],
+      bienThe,
+      dacTinh: parseAttributes(attributes, v.dacTinh),
+      maVach: v.maVach.trim() || nextInternalCode(products.map((p) => p.maVach)),
+      giaHenGio: schedule.map((r) => ({ id: r.id, gia: Number(r.gia), tuNgay: r.tuNgay })).sort((a, b) => a.tuNgay.localeCompare(b.tuNgay)),
+      khuyenMai: sale && { gia: Number(sale.gia), tuNgay: sale.tuNgay, denNgay: sale.denNgay },
+    };
+    if (mode === "add") {
+      onSubmit(fields);
+    } else if (mode === "edit" && initial) {
+      // Keeps the ledger; a changed soLuong is booked as an adjustment by the provider
+      onSubmit({ ...initial, ...fields });
+    }
+  };
+
+  const errMsg = (key: keyof typeof errs) => touched[key] && errs[key] ? (
+    <div className="text-xs text-red-600 mt-1">{errs[key]}</div>
+  ) : null;
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div>
+        <label className="text-sm text-zinc-500">{t("form.ten")} *</label>
+        <Input value={v.ten} onBlur={() => setTouched((s) => ({ ...s, ten: true }))} onChange={(e) => set({ ten: e.target.value })} />
+        {errMsg("ten")}
+        {duplicates.length > 0 && (
+          <div role="status" className="mt-1 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/40 p-2 text-xs text-amber-800 dark:text-amber-200">
+            {t("form.possibleDuplicates", { category: v.danhMuc })}{" "}
+            {duplicates.map(({ product }, i) => (
+              <React.Fragment key={product.id}>
+                {i > 0 && ", "}
+                <ProductLink id={product.id} target="_blank" className="underline">{product.ten}</ProductLink>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm text-zinc-500">{t("field.danhMuc")} *</label>
+          <Select value={v.danhMuc} onBlur={() => setTouched((s) => ({ ...s, danhMuc: true }))} onChange={(e) => set({ danhMuc: e.target.value as DanhMuc | "" })}>
+            <option value="">{t("form.chooseCategory")}</option>
+            <CategoryOptions />
+          </Select>
+          {errMsg("danhMuc")}
+        </div>
+        <div>
+          <label className="text-sm text-zinc-500">{t("form.gia")} *</label>
+          <Input type="number" min={0} value={v.gia} onBlur={() => setTouched((s) => ({ ...s, gia: true }))} onChange={(e) => set({ gia: e.target.value })} />
+          {errMsg("gia")}
+        </div>
+      </div>
+      {attributes.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {attributes.map((def) => (
+            <div key={def.khoa}>
+              <label className="text-sm text-zinc-500">
+                {def.ten}{def.donVi && ` (${def.donVi})`}{def.batBuoc && " *"}
+              </label>
+              <AttributeInput
+                def={def}
+                value={v.dacTinh[def.khoa] ?? ""}
+                onBlur={() => setTouched((s) => ({ ...s, [`dacTinh.${def.khoa}`]: true }))}
+                onChange={(value) => set({ dacTinh: { ...v.dacTinh, [def.khoa]: value } })}
+              />
+              {errMsg(`dacTinh.${def.khoa}`)}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm text-zinc-500">{t("field.soLuong")} *</label>
+          {rows.length ? (
+            <Input type="number" disabled value={variantTotal} title={t("form.variantTotal")} />
+          ) : (
+            <Input type="number" min={0} value={v.soLuong} onBlur={() => setTouched((s) => ({ ...s, soLuong: true }))} onChange={(e) => set({ soLuong: e.target.value })} />
+          )}
+          {errMsg("soLuong")}
+          {mode === "edit" && initial && (rows.length ? variantTotal : Number(v.soLuong)) !== initial.soLuong && !errs.soLuong && (
+            <div className="text-xs text-zinc-500 mt-1">{t("form.adjustmentNote")}</div>
+          )}
+          <label className="text-sm text-zinc-500 mt-3 block">{t("form.nguong")}</label>
+          <Input type="number" min={0} placeholder={t("form.nguongPlaceholder")} value={v.nguongDatHang} onBlur={() => setTouched((s) => ({ ...s, nguongDatHang: true }))} onChange={(e) => set({ nguongDatHang: e.target.value })} />
+          {errMsg("nguongDatHang")}
+        </div>
+        <div>
+          <label className="text-sm text-zinc-500">{t("field.moTa")} *</label>
+          <Textarea rows={4} value={v.moTa} onBlur={() => setTouched((s) => ({ ...s, moTa: true }))} onChange={(e) => set({ moTa: e.target.value })} />
+          {errMsg("moTa")}
+        </div>
+      </div>
+      <div>
+        <label className="text-sm text-zinc-500">{t("field.maVach")}</label>
+        <div className="flex gap-2">
+          <Input
+            value={v.maVach}
+            placeholder={t("form.maVachPlaceholder")}
+            onBlur={() => setTouched((s) => ({ ...s, maVach: true }))}
+            onChange={(e) => set({ maVach: e.target.value })}
+          />
+          <Button type="button" className="border border-zinc-300 whitespace-nowrap" onClick={() => set({ maVach: nextInternalCode(products.map((p) => p.maVach)) })}>
+            {t("form.maVachGenerate")}
+          </Button>
+        </div>
+        {errMsg("maVach")}
+        {v.maVach.trim() && !errs.maVach && <Barcode value={v.maVach.trim()} className="h-16 mt-2" />}
+      </div>
+      <div>
+        <label className="text-sm text-zinc-500">{t("field.bienThe")}</label>
+        <VariantEditor axes={axes} rows={rows} basePrice={v.gia} onAxes={changeAxes} onRows={setRows} />
+        {touched.bienThe && variantErrs.length > 0 && (
+          <ul className="text-xs text-red-600 mt-1 list-disc pl-4">{variantErrs.map((e) => <li key={e}>{e}</li>)}</ul>
+        )}
+      </div>
+      <div>
+        <label className="text-sm text-zinc-500">{t("form.pricePlan")}</label>
+        <PricePlanEditor schedule={schedule} sale={sale} onSchedule={setSchedule} onSale={setSale} />
+        {touched.giaHenGio && priceErrs.length > 0 && (
+          <ul className="text-xs text-red-600 mt-1 list-disc pl-4">{priceErrs.map((e) => <li key={e}>{e}</li>)}</ul>
+        )}
+      </div>
+      <div>
+        <label className="text-sm text-zinc-500">{t("field.hinhAnh")}</label>
+        <ImageField value={images} onChange={setImages} />
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" className="bg-indigo-600 text-white">{mode === "add" ? t("form.add") : t("form.update")}</Button>
+        <Link to="/" className="px-3 py-2 rounded-xl border border-zinc-300">{t("common.cancel")}</Link>
+      </div>
+    </form>
+  );
+};
+
+/****************
+ * Add / Edit   *
+ ****************/
+
+const AddPage: React.FC = () => {
+  const { t } = useI18n();
+  const { add } = useProducts();
+  const nav = useNavigate();
+  const [params] = useSearchParams();
+  // Scanning an unknown code leads here with the code filled in
+  const prefill = useMemo(() => ({ maVach: params.get("maVach") ?? "" }), [params]);
+  const onSubmit = (p: ProductInput) => {
+    add(p);
+    nav("/");
+  };
+  return (
+    <div className="max-w-3xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-3">{t("list.add")}</h2>
+      <Card>
+        <ProductForm mode="add" prefill={prefill} onSubmit={onSubmit} />
+      </Card>
+    </div>
+  );
+};
+
+type Side = "mine" | "theirs";
+
+// Fields where this form's version and the one saved elsewhere disagree. Each starts
+// on whichever side actually changed it since the form was opened; when both did,
+// it starts on "mine" and is flagged.
+const conflictFields = (base: Product, mine: Product, theirs: Product) =>
+  AUDIT_FIELDS.flatMap((field) => {
+    const value = (p: Product) => JSON.stringify(p[field.key]);
+    if (value(mine) === value(theirs)) return [];
+    const mineChanged = value(mine) !== value(base);
+    const theirsChanged = value(theirs) !== value(base);
+    return [{ ...field, both: mineChanged && theirsChanged, side: (!mineChanged && theirsChanged ? "theirs" : "mine") as Side }];
+  });
+
+// The other version is the base: its ledger and revision are kept, only the picked
+// fields come from this form (variants bring their option axes along)
+const mergeVersions = (mine: Product, theirs: Product, picks: Partial<Record<keyof Product, Side>>): Product => {
+  const merged: Product = { ...theirs };
+  for (const [key, side] of Object.entries(picks) as [keyof Product, Side][]) {
+    if (side !== "mine") continue;
+    Object.assign(merged, { [key]: mine[key] }, key === "bienThe" && { thuocTinh: mine.thuocTinh });
+  }
+  return merged;
+};
+
+const ConflictResolver: React.FC<{
+  base: Product;
+  mine: Product;
+  theirs: Product;
+  onResolve: (p: Product) => void;
+  onCancel: () => void;
+}> = ({ base, mine, theirs, onResolve, onCancel }) => {
+  const { t } = useI18n();
+  const fields = conflictFields(base, mine, theirs);
+  // Only explicit choices are kept, so fields that start to differ while the dialog is open get their default too
+  const [picks, setPicks] = useState<Partial<Record<keyof Product, Side>>>({});
+  const side = (key: keyof Product) => picks[key] ?? fields.find((f) => f.key === key)!.side;
+  const radio = (f: (typeof fields)[number], s: Side, p: Product) => (
+    <label className={`block rounded-lg border p-2 text-sm cursor-pointer ${side(f.key) === s ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-950/40" : "border-zinc-200 dark:border-zinc-700"}`}>
+      <input type="radio" className="mr-2" name={`pick-${f.key}`} checked={side(f.key) === s} onChange={() => setPicks((x) => ({ ...x, [f.key]: s }))} />
+      <span className="whitespace-pre-wrap break-words">{f.format(p)}</span>
+    </label>
+  );
+  return (
+    <div role="dialog" aria-modal="true" aria-label={t("conflict.title")} className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl max-h-[90vh] overflow-auto space-y-3">
+        <h3 className="text-lg font-semibold">{t("conflict.heading", { name: theirs.ten })}</h3>
+        <p className="text-sm text-zinc-500">{t("conflict.hint")}</p>
+        {fields.length === 0 ? (
+          <p className="text-sm">{t("conflict.identical")}</p>
+        ) : (
+          <div className="grid grid-cols-[auto_1fr_1fr] gap-2 items-start">
+            <div />
+            <div className="text-sm font-medium">{t("conflict.mine")}</div>
+            <div className="text-sm font-medium">{t("conflict.theirs", { revision: theirs.phienBan })}</div>
+            {fields.map((f) => (
+              <React.Fragment key={f.key}>
+                <div className="text-sm pt-2">
+                  {t(f.label)}
+                  {f.both && <div className="text-xs text-red-600">{t("conflict.both")}</div>}
+                </div>
+                {radio(f, "mine", mine)}
+                {radio(f, "theirs", theirs)}
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button type="button" onClick={onCancel}>{t("conflict.back")}</Button>
+          <Button type="button" className="bg-indigo-600 text-white" onClick={() => onResolve(mergeVersions(mine, theirs, Object.fromEntries(fields.map((f) => [f.key, side(f.key)]))))}>{t("conflict.save")}</Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+// `product` is the live copy and moves on when another tab saves; the form stays on
+// the version it was opened with so the two can be reconciled on submit. A save the
+// backend refuses because someone else saved first (e.g. another client of the REST
+// API, which this tab doesn't hear about) opens the same reconciliation.
+const EditProduct: React.FC<{ product: Product }> = ({ product }) => {
+  const { update } = useProducts();
+  const { t } = useI18n();
+  const nav = useNavigate();
+  const [base] = useState(product);
+  const [mine, setMine] = useState<Product | null>(null);
+  const [rejectedBy, setRejectedBy] = useState<Product | null>(null); // the stored copy a save ran into
+  const changedElsewhere = product.phienBan !== base.phienBan;
+  // Whichever is newer: the live copy catches up once the conflict has reloaded the data
+  const theirs = rejectedBy && rejectedBy.phienBan > product.phienBan ? rejectedBy : product;
+  const save = async (p: Product) => {
+    const stored = await update(p);
+    if (!stored) {
+      nav(`/products/${p.id}`);
+      return;
+    }
+    setRejectedBy(stored);
+    setMine(p);
+  };
+  return (
+    <>
+      {changedElsewhere && (
+        <div role="status" className="mb-3 rounded-xl border border-amber-300 bg-amber-50 dark:bg-amber-950/40 p-3 text-sm text-amber-800 dark:text-amber-200">
+          {t("conflict.banner", { revision: product.phienBan })}
+        </div>
+      )}
+      <Card>
+        <ProductForm mode="edit" initial={base} onSubmit={(p) => (changedElsewhere ? setMine(p) : void save(p))} />
+      </Card>
+      {mine && (
+        <ConflictResolver
+          base={base}
+          mine={mine}
+          theirs={theirs}
+          onResolve={(p) => {
+            setMine(null);
+            void save(p);
+          }}
+          onCancel={() => setMine(null)}
+        />
+      )}
+    </>
+  );
+};
+
+const EditPage: React.FC = () => {
+  const { products, status } = useProducts();
+  const { t } = useI18n();
+  const { id } = useParams();
+  const product = products.find((p) => p.id === Number(id));
+  if (!product) {
+    return (
+      <div className="max-w-3xl mx-auto p-4">
+        <Header />
+        <Card>
+          {status === "loading"
+            ? <div className="text-zinc-500">{t("common.loading")}</div>
+            : <div className="text-red-600">{t("product.notFound", { id: id ?? "" })}</div>}
+        </Card>
+      </div>
+    );
+  }
+  return (
+    <div className="max-w-3xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-3">{t("form.editTitle")}</h2>
+      <EditProduct key={product.id} product={product} />
+    </div>
+  );
+};
+
+/*********
+ * Merge *
+ *********/
+
+// Pick the record to keep and, field by field, whose value it ends up with. The others
+// are deleted and their links lead to the kept one from then on.
+const MergePage: React.FC = () => {
+  const { products, status, merge } = useProducts();
+  const { t } = useI18n();
+  const [params] = useSearchParams();
+  const nav = useNavigate();
+  const ids = (params.get("ids") ?? "").split(",").map(Number).filter((n) => Number.isInteger(n) && n > 0);
+  const items = products.filter((p) => ids.includes(p.id));
+  const [keepId, setKeepId] = useState<number | null>(null);
+  const [picks, setPicks] = useState<MergePicks>({});
+  const [error, setError] = useState("");
+  // The oldest record is kept unless another is chosen
+  const kept = items.find((p) => p.id === keepId) ?? items.reduce<Product | undefined>((a, p) => (a && a.id < p.id ? a : p), undefined);
+  const withVariants = items.find((p) => p.bienThe.length);
+
+  if (!kept || items.length < 2) {
+    return (
+      <div className="max-w-3xl mx-auto p-4">
+        <Header />
+        <Card>
+          {status === "loading"
+            ? <div className="text-zinc-500">{t("common.loading")}</div>
+            : <div className="text-red-600">{t("merge.tooFew")}</div>}
+        </Card>
+      </div>
+    );
+  }
+
+  // Fields follow the kept record unless picked from another one
+  const source = (key: keyof Product) => picks[key] ?? kept.id;
+  const option = (name: string, checked: boolean, onChange: () => void, children: React.ReactNode) => (
+    <label className={`block rounded-lg border p-2 text-sm cursor-pointer ${checked ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-950/40" : "border-zinc-200 dark:border-zinc-700"}`}>
+      <input type="radio" className="mr-2" name={name} checked={checked} onChange={onChange} />
+      {children}
+    </label>
+  );
+  const total = items.reduce((s, p) => s + p.soLuong, 0);
+
+  const submit = () => {
+    const failure = merge(items.map((p) => p.id), kept.id, picks);
+    if (failure) setError(failure);
+    else nav(`/products/${kept.id}`);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-1">{t("merge.title")}</h2>
+      <div className="text-sm text-zinc-500 mb-3">{t("merge.hint")}</div>
+      <Card className="overflow-x-auto space-y-3">
+        <div className="grid gap-2 items-start min-w-max" style={{ gridTemplateColumns: `auto repeat(${items.length}, minmax(12rem, 1fr))` }}>
+          <div className="text-sm pt-2">{t("merge.keep")}</div>
+          {items.map((p) =>
+            option("keep", p.id === kept.id, () => setKeepId(p.id), (
+              <>
+                <Link to={`/products/${p.id}`} target="_blank" className="font-medium text-indigo-600 underline">{p.ten}</Link>
+                <span className="ml-1 text-zinc-500">#{p.id}</span>
+              </>
+            )),
+          )}
+          {MERGE_FIELDS.map((f) => (
+            <React.Fragment key={f.key}>
+              <div className="text-sm pt-2">{t(f.label)}</div>
+              {items.map((p) => (
+                <React.Fragment key={p.id}>
+                  {option(`pick-${f.key}`, source(f.key) === p.id, () => setPicks((x) => ({ ...x, [f.key]: p.id })), (
+                    <span className="whitespace-pre-wrap break-words">{f.format(p)}</span>
+                  ))}
+                </React.Fragment>
+              ))}
+            </React.Fragment>
+          ))}
+          <div className="text-sm">{t("field.soLuong")}</div>
+          {items.map((p) => <div key={p.id} className="text-sm p-2 tabular-nums">{formatNumber(p.soLuong)}</div>)}
+        </div>
+        <div className="text-sm">{t("merge.total", { count: formatNumber(total) })}</div>
+        {withVariants && <div className="text-sm text-red-600">{t("merge.hasVariants", { name: withVariants.ten })}</div>}
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        <div className="flex justify-end gap-2">
+          <Link to="/" className="px-3 py-2 rounded-xl border border-zinc-300">{t("common.cancel")}</Link>
+          <Button type="button" className="bg-indigo-600 text-white" disabled={!!withVariants} onClick={submit}>
+            {t("merge.submit", { name: kept.ten })}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+/*******************
+ * Import / Export *
+ *******************/
+
+// dacTinh holds the custom attributes as a JSON object
+const CSV_COLUMNS = ["id", "ten", "danhMuc", "gia", "soLuong", "moTa", "nguongDatHang", "dacTinh", "maVach"] as const;
+const OPTIONAL_CSV_COLUMNS: readonly string[] = ["id", "nguongDatHang", "dacTinh", "maVach"];
+
+// Spreadsheets run text starting with one of these as a formula (e.g. =HYPERLINK(...)).
+// Such text is exported behind a ' so it stays text, and the ' is dropped again on import.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (v: string | number) => {
+  const s = typeof v === "string" && FORMULA_START.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const csvText = (cell: string) => (cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell);
+
+const toCSV = (products: Product[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...products.map((p) =>
+      CSV_COLUMNS.map((c) => csvCell(c !== "dacTinh" ? p[c] : Object.keys(p.dacTinh).length ? JSON.stringify(p.dacTinh) : "")).join(","),
+    ),
+  ].join("\r\n");
+
+// RFC 4180 parser: quoted fields, escaped quotes, embedded newlines, CRLF or LF
+const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") { row.push(cell); cell = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell); rows.push(row); row = []; cell = "";
+    } else cell += ch;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+};
+
+// JSON backups embed the image bytes as data URLs so a catalogue can be restored in another browser
+type EmbeddedImage = ProductImage & { duLieu?: string; duLieuNho?: string };
+
+const isEmbeddedImage = (x: unknown): x is EmbeddedImage =>
+  isProductImage(x) &&
+  [(x as EmbeddedImage).duLieu, (x as EmbeddedImage).duLieuNho].every((d) => d === undefined || (typeof d === "string" && d.startsWith("data:image/")));
+
+const stripImageData = ({ id, ten, rong, cao }: EmbeddedImage): ProductImage => ({ id, ten, rong, cao });
+
+const embedImages = (products: Product[]) =>
+  Promise.all(
+    products.map(async (p) => ({
+      ...p,
+      hinhAnh: await Promise.all(
+        p.hinhAnh.map(async (img): Promise<EmbeddedImage> => {
+          const stored = await getImage(img.id).catch(() => undefined);
+          return stored ? { ...img, duLieu: await blobToDataUrl(stored.full), duLieuNho: await blobToDataUrl(stored.thumb) } : img;
+        }),
+      ),
+    })),
+  );
+
+// Images without embedded bytes keep whatever this browser already has under their id
+const restoreImages = async (images: EmbeddedImage[]) => {
+  const stored = await Promise.all(
+    images
+      .filter((img) => img.duLieu && img.duLieuNho)
+      .map(async (img) => ({ id: img.id, full: await dataUrlToBlob(img.duLieu!), thumb: await dataUrlToBlob(img.duLieuNho!) })),
+  );
+  if (stored.length) await putImages(stored);
+};
+
+type ImportRow = {
+  line: number;
+  values: FormValues;
+  id?: number;
+  lichSuKho?: StockMovement[]; // only JSON backups carry a ledger, images and variants
+  hinhAnh?: EmbeddedImage[];
+  thuocTinh?: OptionAxis[];
+  bienThe?: Variant[];
+  lichSuGia?: PriceEntry[];
+  giaHenGio?: ScheduledPrice[];
+  khuyenMai?: SalePrice | null;
+  idCu?: number[];
+  errors: string[];
+};
+
+// `catalogue` is what the file lands on: the current products when merging, nothing when replacing
+const toImportRow = (line: number, rec: Record<string, unknown>, categories: Category[], catalogue: Product[]): ImportRow => {
+  const str = (k: string) => (rec[k] == null ? "" : String(rec[k]).trim());
+  const values: FormValues = {
+    ten: str("ten"),
+    danhMuc: str("danhMuc") as DanhMuc,
+    gia: str("gia"),
+    soLuong: str("soLuong"),
+    moTa: str("moTa"),
+    nguongDatHang: str("nguongDatHang"),
+    dacTinh: {},
+    maVach: str("maVach"),
+  };
+  const errors: string[] = [];
+  // An object in JSON backups, JSON text in a CSV cell
+  try {
+    const raw = typeof rec.dacTinh === "string" ? (rec.dacTinh.trim() ? JSON.parse(rec.dacTinh) as unknown : {}) : rec.dacTinh ?? {};
+    if (!isRecord(raw) || !Object.values(raw).every((v) => typeof v === "string" || Number.isFinite(v))) throw new Error();
+    values.dacTinh = attributeDrafts(raw as Product["dacTinh"]);
+  } catch {
+    errors.push(t("import.badAttributes"));
+  }
+  const rawId = str("id");
+  const id = rawId ? Number(rawId) : undefined;
+  // A row with an existing id overwrites that product, so only the others' codes are taken
+  const takenCodes = new Set(
+    catalogue.filter((p) => p.id !== id).flatMap((p) => [p.maVach, ...p.bienThe.map((b) => b.sku)]).filter(Boolean).map(codeKey),
+  );
+  errors.push(...Object.values(validate(values, categories, takenCodes)));
+  if (id != null && (!Number.isInteger(id) || id <= 0)) errors.push(t("import.badId"));
+  let lichSuKho: StockMovement[] | undefined;
+  if (rec.lichSuKho !== undefined) {
+    if (Array.isArray(rec.lichSuKho) && rec.lichSuKho.every(isMovement)) lichSuKho = rec.lichSuKho;
+    else errors.push(t("import.badLedger"));
+  }
+  let hinhAnh: EmbeddedImage[] | undefined;
+  if (rec.hinhAnh !== undefined) {
+    if (Array.isArray(rec.hinhAnh) && rec.hinhAnh.length <= MAX_IMAGES && rec.hinhAnh.every(isEmbeddedImage)) hinhAnh = rec.hinhAnh;
+    else errors.push(t("import.badImages"));
+  }
+  let thuocTinh: OptionAxis[] | undefined;
+  let bienThe: Variant[] | undefined;
+  if (rec.bienThe !== undefined || rec.thuocTinh !== undefined) {
+    const axes = Array.isArray(rec.thuocTinh) && rec.thuocTinh.every(isOptionAxis) ? rec.thuocTinh : null;
+    if (axes && Array.isArray(rec.bienThe) && rec.bienThe.every((v) => isVariant(v, axes.length))) {
+      thuocTinh = axes;
+      bienThe = rec.bienThe;
+      const seen = new Set<string>();
+      for (const b of bienThe) {
+        const sku = codeKey(b.sku);
+        if (seen.has(sku) || takenCodes.has(sku)) errors.push(t("variants.skuTaken", { variant: b.giaTri.join(" / "), sku: b.sku.trim() }));
+        seen.add(sku);
+      }
+    } else errors.push(t("import.badVariants"));
+  }
+  let lichSuGia: PriceEntry[] | undefined;
+  if (rec.lichSuGia !== undefined) {
+    if (Array.isArray(rec.lichSuGia) && rec.lichSuGia.every(isPriceEntry)) lichSuGia = rec.lichSuGia;
+    else errors.push(t("import.badPrices"));
+  }
+  let giaHenGio: ScheduledPrice[] | undefined;
+  if (rec.giaHenGio !== undefined) {
+    if (Array.isArray(rec.giaHenGio) && rec.giaHenGio.every(isScheduledPrice)) giaHenGio = rec.giaHenGio;
+    else errors.push(t("import.badPrices"));
+  }
+  let khuyenMai: SalePrice | null | undefined;
+  if (rec.khuyenMai !== undefined) {
+    if (rec.khuyenMai === null || isSalePrice(rec.khuyenMai)) khuyenMai = rec.khuyenMai;
+    else errors.push(t("import.badPrices"));
+  }
+  let idCu: number[] | undefined;
+  if (rec.idCu !== undefined) {
+    if (Array.isArray(rec.idCu) && rec.idCu.every((x) => Number.isInteger(x) && x > 0)) idCu = rec.idCu;
+    else errors.push(t("import.badMergedIds"));
+  }
+  return { line, values, id, lichSuKho, hinhAnh, thuocTinh, bienThe, lichSuGia, giaHenGio, khuyenMai, idCu, errors };
+};
+
+// A code may appear only once in a file; later rows that repeat it are rejected
+const flagDuplicateCodes = (rows: ImportRow[]) => {
+  const seen = new Map<string, number>();
+  for (const r of rows) {
+    if (!r.values.maVach) continue;
+    const key = codeKey(r.values.maVach);
+    const first = seen.get(key);
+    if (first === undefined) seen.set(key, r.line);
+    else r.errors.push(t("import.duplicateCode", { code: r.values.maVach, line: first }));
+  }
+  return rows;
+};
+
+const parseImportFile = (name: string, text: string, categories: Category[], catalogue: Product[]): ImportRow[] => {
+  const body = text.replace(/^\uFEFF/, "");
+  if (name.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(body)) {
+    const data = JSON.parse(body) as unknown;
+    const list = Array.isArray(data) ? data : (data as { products?: unknown }).products;
+    if (!Array.isArray(list)) throw new Error(t("import.notArray"));
+    return flagDuplicateCodes(list.map((rec, i) => toImportRow(i + 1, (rec ?? {}) as Record<string, unknown>, categories, catalogue)));
+  }
+  const [header, ...rows] = parseCSV(body);
+  if (!header) throw new Error(t("import.emptyCsv"));
+  const cols = header.map((h) => h.trim());
+  const missing = CSV_COLUMNS.filter((c) => !OPTIONAL_CSV_COLUMNS.includes(c) && !cols.includes(c));
+  if (missing.length) throw new Error(t("import.missingColumns", { columns: missing.join(", ") }));
+  // line numbers are 1-based and count the header row
+  return flagDuplicateCodes(rows.map((r, i) => toImportRow(i + 2, Object.fromEntries(cols.map((c, j) => [c, csvText(r[j] ?? "")])), categories, catalogue)));
+};
+
+const download = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking right away cancels the download in some browsers (Safari, older Firefox)
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// CSV carries the plain fields only; JSON is a full backup including ledger and images
+const exportProducts = async (products: Product[], format: "csv" | "json") => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  if (format === "csv") {
+    // BOM so Excel opens the file as UTF-8 and keeps Vietnamese diacritics intact
+    download(`products-${stamp}.csv`, "\uFEFF" + toCSV(products), "text/csv;charset=utf-8");
+  } else {
+    download(`products-${stamp}.json`, JSON.stringify(await embedImages(products), null, 2), "application/json;charset=utf-8");
+  }
+};
+
+const ExportButtons: React.FC<{ products: Product[]; label?: string }> = ({ products, label }) => {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const exportJson = async () => {
+    setBusy(true);
+    try {
+      await exportProducts(products, "json");
+    } finally {
+      setBusy(false);
+    }
+  };
+  return (
+    <div className="flex gap-2">
+      <Button type="button" disabled={!products.length} onClick={() => void exportProducts(products, "csv")}>{label ?? t("export.label")} CSV</Button>
+      <Button type="button" disabled={!products.length || busy} onClick={() => void exportJson()} title={t("export.jsonHint")}>
+        {busy ? t("export.packing") : `${label ?? t("export.label")} JSON`}
+      </Button>
+    </div>
+  );
+};
+
+// Export is open to everyone who can browse; import needs the "import" permission
+const ImportExportPage: React.FC = () => {
+  const { products, categories, importMany } = useProducts();
+  const { can } = useAuth();
+  const { t } = useI18n();
+  const nav = useNavigate();
+  const [fileName, setFileName] = useState("");
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [error, setError] = useState("");
+  const [mode, setMode] = useState<ImportMode>("merge");
+  // Re-checked when the mode or catalogue changes, since both decide which codes are taken
+  const parsed = useMemo(() => {
+    if (!file) return { rows: null, error: "" };
+    try {
+      return { rows: parseImportFile(file.name, file.text, categories, mode === "merge" ? products : []), error: "" };
+    } catch (err) {
+      return { rows: null, error: err instanceof Error ? err.message : t("import.unreadable") };
+    }
+  }, [file, categories, products, mode, t]);
+  const rows = parsed.rows;
+
+  const valid = rows?.filter((r) => !r.errors.length) ?? [];
+  const invalid = rows?.filter((r) => r.errors.length) ?? [];
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    setFile(null);
+    setError("");
+    if (!picked) return;
+    setFileName(picked.name);
+    try {
+      setFile({ name: picked.name, text: await picked.text() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("import.unreadable"));
+    }
+  };
+
+  const onImport = async () => {
+    const msg = mode === "replace"
+      ? t("import.confirmReplace", { count: products.length, incoming: valid.length })
+      : t("import.confirmMerge", { count: valid.length });
+    if (!confirm(msg)) return;
+    try {
+      await restoreImages(valid.flatMap((r) => r.hinhAnh ?? []));
+    } catch (err) {
+      setError(t("import.imagesFailed", { error: errorMessage(err) }));
+      return;
+    }
+    importMany(
+      valid.map((r) => ({
+        id: r.id,
+        ten: r.values.ten,
+        danhMuc: r.values.danhMuc as DanhMuc,
+        gia: Number(r.values.gia),
+        soLuong: Number(r.values.soLuong),
+        moTa: r.values.moTa,
+        nguongDatHang: Number(r.values.nguongDatHang || 0),
+        lichSuKho: r.lichSuKho,
+        hinhAnh: r.hinhAnh?.map(stripImageData),
+        thuocTinh: r.thuocTinh,
+        bienThe: r.bienThe,
+        dacTinh: parseAttributes(attributesFor(categories, r.values.danhMuc), r.values.dacTinh),
+        maVach: r.values.maVach,
+        lichSuGia: r.lichSuGia,
+        giaHenGio: r.giaHenGio,
+        khuyenMai: r.khuyenMai,
+        idCu: r.idCu,
+      })),
+      mode,
+    );
+    nav("/");
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-3">{t(can("import") ? "import.title" : "export.title")}</h2>
+
+      <Card className="mb-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm text-zinc-500">
+            {t("export.all", { count: products.length })}
+            <div className="text-xs">{t("export.formats")}</div>
+          </div>
+          <ExportButtons products={products} />
+        </div>
+      </Card>
+
+      {can("import") && (
+        <Card>
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm text-zinc-500">{t("import.chooseFile")}</label>
+              <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={onFile} />
+              <div className="text-xs text-zinc-500 mt-1">{t("import.columns", { columns: CSV_COLUMNS.join(", "), optional: OPTIONAL_CSV_COLUMNS.join(", ") })}</div>
+            </div>
+            {(error || parsed.error) && <div className="text-sm text-red-600">{fileName}: {error || parsed.error}</div>}
+
+            {rows && (
+              <>
+                <div className="text-sm">
+                  {t("import.rows", { count: rows.length })} • <span className="text-green-700">{t("import.valid", { count: valid.length })}</span>
+                  {invalid.length > 0 && <> • <span className="text-red-600">{t("import.invalid", { count: invalid.length })}</span></>}
+                </div>
+                <div className="overflow-x-auto max-h-96 border rounded-xl border-zinc-200 dark:border-zinc-800">
+                  <table className="w-full text-sm">
+                    <thead className="bg-zinc-100 dark:bg-zinc-800 text-left sticky top-0">
+                      <tr>
+                        <th className="p-2">{t("import.line")}</th>
+                        <th className="p-2">ID</th>
+                        <th className="p-2">{t("field.ten")}</th>
+                        <th className="p-2">{t("field.danhMuc")}</th>
+                        <th className="p-2 text-right">{t("field.gia")}</th>
+                        <th className="p-2 text-right">{t("import.qty")}</th>
+                        <th className="p-2 text-right">{t("import.images")}</th>
+                        <th className="p-2">{t("import.status")}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((r) => (
+                        <tr key={r.line} className={`border-t border-zinc-200 dark:border-zinc-800 ${r.errors.length ? "bg-red-50 dark:bg-red-950/30" : ""}`}>
+                          <td className="p-2">{r.line}</td>
+                          <td className="p-2">{r.id ?? "—"}</td>
+                          <td className="p-2">{r.values.ten}</td>
+                          <td className="p-2">{r.values.danhMuc}</td>
+                          <td className="p-2 text-right">{r.values.gia}</td>
+                          <td className="p-2 text-right">{r.values.soLuong}</td>
+                          <td className="p-2 text-right">{r.hinhAnh?.length ?? "—"}</td>
+                          <td className="p-2">
+                            {r.errors.length
+                              ? <ul className="text-red-600 text-xs list-disc pl-4">{r.errors.map((e) => <li key={e}>{e}</li>)}</ul>
+                              : <span className="text-green-700">OK</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <label className="flex items-center gap-1">
+                    <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+                    {t("import.merge")}
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+                    {t("import.replace")}
+                  </label>
+                </div>
+                <div className="flex gap-2">
+                  <Button className="bg-indigo-600 text-white" disabled={!valid.length} onClick={() => void onImport()}>
+                    {t("import.submit", { count: valid.length })}
+                  </Button>
+                  <Link to="/" className="px-3 py-2 rounded-xl border border-zinc-300">{t("common.cancel")}</Link>
+                </div>
+              </>
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+/*****************
+ * Stock Ledger  *
+ *****************/
+
+const StockMovementForm: React.FC<{ product: Product }> = ({ product }) => {
+  const { recordMovement } = useProducts();
+  const { t } = useI18n();
+  const [bienTheId, setBienTheId] = useState("");
+  const [loai, setLoai] = useState<MovementType>("receipt");
+  const [qty, setQty] = useState("");
+  const [lyDo, setLyDo] = useState("");
+  const [error, setError] = useState("");
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const n = Number(qty);
+    if (!qty || !Number.isInteger(n) || n === 0 || (loai !== "adjustment" && n < 0)) {
+      setError(loai === "adjustment" ? t("stock.enterNonZero") : t("stock.enterPositive"));
+      return;
+    }
+    if (!lyDo.trim()) {
+      setError(t("stock.reasonRequired"));
+      return;
+    }
+    const problem = recordMovement(product.id, loai, n, lyDo, bienTheId || undefined);
+    setError(problem ?? "");
+    if (!problem) {
+      setQty("");
+      setLyDo("");
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+      {product.bienThe.length > 0 && (
+        <div className="md:col-span-4">
+          <label className="text-xs text-zinc-500">{t("field.bienThe")}</label>
+          <Select value={bienTheId} onChange={(e) => setBienTheId(e.target.value)}>
+            <option value="">{t("stock.chooseVariantOption")}</option>
+            {product.bienThe.map((b) => <option key={b.id} value={b.id}>{t("stock.variantOption", { name: variantLabel(b), sku: b.sku, count: b.soLuong })}</option>)}
+          </Select>
+        </div>
+      )}
+      <div>
+        <label className="text-xs text-zinc-500">{t("stock.type")}</label>
+        <Select value={loai} onChange={(e) => setLoai(e.target.value as MovementType)}>
+          {MOVEMENT_TYPES.map((x) => <option key={x.value} value={x.value}>{t(x.label)}</option>)}
+        </Select>
+      </div>
+      <div>
+        <label className="text-xs text-zinc-500">{t("field.soLuong")}</label>
+        <Input type="number" value={qty} onChange={(e) => setQty(e.target.value)} />
+      </div>
+      <div>
+        <label className="text-xs text-zinc-500">{t("stock.reason")}</label>
+        <Input value={lyDo} onChange={(e) => setLyDo(e.target.value)} />
+      </div>
+      <Button type="submit" className="bg-indigo-600 text-white">{t("stock.record")}</Button>
+      {error && <div className="md:col-span-4 text-xs text-red-600">{error}</div>}
+    </form>
+  );
+};
+
+const StockHistory: React.FC<{ product: Product }> = ({ product }) => {
+  const { t } = useI18n();
+  // Running balance after each movement, oldest first
+  const rows = useMemo(() => {
+    let balance = 0;
+    return [...product.lichSuKho]
+      .sort((a, b) => a.thoiGian.localeCompare(b.thoiGian))
+      .map((m) => ({ ...m, balance: (balance += m.soLuong) }));
+  }, [product.lichSuKho]);
+  const typeLabel = (loai: MovementType) => {
+    const type = MOVEMENT_TYPES.find((x) => x.value === loai);
+    return type ? t(type.label) : loai;
+  };
+  const variantOf = (id?: string) => product.bienThe.find((b) => b.id === id);
+
+  return (
+    <div className="space-y-4">
+      <LineChart
+        step
+        points={rows.map((r) => ({ x: Date.parse(r.thoiGian), y: r.balance, label: `${formatDateTime(r.thoiGian)}: ${r.balance}` }))}
+        formatX={(x) => formatDate(x)}
+        guide={product.nguongDatHang > 0 ? { y: product.nguongDatHang, label: t("stock.threshold", { count: product.nguongDatHang }) } : undefined}
+      />
+      <div className="overflow-x-auto max-h-80">
+        <table className="w-full text-sm">
+          <thead className="text-left text-zinc-500">
+            <tr>
+              <th className="p-2">{t("stock.time")}</th>
+              <th className="p-2">{t("stock.type")}</th>
+              <th className="p-2 text-right">{t("stock.change")}</th>
+              <th className="p-2 text-right">{t("stock.balance")}</th>
+              <th className="p-2">{t("stock.reason")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...rows].reverse().map((r) => (
+              <tr key={r.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                <td className="p-2 whitespace-nowrap">{formatDateTime(r.thoiGian)}</td>
+                <td className="p-2">{typeLabel(r.loai)}</td>
+                <td className={`p-2 text-right ${r.soLuong < 0 ? "text-red-600" : "text-green-700"}`}>{r.soLuong > 0 ? "+" : ""}{r.soLuong}</td>
+                <td className="p-2 text-right">{r.balance}</td>
+                <td className="p-2">
+                  {r.lyDo}
+                  {variantOf(r.bienTheId) && <span className="ml-1 text-xs text-zinc-500">· {variantLabel(variantOf(r.bienTheId)!)}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// Price changes so far as a step chart (carried on to today), with upcoming scheduled
+// prices and the sale listed above the past ones
+const PriceHistory: React.FC<{ product: Product }> = ({ product }) => {
+  const { t } = useI18n();
+  const sale = product.khuyenMai;
+  const history = product.lichSuGia;
+  const points = [...history, ...(history.length ? [{ ...history[history.length - 1], thoiGian: new Date().toISOString() }] : [])]
+    .map((e) => ({ x: Date.parse(e.thoiGian), y: e.gia, label: `${formatDateTime(e.thoiGian)}: ${formatMoney(e.gia)}` }));
+  const onSale = activeSale(product);
+
+  return (
+    <div className="space-y-4">
+      <LineChart
+        step
+        points={points}
+        formatX={(x) => formatDate(x)}
+        formatY={(y) => formatNumber(y)}
+        guide={onSale ? { y: onSale.gia, label: t("prices.saleGuide", { price: formatMoney(onSale.gia) }) } : undefined}
+      />
+      <div className="overflow-x-auto max-h-80">
+        <table className="w-full text-sm">
+          <thead className="text-left text-zinc-500">
+            <tr>
+              <th className="p-2">{t("prices.when")}</th>
+              <th className="p-2 text-right">{t("field.gia")}</th>
+              <th className="p-2">{t("prices.kind")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sale && (
+              <tr className="border-t border-zinc-200 dark:border-zinc-800">
+                <td className="p-2 whitespace-nowrap">{formatDay(sale.tuNgay)} – {formatDay(sale.denNgay)}</td>
+                <td className="p-2 text-right text-rose-600">{formatMoney(sale.gia)}</td>
+                <td className="p-2">{onSale ? t("prices.saleNow") : t("prices.saleUpcoming")}</td>
+              </tr>
+            )}
+            {[...product.giaHenGio].reverse().map((s) => (
+              <tr key={s.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                <td className="p-2 whitespace-nowrap">{formatDay(s.tuNgay)}</td>
+                <td className="p-2 text-right">{formatMoney(s.gia)}</td>
+                <td className="p-2 text-zinc-500">{t("prices.scheduled")}</td>
+              </tr>
+            ))}
+            {[...history].reverse().map((e, i) => (
+              <tr key={e.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                <td className="p-2 whitespace-nowrap">{formatDateTime(e.thoiGian)}</td>
+                <td className="p-2 text-right">{formatMoney(e.gia)}</td>
+                <td className="p-2 text-zinc-500">{i === 0 ? t("prices.current") : ""}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+/*********************
+ * Category Manager  *
+ *********************/
+
+// Form-side shape of an AttributeDef; a new attribute has no key until it is saved
+type AttributeDraft = {
+  khoa: string;
+  ten: string;
+  kieu: AttributeKind;
+  batBuoc: boolean;
+  donVi: string;
+  min: string;
+  max: string;
+  luaChon: string; // comma-separated
+  mau: string;
+};
+
+const toAttributeDraft = (d: AttributeDef): AttributeDraft => ({
+  khoa: d.khoa,
+  ten: d.ten,
+  kieu: d.kieu,
+  batBuoc: d.batBuoc,
+  donVi: d.donVi ?? "",
+  min: d.min?.toString() ?? "",
+  max: d.max?.toString() ?? "",
+  luaChon: d.luaChon?.join(", ") ?? "",
+  mau: d.mau ?? "",
+});
+
+// Only the settings that apply to the chosen kind are kept
+const fromAttributeDraft = (d: AttributeDraft, taken: Set<string>): AttributeDef => {
+  const khoa = d.khoa || attributeKey(d.ten, taken);
+  taken.add(khoa);
+  const def: AttributeDef = { khoa, ten: d.ten.trim(), kieu: d.kieu, batBuoc: d.batBuoc };
+  if (d.kieu === "number") {
+    if (d.donVi.trim()) def.donVi = d.donVi.trim();
+    if (d.min.trim()) def.min = Number(d.min);
+    if (d.max.trim()) def.max = Number(d.max);
+  }
+  if (d.kieu === "select") def.luaChon = [...new Set(d.luaChon.split(",").map((o) => o.trim()).filter(Boolean))];
+  if (d.kieu === "text" && d.mau.trim()) def.mau = d.mau.trim();
+  return def;
+};
+
+const AttributeSchemaEditor: React.FC<{ category: Category; onDone: () => void }> = ({ category, onDone }) => {
+  const { categories, setCategoryAttributes } = useProducts();
+  const { t } = useI18n();
+  const [drafts, setDrafts] = useState(() => category.dacTinh.map(toAttributeDraft));
+  const [error, setError] = useState("");
+  const inherited = attributesFor(categories, category.ten).filter((d) => !category.dacTinh.includes(d));
+  const patch = (i: number, p: Partial<AttributeDraft>) => setDrafts((ds) => ds.map((d, j) => (j === i ? { ...d, ...p } : d)));
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    const taken = new Set(categories.flatMap((c) => c.dacTinh.map((d) => d.khoa)));
+    const problem = setCategoryAttributes(category.id, drafts.map((d) => fromAttributeDraft(d, taken)));
+    setError(problem ?? "");
+    if (!problem) onDone();
+  };
+
+  return (
+    <form onSubmit={save} className="mt-2 space-y-2 text-sm">
+      {inherited.length > 0 && (
+        <div className="text-xs text-zinc-500">{t("attributes.inherited", { names: inherited.map((d) => d.ten).join(", ") })}</div>
+      )}
+      {drafts.length === 0 && <div className="text-xs text-zinc-500">{t("attributes.none")}</div>}
+      {drafts.map((d, i) => (
+        <div key={i} className="rounded-xl border border-zinc-200 dark:border-zinc-700 p-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input className="!w-48" placeholder={t("attributes.name")} value={d.ten} onChange={(e) => patch(i, { ten: e.target.value })} />
+            <Select className="!w-36" value={d.kieu} onChange={(e) => patch(i, { kieu: e.target.value as AttributeKind })}>
+              {ATTRIBUTE_KINDS.map((k) => <option key={k.value} value={k.value}>{t(k.label)}</option>)}
+            </Select>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={d.batBuoc} onChange={(e) => patch(i, { batBuoc: e.target.checked })} />
+              {t("attributes.required")}
+            </label>
+            <Button type="button" className="ml-auto" aria-label={t("attributes.remove", { name: d.ten })} onClick={() => setDrafts((ds) => ds.filter((_, j) => j !== i))}>✕</Button>
+          </div>
+          {d.kieu === "number" && (
+            <div className="flex flex-wrap gap-2">
+              <Input className="!w-32" placeholder={t("attributes.unit")} value={d.donVi} onChange={(e) => patch(i, { donVi: e.target.value })} />
+              <Input className="!w-32" type="number" step="any" placeholder={t("attributes.min")} value={d.min} onChange={(e) => patch(i, { min: e.target.value })} />
+              <Input className="!w-32" type="number" step="any" placeholder={t("attributes.max")} value={d.max} onChange={(e) => patch(i, { max: e.target.value })} />
+            </div>
+          )}
+          {d.kieu === "select" && (
+            <Input placeholder={t("attributes.options")} value={d.luaChon} onChange={(e) => patch(i, { luaChon: e.target.value })} />
+          )}
+          {d.kieu === "text" && (
+            <Input placeholder={t("attributes.pattern")} value={d.mau} onChange={(e) => patch(i, { mau: e.target.value })} />
+          )}
+        </div>
+      ))}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          onClick={() => setDrafts((ds) => [...ds, { khoa: "", ten: "", kieu: "text", batBuoc: false, donVi: "", min: "", max: "", luaChon: "", mau: "" }])}
+        >
+          + {t("attributes.add")}
+        </Button>
+        <Button type="submit" className="bg-indigo-600 text-white">{t("common.save")}</Button>
+        <Button type="button" onClick={onDone}>{t("common.cancel")}</Button>
+      </div>
+    </form>
+  );
+};
+
+const CategoryRow: React.FC<{
+  category: Category;
+  depth: number;
+  direct: number;
+  total: number;
+}> = ({ category, depth, direct, total }) => {
+  const { categories, renameCategory, moveCategory, deleteCategory } = useProducts();
+  const { t } = useI18n();
+  const [mode, setMode] = useState<"view" | "rename" | "delete" | "attributes">("view");
+  const [name, setName] = useState(category.ten);
+  const [target, setTarget] = useState("");
+  const [error, setError] = useState("");
+
+  const done = (problem: string | null) => {
+    setError(problem ?? "");
+    if (!problem) setMode("view");
+  };
+
+  return (
+    <li className="py-2 border-t border-zinc-200 dark:border-zinc-800 first:border-t-0">
+      <div className="flex flex-wrap items-center gap-2" style={{ paddingLeft: depth * 24 }}>
+        {mode === "rename" ? (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              done(renameCategory(category.id, name));
+            }}
+          >
+            <Input className="!w-56" autoFocus value={name} onChange={(e) => setName(e.target.value)} />
+            <Button type="submit" className="bg-indigo-600 text-white">{t("common.save")}</Button>
+            <Button type="button" onClick={() => { setName(category.ten); setMode("view"); setError(""); }}>{t("common.cancel")}</Button>
+          </form>
+        ) : (
+          <span className="font-medium">{category.ten}</span>
+        )}
+        <span className="text-xs text-zinc-500">
+          {t("categories.count", { count: direct })}
+          {total !== direct && ` ${t("categories.totalCount", { count: total })}`}
+        </span>
+        {mode === "view" && (
+          <div className="ml-auto flex gap-1">
+            <Button aria-label={t("categories.up")} onClick={() => moveCategory(category.id, -1)}>↑</Button>
+            <Button aria-label={t("categories.down")} onClick={() => moveCategory(category.id, 1)}>↓</Button>
+            <Button onClick={() => setMode("rename")}>{t("categories.rename")}</Button>
+            <Button onClick={() => setMode("attributes")}>{t("categories.attributes", { count: category.dacTinh.length })}</Button>
+            <Button className="text-red-600 border-red-300" onClick={() => setMode("delete")}>{t("common.delete")}</Button>
+          </div>
+        )}
+      </div>
+      {mode === "attributes" && (
+        <div style={{ paddingLeft: depth * 24 }}>
+          <AttributeSchemaEditor category={category} onDone={() => setMode("view")} />
+        </div>
+      )}
+      {mode === "delete" && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-sm" style={{ paddingLeft: depth * 24 }}>
+          {direct > 0 ? (
+            <>
+              <span>{t("categories.moveTo", { count: direct })}</span>
+              <Select className="!w-56" value={target} onChange={(e) => setTarget(e.target.value)}>
+                <option value="">{t("form.chooseCategory")}</option>
+                {categoryTree(categories)
+                  .filter(({ category: c }) => c.id !== category.id)
+                  .map(({ category: c, depth: d }) => (
+                    <option key={c.id} value={c.ten}>{"\u00a0\u00a0".repeat(d) + c.ten}</option>
+                  ))}
+              </Select>
+            </>
+          ) : (
+            <span>{t("categories.confirmDelete", { name: category.ten })}</span>
+          )}
+          <span className="text-xs text-zinc-500">{t("categories.childrenMoveUp")}</span>
+          <Button className="text-red-600 border-red-300" onClick={() => done(deleteCategory(category.id, target || null))}>{t("categories.deleteConfirm")}</Button>
+          <Button onClick={() => { setMode("view"); setError(""); }}>{t("common.cancel")}</Button>
+        </div>
+      )}
+      {error && <div className="text-xs text-red-600 mt-1" style={{ paddingLeft: depth * 24 }}>{error}</div>}
+    </li>
+  );
+};
+
+const CategoriesPage: React.FC = () => {
+  const { products, categories, addCategory } = useProducts();
+  const { t } = useI18n();
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState("");
+  const [error, setError] = useState("");
+
+  const tree = categoryTree(categories);
+  const directCount = useMemo(() => {
+    const m = new Map<DanhMuc, number>();
+    products.forEach((p) => m.set(p.danhMuc, (m.get(p.danhMuc) ?? 0) + 1));
+    return m;
+  }, [products]);
+  const totalCount = (ten: DanhMuc) =>
+    [...categoryNamesUnder(categories, ten)].reduce((n, name) => n + (directCount.get(name) ?? 0), 0);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = addCategory(name, parentId || null);
+    setError(problem ?? "");
+    if (!problem) setName("");
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-3">{t("categories.title")}</h2>
+      <Card className="mb-4">
+        <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div>
+            <label className="text-sm text-zinc-500">{t("categories.newName")}</label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm text-zinc-500">{t("categories.parent")}</label>
+            <Select value={parentId} onChange={(e) => setParentId(e.target.value)}>
+              <option value="">{t("categories.topLevel")}</option>
+              {tree.map(({ category, depth }) => (
+                <option key={category.id} value={category.id}>{"\u00a0\u00a0".repeat(depth) + category.ten}</option>
+              ))}
+            </Select>
+          </div>
+          <Button type="submit" className="bg-indigo-600 text-white">+ {t("categories.add")}</Button>
+          {error && <div className="md:col-span-3 text-xs text-red-600">{error}</div>}
+        </form>
+      </Card>
+      <Card>
+        {tree.length === 0 ? (
+          <div className="text-center text-zinc-500">{t("categories.empty")}</div>
+        ) : (
+          <ul>
+            {tree.map(({ category, depth }) => (
+              <CategoryRow
+                key={category.id}
+                category={category}
+                depth={depth}
+                direct={directCount.get(category.ten) ?? 0}
+                total={totalCount(category.ten)}
+              />
+            ))}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
 };
 
-const CATEGORIES: DanhMuc[] = ["Điện tử", "Quần áo", "Đồ ăn", "Sách", "Khác"];
-const PAGE_SIZE = 6;
+/*************
+ * Audit UI  *
+ *************/
 
-/******************************
- * Sample data (>= 10 items)  *
- ******************************/
-const initialProducts: Product[] = [
-  { id: 1, ten: "iPhone 15 Pro", danhMuc: "Điện tử", gia: 25000000, soLuong: 10, moTa: "Flagship Apple, chip A17 Pro." },
-  { id: 2, ten: "Áo Thun Nam", danhMuc: "Quần áo", gia: 150000, soLuong: 50, moTa: "Cotton 100%, form regular fit." },
-  { id: 3, ten: "Bánh Mì Bơ Tỏi", danhMuc: "Đồ ăn", gia: 35000, soLuong: 120, moTa: "Giòn thơm, làm mới mỗi ngày." },
-  { id: 4, ten: "Sách Dạy Nấu Ăn", danhMuc: "Sách", gia: 99000, soLuong: 40, moTa: "Tuyển tập công thức dễ làm." },
-  { id: 5, ten: "Tai Nghe Bluetooth", danhMuc: "Điện tử", gia: 790000, soLuong: 35, moTa: "Bluetooth 5.3, chống ồn chủ động." },
-  { id: 6, ten: "Quần Jean Slim", danhMuc: "Quần áo", gia: 399000, soLuong: 28, moTa: "Denim co giãn, xanh đậm." },
-  { id: 7, ten: "Cơm Gà Xối Mỡ", danhMuc: "Đồ ăn", gia: 45000, soLuong: 60, moTa: "Suất ăn nóng, gà giòn rụm." },
-  { id: 8, ten: "Sách Kinh Tế Học", danhMuc: "Sách", gia: 159000, soLuong: 22, moTa: "Nhập môn kinh tế (bản mới)." },
-  { id: 9, ten: "Bình Giữ Nhiệt", danhMuc: "Khác", gia: 199000, soLuong: 45, moTa: "Giữ nóng/lạnh 6-8h, 500ml." },
-  { id: 10, ten: "Chuột Không Dây", danhMuc: "Điện tử", gia: 259000, soLuong: 70, moTa: "2.4G + BT, DPI 800-1600-2400." },
-  { id: 11, ten: "Áo Khoác Hoodie", danhMuc: "Quần áo", gia: 499000, soLuong: 15, moTa: "Nỉ dày, có mũ, unisex." },
+const AUDIT_ACTION_STYLES: Record<AuditAction, { label: MessageKey; className: string }> = {
+  create: { label: "audit.create", className: "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200" },
+  update: { label: "audit.update", className: "bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-200" },
+  delete: { label: "audit.delete", className: "bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200" },
+};
+
+const fieldLabel = (key: keyof Product) => {
+  const field = AUDIT_FIELDS.find((f) => f.key === key);
+  return field ? t(field.label) : key;
+};
+
+// Entries are shown in the order given (callers pass newest first)
+const AuditTrail: React.FC<{ entries: AuditEntry[]; showProduct?: boolean }> = ({ entries, showProduct = false }) => {
+  const { products, restoreVersion } = useProducts();
+  const { can } = useAuth();
+  const { t } = useI18n();
+  const [error, setError] = useState("");
+  if (!entries.length) return <div className="text-sm text-zinc-500">{t("audit.empty")}</div>;
+  return (
+    <div>
+      {error && <div className="text-sm text-red-600 mb-2">{error}</div>}
+      <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+        {entries.map((e) => {
+          const exists = products.some((p) => p.id === e.productId);
+          const style = AUDIT_ACTION_STYLES[e.action];
+          return (
+            <li key={e.id} className="py-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`text-xs px-2 py-0.5 rounded-full ${style.className}`}>{t(style.label)}</span>
+                {showProduct && (exists
+                  ? <Link to={`/products/${e.productId}?tab=history`} className="font-medium hover:underline">{e.productTen}</Link>
+                  : <span className="font-medium">{e.productTen}</span>)}
+                <span className="text-zinc-500">{e.label}</span>
+                <span className="ml-auto text-xs text-zinc-500">{formatDateTime(e.at)} • {e.actor?.ten ?? t("audit.unknownActor")}</span>
+              </div>
+              {e.changes.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs">
+                  {e.changes.map((c) => (
+                    <li key={c.field} className="break-words">
+                      <span className="text-zinc-500">{fieldLabel(c.field)}:</span>{" "}
+                      {c.truoc !== null && <span className="line-through text-red-700/80">{c.truoc}</span>}
+                      {c.truoc !== null && c.sau !== null && " → "}
+                      {c.sau !== null && <span className="text-green-700">{c.sau}</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {can("edit") && (
+                <button type="button" className="mt-1 text-xs text-indigo-600 !bg-transparent !p-0" onClick={() => setError(restoreVersion(e.id) ?? "")}>
+                  {exists ? t("audit.restore") : t("audit.restoreDeleted")}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+const AUDIT_PAGE_SIZE = 100;
+
+// Filters live in the query string (q, actor, action, from, to) like the product list's
+const AuditPage: React.FC = () => {
+  const { auditLog } = useProducts();
+  const { t } = useI18n();
+  const [params, setParams] = useSearchParams();
+  const [limit, setLimit] = useState(AUDIT_PAGE_SIZE);
+  const q = params.get("q") ?? "";
+  const actor = params.get("actor") ?? "";
+  const action = params.get("action") ?? "";
+  const from = params.get("from") ?? "";
+  const to = params.get("to") ?? "";
+
+  const setParam = (key: string, value: string) =>
+    setParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (value) next.set(key, value);
+        else next.delete(key);
+        return next;
+      },
+      { replace: true },
+    );
+
+  const actors = useMemo(
+    () => [...new Map(auditLog.flatMap((e) => (e.actor ? [[e.actor.id, e.actor.ten] as const] : []))).entries()],
+    [auditLog],
+  );
+
+  const entries = useMemo(() => {
+    const needle = fold(q.trim());
+    // Dates from the pickers are local days
+    const fromMs = from ? Date.parse(`${from}T00:00:00`) : -Infinity;
+    const toMs = to ? Date.parse(`${to}T23:59:59.999`) : Infinity;
+    return auditLog
+      .filter((e) => {
+        const at = Date.parse(e.at);
+        return (
+          (!needle || fold(e.productTen).includes(needle) || fold(e.label).includes(needle)) &&
+          (!actor || e.actor?.id === actor) &&
+          (!action || e.action === action) &&
+          at >= fromMs &&
+          at <= toMs
+        );
+      })
+      .reverse();
+  }, [auditLog, q, actor, action, from, to]);
+
+  return (
+    <div className="max-w-5xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-3">{t("audit.title")}</h2>
+      <Card className="mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="md:col-span-2">
+            <label className="text-sm text-zinc-500">{t("audit.query")}</label>
+            <Input value={q} placeholder={t("audit.queryPlaceholder")} onChange={(e) => setParam("q", e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm text-zinc-500">{t("audit.actor")}</label>
+            <Select value={actor} onChange={(e) => setParam("actor", e.target.value)}>
+              <option value="">{t("audit.all")}</option>
+              {actors.map(([id, ten]) => <option key={id} value={id}>{ten}</option>)}
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm text-zinc-500">{t("audit.action")}</label>
+            <Select value={action} onChange={(e) => setParam("action", e.target.value)}>
+              <option value="">{t("audit.all")}</option>
+              {(Object.keys(AUDIT_ACTION_STYLES) as AuditAction[]).map((a) => <option key={a} value={a}>{t(AUDIT_ACTION_STYLES[a].label)}</option>)}
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-sm text-zinc-500">{t("audit.from")}</label>
+              <Input type="date" value={from} onChange={(e) => setParam("from", e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm text-zinc-500">{t("audit.to")}</label>
+              <Input type="date" value={to} onChange={(e) => setParam("to", e.target.value)} />
+            </div>
+          </div>
+        </div>
+      </Card>
+      <Card>
+        <div className="text-sm text-zinc-500 mb-2">{t("audit.count", { count: entries.length, limit: AUDIT_LIMIT })}</div>
+        <AuditTrail entries={entries.slice(0, limit)} showProduct />
+        {entries.length > limit && (
+          <Button className="mt-3" onClick={() => setLimit((n) => n + AUDIT_PAGE_SIZE)}>{t("audit.more")}</Button>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+/**********
+ * Labels *
+ **********/
+
+// A sheet of self-adhesive labels; all sizes in mm
+type LabelSheet = {
+  id: string;
+  paper: "A4" | "Letter" | "roll" | "custom";
+  pageW: number;
+  pageH: number;
+  cols: number;
+  rows: number;
+  labelW: number;
+  labelH: number;
+  top: number; // margins to the first label
+  left: number;
+  gapX: number;
+  gapY: number;
+};
+
+type LabelContent = "barcode" | "qr" | "both";
+
+const LABEL_SHEETS: LabelSheet[] = [
+  { id: "a4-3x8", paper: "A4", pageW: 210, pageH: 297, cols: 3, rows: 8, labelW: 70, labelH: 37, top: 0.5, left: 0, gapX: 0, gapY: 0 },
+  { id: "a4-2x7", paper: "A4", pageW: 210, pageH: 297, cols: 2, rows: 7, labelW: 99.1, labelH: 38.1, top: 15.15, left: 4.65, gapX: 2.5, gapY: 0 },
+  { id: "a4-4x10", paper: "A4", pageW: 210, pageH: 297, cols: 4, rows: 10, labelW: 48.5, labelH: 25.4, top: 21.5, left: 8, gapX: 0, gapY: 0 },
+  { id: "letter-3x10", paper: "Letter", pageW: 215.9, pageH: 279.4, cols: 3, rows: 10, labelW: 66.7, labelH: 25.4, top: 12.7, left: 4.8, gapX: 3.2, gapY: 0 },
+  // One label per page, for label printers
+  { id: "roll-50x30", paper: "roll", pageW: 50, pageH: 30, cols: 1, rows: 1, labelW: 50, labelH: 30, top: 0, left: 0, gapX: 0, gapY: 0 },
 ];
 
-/************************
- * Context + useReducer *
- ************************/
+const LABEL_CONTENTS: { value: LabelContent; label: MessageKey }[] = [
+  { value: "barcode", label: "labels.barcode" },
+  { value: "qr", label: "labels.qr" },
+  { value: "both", label: "labels.both" },
+];
 
-type Action =
-  | { type: "add"; payload: Omit<Product, "id"> }
-  | { type: "update"; payload: Product }
-  | { type: "delete"; payload: { id: number } }
-  | { type: "hydrate"; payload: Product[] };
+// Beyond this the preview gets too heavy to render; narrow the filter instead
+const MAX_LABELS = 1000;
+const PDF_DPI = 300;
 
-type ProductState = { products: Product[]; nextId: number };
+const LABEL_SETTINGS_KEY = "product_app_labels";
 
-const reducer = (state: ProductState, action: Action): ProductState => {
-  switch (action.type) {
-    case "hydrate": {
-      const maxId = action.payload.reduce((m, p) => Math.max(m, p.id), 0);
-      return { products: action.payload, nextId: maxId + 1 };
-    }
-    case "add": {
-      const newProduct: Product = { id: state.nextId, ...action.payload };
-      const products = [newProduct, ...state.products];
-      persist(products);
-      return { products, nextId: state.nextId + 1 };
-    }
-    case "update": {
-      const products = state.products.map((p) => (p.id === action.payload.id ? action.payload : p));
-      persist(products);
-      return { ...state, products };
-    }
-    case "delete": {
-      const products = state.products.filter((p) => p.id !== action.payload.id);
-      persist(products);
-      return { ...state, products };
-    }
-    default:
-      return state;
-  }
+type LabelSettings = { sheet: string; custom: LabelSheet; content: LabelContent };
+
+const DEFAULT_LABEL_SETTINGS: LabelSettings = {
+  sheet: LABEL_SHEETS[0].id,
+  custom: { ...LABEL_SHEETS[0], id: "custom", paper: "custom" },
+  content: "barcode",
 };
 
-// LocalStorage helpers
-const LS_KEY = "product_app_state_v1";
-const persist = (products: Product[]) => {
+const LABEL_SIZE_FIELDS = ["pageW", "pageH", "cols", "rows", "labelW", "labelH", "top", "left", "gapX", "gapY"] as const;
+
+const isLabelSheet = (x: unknown): x is LabelSheet =>
+  isRecord(x) && typeof x.id === "string" && LABEL_SIZE_FIELDS.every((k) => Number.isFinite(x[k]));
+
+const loadLabelSettings = (): LabelSettings => {
   try {
-    localStorage.setItem(LS_KEY, JSON.stringify(products));
-  } catch {}
+    const parsed = JSON.parse(localStorage.getItem(LABEL_SETTINGS_KEY) ?? "null") as unknown;
+    if (!isRecord(parsed)) return DEFAULT_LABEL_SETTINGS;
+    return {
+      sheet: typeof parsed.sheet === "string" ? parsed.sheet : DEFAULT_LABEL_SETTINGS.sheet,
+      custom: isLabelSheet(parsed.custom) ? { ...parsed.custom, id: "custom", paper: "custom" } : DEFAULT_LABEL_SETTINGS.custom,
+      content: LABEL_CONTENTS.some((c) => c.value === parsed.content) ? (parsed.content as LabelContent) : DEFAULT_LABEL_SETTINGS.content,
+    };
+  } catch {
+    return DEFAULT_LABEL_SETTINGS;
+  }
+};
+
+const sheetName = (s: LabelSheet) => {
+  const grid = `${s.cols} × ${s.rows} (${formatNumber(s.labelW)} × ${formatNumber(s.labelH)} mm)`;
+  if (s.paper === "roll") return `${t("labels.roll")} ${formatNumber(s.labelW)} × ${formatNumber(s.labelH)} mm`;
+  return s.paper === "custom" ? t("labels.custom") : `${s.paper} · ${grid}`;
+};
+
+const sheetProblem = (s: LabelSheet): string | null => {
+  if (LABEL_SIZE_FIELDS.some((k) => !(s[k] >= 0)) || !(s.labelW > 0 && s.labelH > 0)) return t("labels.sizeInvalid");
+  if (!Number.isInteger(s.cols) || !Number.isInteger(s.rows) || s.cols < 1 || s.rows < 1) return t("labels.sizeInvalid");
+  const width = s.left + s.cols * s.labelW + (s.cols - 1) * s.gapX;
+  const height = s.top + s.rows * s.labelH + (s.rows - 1) * s.gapY;
+  return width > s.pageW + 0.01 || height > s.pageH + 0.01 ? t("labels.doesNotFit") : null;
+};
+
+// Approximate: an average glyph in a sans-serif font is about half as wide as it is tall
+const fitText = (text: string, width: number, fontSize: number) => {
+  const max = Math.floor(width / (fontSize * 0.55));
+  return text.length > max ? `${text.slice(0, Math.max(1, max - 1))}…` : text;
+};
+
+// One label: name and price on the left, the barcode under them and/or a QR code on the right
+const LabelArt: React.FC<{ p: Product; w: number; h: number; content: LabelContent }> = ({ p, w, h, content }) => {
+  const pad = Math.min(2, h * 0.06);
+  const fontSize = Math.min(4, Math.max(2.2, h * 0.1));
+  const qr = content === "barcode" ? 0 : Math.min(h - pad * 2, w * 0.4);
+  const textW = w - pad * 2 - (qr ? qr + 1 : 0);
+  const priceY = pad + fontSize * 2.6;
+  const codeY = priceY + 1;
+  const codeH = h - codeY - pad;
+  // During a sale the list price follows, struck through, if there is room for it
+  const price = fitText(formatPriceRange(p, effectivePrice(p)), textW, fontSize * 1.4);
+  const room = textW - price.length * fontSize * 1.4 * 0.55 - 1;
+  const was = activeSale(p) && room > fontSize * 3 ? fitText(formatPriceRange(p, listPrice(p)), room, fontSize) : "";
+  return (
+    <g fontFamily="sans-serif" fill="#000">
+      <text x={pad} y={pad + fontSize} fontSize={fontSize}>{fitText(p.ten, textW, fontSize)}</text>
+      <text x={pad} y={priceY} fontSize={fontSize * 1.4} fontWeight="bold">
+        {price}
+        {was && <tspan dx={1} fontSize={fontSize} fontWeight="normal" textDecoration="line-through">{was}</tspan>}
+      </text>
+      {content !== "qr" && codeH > 4 && <Barcode value={p.maVach} x={pad} y={codeY} width={textW} height={codeH} />}
+      {qr > 0 && <QrCode value={productUrl(p.id)} x={w - pad - qr} y={(h - qr) / 2} width={qr} height={qr} />}
+    </g>
+  );
 };
-const loadFromStorage = (): Product[] | null => {
+
+// `null` slots are left blank (positions skipped on a partly used sheet)
+const LabelSheetSvg: React.FC<{ sheet: LabelSheet; slots: (Product | null)[]; content: LabelContent }> = ({ sheet, slots, content }) => (
+  <svg
+    data-sheet
+    xmlns="http://www.w3.org/2000/svg"
+    width={`${sheet.pageW}mm`}
+    height={`${sheet.pageH}mm`}
+    viewBox={`0 0 ${sheet.pageW} ${sheet.pageH}`}
+    className="block max-w-full h-auto bg-white shadow print:shadow-none print:max-w-none break-after-page"
+  >
+    <rect width={sheet.pageW} height={sheet.pageH} fill="#fff" />
+    {slots.map((p, i) => {
+      const x = sheet.left + (i % sheet.cols) * (sheet.labelW + sheet.gapX);
+      const y = sheet.top + Math.floor(i / sheet.cols) * (sheet.labelH + sheet.gapY);
+      return (
+        <g key={i} transform={`translate(${x} ${y})`}>
+          {/* Outlines are a screen-only guide; they are neither printed nor exported */}
+          <rect data-guide width={sheet.labelW} height={sheet.labelH} fill="none" stroke="#d4d4d8" strokeWidth={0.2} strokeDasharray="1 1" className="print:hidden" />
+          {p && <LabelArt p={p} w={sheet.labelW} h={sheet.labelH} content={content} />}
+        </g>
+      );
+    })}
+  </svg>
+);
+
+// Draws a sheet at PDF_DPI and re-encodes it as JPEG
+const rasterizeSheet = async (svg: SVGSVGElement, sheet: LabelSheet) => {
+  const width = Math.round((sheet.pageW / 25.4) * PDF_DPI);
+  const height = Math.round((sheet.pageH / 25.4) * PDF_DPI);
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.querySelectorAll("[data-guide]").forEach((el) => el.remove());
+  copy.setAttribute("width", String(width));
+  copy.setAttribute("height", String(height));
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(copy)], { type: "image/svg+xml" }));
   try {
-    const raw = localStorage.getItem(LS_KEY);
-    if (!raw) return null;
-    return JSON.parse(raw) as Product[];
-  } catch {
-    return null;
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d")!;
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.92));
+    if (!blob) throw new Error(t("labels.pdfFailed"));
+    return { jpeg: new Uint8Array(await blob.arrayBuffer()), width, height };
+  } finally {
+    URL.revokeObjectURL(url);
   }
 };
 
-// Context
+// The smallest PDF that works: one page per sheet, each holding a single full-page JPEG
+const jpegPdf = (pages: { jpeg: Uint8Array; width: number; height: number }[], sheet: LabelSheet) => {
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    parts.push(part as BlobPart);
+    length += part.length; // the strings are all ASCII, so characters are bytes
+  };
+  const object = (n: number, ...body: (string | Uint8Array)[]) => {
+    offsets[n] = length;
+    write(`${n} 0 obj\n`);
+    body.forEach(write);
+    write("\nendobj\n");
+  };
+  const pt = (mm: number) => ((mm / 25.4) * 72).toFixed(2);
 
-type ProductContextType = {
-  products: Product[];
-  add: (p: Omit<Product, "id">) => void;
-  update: (p: Product) => void;
-  remove: (id: number) => void;
+  write("%PDF-1.4\n");
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${3 + i * 3} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+  pages.forEach((page, i) => {
+    const n = 3 + i * 3;
+    const [w, h] = [pt(sheet.pageW), pt(sheet.pageH)];
+    object(n, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${n + 1} 0 R >> >> /Contents ${n + 2} 0 R >>`);
+    object(
+      n + 1,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+      page.jpeg,
+      "\nendstream",
+    );
+    const draw = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+    object(n + 2, `<< /Length ${draw.length} >>\nstream\n${draw}\nendstream`);
+  });
+  const xref = length;
+  const entries = offsets.slice(1).map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  write(`xref\n0 ${offsets.length}\n0000000000 65535 f \n${entries}trailer\n<< /Size ${offsets.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(parts, { type: "application/pdf" });
 };
 
-const ProductContext = createContext<ProductContextType | null>(null);
+const LabelSheetEditor: React.FC<{ value: LabelSheet; onChange: (s: LabelSheet) => void }> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const pairs: [MessageKey, (typeof LABEL_SIZE_FIELDS)[number], (typeof LABEL_SIZE_FIELDS)[number]][] = [
+    ["labels.pageSize", "pageW", "pageH"],
+    ["labels.grid", "cols", "rows"],
+    ["labels.labelSize", "labelW", "labelH"],
+    ["labels.margins", "top", "left"],
+    ["labels.gaps", "gapX", "gapY"],
+  ];
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+      {pairs.map(([label, a, b]) => (
+        <div key={a}>
+          <label className="text-xs text-zinc-500">{t(label)}</label>
+          <div className="flex gap-1">
+            {[a, b].map((k) => (
+              <Input
+                key={k}
+                type="number"
+                min={0}
+                step="any"
+                value={value[k]}
+                onChange={(e) => onChange({ ...value, [k]: e.target.valueAsNumber })}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
 
-const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(reducer, { products: [], nextId: 1 });
+// Labels for the products in `ids`, or else for whatever the list's filter params select
+const LabelsPage: React.FC = () => {
+  const { t } = useI18n();
+  const { products, status } = useProducts();
+  const [params] = useSearchParams();
+  const [f] = useFilterParams();
+  const { filtered, pending } = useFilteredProducts(f);
+  const [settings, setSettings] = useState(loadLabelSettings);
+  const [copies, setCopies] = useState(1);
+  const [skip, setSkip] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const sheetsRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    const fromLS = loadFromStorage();
-    dispatch({ type: "hydrate", payload: fromLS && fromLS.length ? fromLS : initialProducts });
-  }, []);
+    localStorage.setItem(LABEL_SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
 
-  const value = useMemo(() => ({
-    products: state.products,
-    add: (p: Omit<Product, "id">) => dispatch({ type: "add", payload: p }),
-    update: (p: Product) => dispatch({ type: "update", payload: p }),
-    remove: (id: number) => dispatch({ type: "delete", payload: { id } }),
-  }), [state.products]);
+  const ids = params.get("ids");
+  const items = useMemo(() => {
+    if (ids === null) return filtered;
+    const byId = new Map(products.map((p) => [p.id, p]));
+    return ids.split(",").map((id) => byId.get(Number(id))).filter((p) => p !== undefined);
+  }, [ids, filtered, products]);
 
-  return <ProductContext.Provider value={value}>{children}</ProductContext.Provider>;
+  const sheet = LABEL_SHEETS.find((s) => s.id === settings.sheet) ?? settings.custom;
+  const problem = sheetProblem(sheet);
+  const perSheet = sheet.cols * sheet.rows;
+  const labels = items.flatMap((p) => Array<Product>(Math.max(1, copies)).fill(p));
+  const shown = labels.slice(0, MAX_LABELS);
+  const slots = [...Array<null>(Math.min(skip, perSheet - 1)).fill(null), ...shown];
+  const pages = problem ? [] : Array.from({ length: Math.ceil(slots.length / perSheet) }, (_, i) => slots.slice(i * perSheet, (i + 1) * perSheet));
+  const set = (patch: Partial<LabelSettings>) => setSettings((s) => ({ ...s, ...patch }));
+
+  const exportPdf = async () => {
+    const svgs = [...(sheetsRef.current?.querySelectorAll<SVGSVGElement>("svg[data-sheet]") ?? [])];
+    setBusy(true);
+    setError("");
+    try {
+      const rendered = [];
+      for (const svg of svgs) rendered.push(await rasterizeSheet(svg, sheet)); // one at a time: each canvas is large
+      download(`labels-${new Date().toISOString().slice(0, 10)}.pdf`, jpegPdf(rendered, sheet), "application/pdf");
+    } catch {
+      setError(t("labels.pdfFailed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 print:p-0 print:max-w-none">
+      <style>{`@page { size: ${sheet.pageW}mm ${sheet.pageH}mm; margin: 0; }`}</style>
+      <div className="print:hidden">
+        <Header />
+        <h2 className="text-2xl font-bold mb-1">{t("labels.title")}</h2>
+        <div className="text-sm text-zinc-500 mb-3">
+          {ids === null ? t("labels.fromFilter", { count: items.length }) : t("labels.fromSelection", { count: items.length })}
+        </div>
+        <Card className="mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2">
+              <label className="text-sm text-zinc-500">{t("labels.sheet")}</label>
+              <Select value={settings.sheet} onChange={(e) => set({ sheet: e.target.value })}>
+                {[...LABEL_SHEETS, settings.custom].map((s) => <option key={s.id} value={s.id}>{sheetName(s)}</option>)}
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm text-zinc-500">{t("labels.content")}</label>
+              <Select value={settings.content} onChange={(e) => set({ content: e.target.value as LabelContent })}>
+                {LABEL_CONTENTS.map((c) => <option key={c.value} value={c.value}>{t(c.label)}</option>)}
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <div>
+                <label className="text-sm text-zinc-500">{t("labels.copies")}</label>
+                <Input type="number" min={1} value={copies} onChange={(e) => setCopies(Math.max(1, Math.floor(e.target.valueAsNumber) || 1))} />
+              </div>
+              <div>
+                <label className="text-sm text-zinc-500" title={t("labels.skipHint")}>{t("labels.skip")}</label>
+                <Input type="number" min={0} max={perSheet - 1} value={skip} onChange={(e) => setSkip(Math.max(0, Math.floor(e.target.valueAsNumber) || 0))} />
+              </div>
+            </div>
+          </div>
+          {settings.sheet === "custom" && <LabelSheetEditor value={settings.custom} onChange={(custom) => set({ custom })} />}
+          {problem && <div className="text-sm text-red-600">{problem}</div>}
+          <div className="flex flex-wrap items-center gap-3">
+            <Button className="bg-indigo-600 text-white" disabled={!pages.length} onClick={() => window.print()}>{t("labels.printButton")}</Button>
+            <Button disabled={!pages.length || busy} onClick={() => void exportPdf()}>{busy ? t("labels.pdfBusy") : t("labels.pdf")}</Button>
+            <span className="text-sm text-zinc-500">
+              {t("labels.labelCount", { count: shown.length })} · {t("labels.sheetCount", { count: pages.length })}
+            </span>
+            {error && <span className="text-sm text-red-600">{error}</span>}
+          </div>
+          {labels.length > MAX_LABELS && <div className="text-sm text-amber-700">{t("labels.truncated", { max: MAX_LABELS })}</div>}
+        </Card>
+        {status === "ready" && !pending && !items.length && (
+          <Card>
+            <div className="text-center text-zinc-500">{t("labels.empty")}</div>
+          </Card>
+        )}
+      </div>
+      <div ref={sheetsRef} className="flex flex-col items-center gap-4 print:block">
+        {pages.map((page, i) => <LabelSheetSvg key={i} sheet={sheet} slots={page} content={settings.content} />)}
+      </div>
+    </div>
+  );
 };
 
-const useProducts = () => {
-  const ctx = useContext(ProductContext);
-  if (!ctx) throw new Error("useProducts must be used within ProductProvider");
-  return ctx;
+/************
+ * Scanning *
+ ************/
+
+type ScanMatch = { product: Product; variant?: Variant };
+
+// A code is a product's maVach, a variant SKU, or the product link a QR label holds
+// (which may be for a product merged into another since)
+const findByCode = (products: Product[], code: string): ScanMatch | null => {
+  const link = /\/products\/(\d+)\/?$/.exec(code);
+  if (link) {
+    const id = Number(link[1]);
+    const product = products.find((p) => p.id === id) ?? products.find((p) => p.idCu.includes(id));
+    return product ? { product } : null;
+  }
+  const key = codeKey(code);
+  for (const product of products) {
+    if (codeKey(product.maVach) === key) return { product };
+    const variant = product.bienThe.find((b) => b.sku && codeKey(b.sku) === key);
+    if (variant) return { product, variant };
+  }
+  return null;
 };
 
-/****************
- * UI Utilities *
- ****************/
+// A scan leads to the product's page in scan mode, or back to the scan page, which
+// offers to add a product for a code it doesn't know
+const useOpenScan = () => {
+  const { products } = useProducts();
+  const nav = useNavigate();
+  return (raw: string) => {
+    const code = raw.trim();
+    if (!code) return;
+    const match = findByCode(products, code);
+    nav(match ? `/products/${match.product.id}?scan=${encodeURIComponent(code)}` : `/scan?code=${encodeURIComponent(code)}`);
+  };
+};
 
-const VND = (n: number) => n.toLocaleString("vi-VN");
+// Keyboard-wedge scanners type a code far faster than a person would, then press Enter.
+// Keys less than WEDGE_GAP_MS apart are collected, and Enter after at least
+// WEDGE_MIN_LENGTH of them counts as a scan. Keys typed into a field are left alone.
+const WEDGE_GAP_MS = 50;
+const WEDGE_MIN_LENGTH = 4;
 
-const Card: React.FC<{ children: React.ReactNode } & React.HTMLAttributes<HTMLDivElement>> = ({ children, className = "", ...rest }) => (
-  <div className={`rounded-2xl shadow p-4 bg-white dark:bg-zinc-900 border border-zinc-200/60 dark:border-zinc-800 ${className}`} {...rest}>
-    {children}
-  </div>
-);
+const useWedgeScanner = (onScan: (code: string) => void) => {
+  const onScanRef = useRef(onScan);
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
 
-const Button: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ className = "", ...props }) => (
-  <button
-    className={`px-3 py-2 rounded-xl shadow text-sm font-medium border border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800 ${className}`}
-    {...props}
-  />
-);
+  useEffect(() => {
+    let buffer = "";
+    let last = 0;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))) return;
+      const quick = e.timeStamp - last <= WEDGE_GAP_MS;
+      if (e.key === "Enter") {
+        const code = quick ? buffer : "";
+        buffer = "";
+        if (code.length < WEDGE_MIN_LENGTH) return;
+        e.preventDefault();
+        onScanRef.current(code);
+      } else if (e.key.length === 1) {
+        buffer = quick ? buffer + e.key : e.key;
+        last = e.timeStamp;
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+};
 
-const Input: React.FC<React.InputHTMLAttributes<HTMLInputElement>> = ({ className = "", ...props }) => (
-  <input
-    className={`w-full px-3 py-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 outline-none focus:ring-2 focus:ring-indigo-500 ${className}`}
-    {...props}
-  />
-);
+// The Shape Detection API isn't in TypeScript's DOM types yet, and only some browsers have it
+type BarcodeDetectorLike = { detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]> };
+type BarcodeDetectorClass = new (options: { formats: string[] }) => BarcodeDetectorLike;
 
-const Select: React.FC<React.SelectHTMLAttributes<HTMLSelectElement>> = ({ className = "", children, ...props }) => (
-  <select
-    className={`w-full px-3 py-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 outline-none focus:ring-2 focus:ring-indigo-500 ${className}`}
-    {...props}
-  >
-    {children}
-  </select>
-);
+const barcodeDetector = () => (window as unknown as { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
 
-const Textarea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement>> = ({ className = "", ...props }) => (
-  <textarea
-    className={`w-full px-3 py-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-950 outline-none focus:ring-2 focus:ring-indigo-500 ${className}`}
-    {...props}
-  />
-);
+const CAMERA_INTERVAL_MS = 250;
 
-/***********************
- * Search & Filter Bar *
- ***********************/
+// Live camera preview that reports the first code it recognises
+const CameraScanner: React.FC<{ onScan: (code: string) => void }> = ({ onScan }) => {
+  const { t } = useI18n();
+  const video = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [failed, setFailed] = useState(false);
 
-type FilterState = {
-  q: string;
-  danhMuc: "" | DanhMuc;
-  min: string;
-  max: string;
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    const Detector = barcodeDetector();
+    if (!Detector || !video.current) return;
+    const el = video.current;
+    const detector = new Detector({ formats: ["ean_13", "code_128", "qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer = 0;
+    let stopped = false;
+    const tick = async () => {
+      const found = await detector.detect(el).catch(() => []);
+      if (stopped) return;
+      if (found[0]) onScanRef.current(found[0].rawValue);
+      else timer = window.setTimeout(() => void tick(), CAMERA_INTERVAL_MS);
+    };
+    (async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (stopped) return;
+        el.srcObject = stream;
+        await el.play();
+        void tick();
+      } catch {
+        if (!stopped) setFailed(true); // no camera, or permission denied
+      }
+    })();
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return failed ? (
+    <div className="text-sm text-red-600">{t("scan.cameraFailed")}</div>
+  ) : (
+    <video ref={video} muted playsInline className="w-full max-w-md rounded-xl bg-black" />
+  );
 };
 
-const useFilterParams = () => {
-  const [searchParams, setSearchParams] = useSearchParams();
-  const state: FilterState = {
-    q: searchParams.get("q") ?? "",
-    danhMuc: (searchParams.get("danhMuc") as DanhMuc | null) ?? "",
-    min: searchParams.get("min") ?? "",
-    max: searchParams.get("max") ?? "",
-  };
-  const set = (patch: Partial<FilterState>) => {
-    const next = { ...state, ...patch };
-    const sp = new URLSearchParams();
-    if (next.q) sp.set("q", next.q);
-    if (next.danhMuc) sp.set("danhMuc", next.danhMuc);
-    if (next.min) sp.set("min", next.min);
-    if (next.max) sp.set("max", next.max);
-    setSearchParams(sp, { replace: true });
+// Code entry for manual typing or a scanner, plus the camera where the browser can decode
+// barcodes. Wedge scans are caught even while the field doesn't have focus.
+const ScanBox: React.FC = () => {
+  const { t } = useI18n();
+  const open = useOpenScan();
+  const [value, setValue] = useState("");
+  const [camera, setCamera] = useState(false);
+  useWedgeScanner(open);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    open(value);
+    setValue("");
   };
-  return [state, set] as const;
-};
 
-const SearchFilterBar: React.FC = () => {
-  const [f, setF] = useFilterParams();
   return (
-    <Card className="mb-4">
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
-        <div className="md:col-span-2">
-          <label className="text-sm text-zinc-500">Tìm kiếm tên</label>
-          <Input
-            placeholder="Nhập tên sản phẩm..."
-            value={f.q}
-            onChange={(e) => setF({ q: e.target.value })}
-          />
-        </div>
-        <div>
-          <label className="text-sm text-zinc-500">Danh mục</label>
-          <Select value={f.danhMuc} onChange={(e) => setF({ danhMuc: e.target.value as DanhMuc | "" })}>
-            <option value="">Tất cả</option>
-            {CATEGORIES.map((c) => (
-              <option key={c} value={c}>{c}</option>
-            ))}
-          </Select>
-        </div>
-        <div>
-          <label className="text-sm text-zinc-500">Giá tối thiểu</label>
-          <Input type="number" min={0} value={f.min} onChange={(e) => setF({ min: e.target.value })} />
-        </div>
-        <div>
-          <label className="text-sm text-zinc-500">Giá tối đa</label>
-          <Input type="number" min={0} value={f.max} onChange={(e) => setF({ max: e.target.value })} />
-        </div>
-      </div>
-    </Card>
+    <div className="space-y-3">
+      <form onSubmit={submit} className="flex gap-2">
+        <Input autoFocus className="font-mono" placeholder={t("scan.placeholder")} value={value} onChange={(e) => setValue(e.target.value)} />
+        <Button type="submit" className="bg-indigo-600 text-white">{t("scan.find")}</Button>
+        {barcodeDetector() && (
+          <Button type="button" className="whitespace-nowrap" onClick={() => setCamera((c) => !c)}>
+            {camera ? t("scan.cameraOff") : t("scan.cameraOn")}
+          </Button>
+        )}
+      </form>
+      {camera && (
+        <CameraScanner
+          onScan={(code) => {
+            setCamera(false);
+            open(code);
+          }}
+        />
+      )}
+    </div>
   );
 };
 
-/****************
- * Pagination   *
- ****************/
+// ±1 count corrections and goods-in for a scanned product, booked in the stock ledger.
+// A scanned variant SKU picks that variant; otherwise one has to be chosen.
+const QuickStock: React.FC<{ product: Product; variant?: Variant }> = ({ product, variant: scanned }) => {
+  const { recordMovement } = useProducts();
+  const { t } = useI18n();
+  const [bienTheId, setBienTheId] = useState(scanned?.id ?? "");
+  const [qty, setQty] = useState("");
+  const [error, setError] = useState("");
+  const variant = product.bienThe.find((b) => b.id === bienTheId);
+  const stock = variant ? variant.soLuong : product.soLuong;
+
+  const apply = (loai: MovementType, n: number) => setError(recordMovement(product.id, loai, n, t("scan.reason"), bienTheId || undefined) ?? "");
+
+  const receive = (e: React.FormEvent) => {
+    e.preventDefault();
+    const n = Number(qty);
+    if (!qty || !Number.isInteger(n) || n <= 0) {
+      setError(t("stock.enterPositive"));
+      return;
+    }
+    apply("receipt", n);
+    setQty("");
+  };
 
-const Pagination: React.FC<{
-  total: number;
-  page: number;
-  onPage: (p: number) => void;
-}> = ({ total, page, onPage }) => {
-  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
-  const pages = Array.from({ length: totalPages }, (_, i) => i + 1);
   return (
-    <div className="flex items-center justify-between gap-3 mt-4">
-      <div className="text-sm text-zinc-500">Tổng: <b>{total}</b> sản phẩm • Trang <b>{page}</b> / {totalPages}</div>
-      <div className="flex items-center gap-2">
-        <Button onClick={() => onPage(Math.max(1, page - 1))} disabled={page === 1}>Previous</Button>
-        <div className="flex items-center gap-1">
-          {pages.map((p) => (
-            <Button key={p} className={`${p === page ? "bg-indigo-600 text-white" : ""}`} onClick={() => onPage(p)}>
-              {p}
-            </Button>
-          ))}
+    <div className="space-y-3">
+      {product.bienThe.length > 0 && (
+        <Select value={bienTheId} onChange={(e) => setBienTheId(e.target.value)}>
+          <option value="">{t("stock.chooseVariantOption")}</option>
+          {product.bienThe.map((b) => <option key={b.id} value={b.id}>{t("stock.variantOption", { name: variantLabel(b), sku: b.sku, count: b.soLuong })}</option>)}
+        </Select>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button className="text-lg !px-4" aria-label={t("scan.minusOne")} onClick={() => apply("adjustment", -1)}>−1</Button>
+        <div className="min-w-20 text-center">
+          <div className="text-3xl font-bold tabular-nums">{formatNumber(stock)}</div>
+          <div className="text-xs text-zinc-500">{t("scan.inStock")}</div>
         </div>
-        <Button onClick={() => onPage(Math.min(totalPages, page + 1))} disabled={page === totalPages}>Next</Button>
+        <Button className="text-lg !px-4" aria-label={t("scan.plusOne")} onClick={() => apply("adjustment", 1)}>+1</Button>
+        <form onSubmit={receive} className="flex gap-2 ml-auto">
+          <Input type="number" min={1} className="!w-24" placeholder={t("scan.qty")} value={qty} onChange={(e) => setQty(e.target.value)} />
+          <Button type="submit" className="bg-indigo-600 text-white whitespace-nowrap">{t("scan.receive")}</Button>
+        </form>
       </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
     </div>
   );
 };
 
-/****************
- * Product Card *
- ****************/
+const ScanPage: React.FC = () => {
+  const { t } = useI18n();
+  const { products, status } = useProducts();
+  const { can } = useAuth();
+  const [params] = useSearchParams();
+  const code = params.get("code") ?? "";
+  // The product may have been added since the code came up as unknown
+  const match = code ? findByCode(products, code) : null;
 
-const ProductCard: React.FC<{ p: Product; onDelete: (id: number) => void }> = ({ p, onDelete }) => {
-  const navigate = useNavigate();
   return (
-    <Card className="h-full flex flex-col">
-      <div className="flex-1">
-        <div className="flex items-start justify-between gap-3">
-          <h3 className="text-lg font-semibold leading-tight">{p.ten}</h3>
-          <span className="text-xs px-2 py-1 rounded-full bg-zinc-100 dark:bg-zinc-800">{p.danhMuc}</span>
-        </div>
-        <div className="mt-2 text-zinc-500 text-sm line-clamp-3">{p.moTa}</div>
-        <div className="mt-3 text-base font-medium">{VND(p.gia)} đ</div>
-        <div className="text-xs text-zinc-500">Số lượng: {p.soLuong}</div>
-      </div>
-      <div className="mt-4 flex gap-2">
-        <Button className="flex-1" onClick={() => navigate(`/products/${p.id}`)}>Chi tiết</Button>
-        <Button className="flex-1" onClick={() => navigate(`/edit/${p.id}`)}>Sửa</Button>
-        <Button className="flex-1 text-red-600 border-red-300" onClick={() => onDelete(p.id)}>Xóa</Button>
-      </div>
-    </Card>
+    <div className="max-w-3xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-1">{t("scan.title")}</h2>
+      <div className="text-sm text-zinc-500 mb-3">{t("scan.hint")}</div>
+      <Card>
+        <ScanBox />
+      </Card>
+      {code && status === "ready" && (
+        <Card className="mt-4">
+          {match ? (
+            <Link to={`/products/${match.product.id}?scan=${encodeURIComponent(code)}`} className="text-indigo-600 underline">{match.product.ten}</Link>
+          ) : (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>{t("scan.unknown", { code })}</div>
+              {can("edit") && !codeProblem(code) && (
+                <Link to={`/add?maVach=${encodeURIComponent(code)}`} className="px-3 py-2 rounded-xl bg-indigo-600 text-white">
+                  {t("scan.addWithCode")}
+                </Link>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
   );
 };
 
-/****************
- * Product List *
- ****************/
-
-const ProductListPage: React.FC = () => {
-  const { products, remove } = useProducts();
-  const [f] = useFilterParams();
-  const [page, setPage] = useState(1);
-
-  // Filter + search
-  const filtered = useMemo(() => {
-    let list = products;
-    if (f.q.trim()) {
-      const q = f.q.toLowerCase();
-      list = list.filter((p) => p.ten.toLowerCase().includes(q));
-    }
-    if (f.danhMuc) list = list.filter((p) => p.danhMuc === f.danhMuc);
-    const min = f.min ? Number(f.min) : undefined;
-    const max = f.max ? Number(f.max) : undefined;
-    if (min != null && !Number.isNaN(min)) list = list.filter((p) => p.gia >= min);
-    if (max != null && !Number.isNaN(max)) list = list.filter((p) => p.gia <= max);
-    return list;
-  }, [products, f.q, f.danhMuc, f.min, f.max]);
+/***************
+ * Order Pages *
+ ***************/
 
-  useEffect(() => {
-    setPage(1); // reset page when filter changes
-  }, [f.q, f.danhMuc, f.min, f.max]);
+const ORDER_STATUS_LABELS: Record<OrderStatus, MessageKey> = { completed: "orders.completed", cancelled: "orders.cancelled" };
 
-  const total = filtered.length;
-  const start = (page - 1) * PAGE_SIZE;
-  const pageItems = filtered.slice(start, start + PAGE_SIZE);
+const OrderStatusBadge: React.FC<{ order: Order }> = ({ order }) => {
+  const { t } = useI18n();
+  const tone = order.trangThai === "completed"
+    ? "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-200"
+    : "bg-zinc-200 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300";
+  return <span className={`text-xs px-2 py-0.5 rounded-full ${tone}`}>{t(ORDER_STATUS_LABELS[order.trangThai])}</span>;
+};
 
-  const onDelete = (id: number) => {
-    if (confirm("Bạn có chắc muốn xóa sản phẩm này?")) remove(id);
-  };
+const OrdersPage: React.FC = () => {
+  const { t } = useI18n();
+  const { orders, status } = useProducts();
+  const newest = useMemo(() => [...orders].reverse(), [orders]);
 
   return (
-    <div className="max-w-6xl mx-auto p-4">
+    <div className="max-w-5xl mx-auto p-4">
       <Header />
       <div className="flex items-center justify-between mb-3">
-        <h2 className="text-2xl font-bold">Danh sách sản phẩm</h2>
-        <Link to="/add" className="px-3 py-2 rounded-xl bg-indigo-600 text-white shadow">+ Thêm sản phẩm</Link>
+        <h2 className="text-2xl font-bold">{t("orders.title")}</h2>
+        <Link to="/orders/new" className="px-3 py-2 rounded-xl bg-indigo-600 text-white text-sm">{t("orders.new")}</Link>
       </div>
-
-      <SearchFilterBar />
-
-      {total === 0 ? (
-        <Card>
-          <div className="text-center text-zinc-500">Không có sản phẩm nào phù hợp.</div>
-        </Card>
-      ) : (
-        <>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            {pageItems.map((p) => (
-              <ProductCard key={p.id} p={p} onDelete={onDelete} />
-            ))}
+      <Card>
+        {status === "loading" ? (
+          <div className="text-zinc-500">{t("common.loading")}</div>
+        ) : !newest.length ? (
+          <div className="text-center text-zinc-500">{t("orders.none")}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-zinc-500">
+                <tr>
+                  <th className="p-2">#</th>
+                  <th className="p-2">{t("orders.time")}</th>
+                  <th className="p-2 text-right">{t("orders.items")}</th>
+                  <th className="p-2 text-right">{t("orders.total")}</th>
+                  <th className="p-2">{t("orders.seller")}</th>
+                  <th className="p-2">{t("orders.status")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {newest.map((o) => (
+                  <tr key={o.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                    <td className="p-2"><Link to={`/orders/${o.id}`} className="text-indigo-600 underline">#{o.id}</Link></td>
+                    <td className="p-2 whitespace-nowrap">{formatDateTime(o.thoiGian)}</td>
+                    <td className="p-2 text-right">{formatNumber(o.dongHang.reduce((n, l) => n + l.soLuong, 0))}</td>
+                    <td className={`p-2 text-right whitespace-nowrap ${o.trangThai === "cancelled" ? "line-through text-zinc-500" : ""}`}>{formatMoney(o.tongTien)}</td>
+                    <td className="p-2">{o.nguoiBan ?? "—"}</td>
+                    <td className="p-2"><OrderStatusBadge order={o} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
-          <Pagination total={total} page={page} onPage={setPage} />
-        </>
-      )}
+        )}
+      </Card>
     </div>
   );
 };
 
-/****************
- * Product Form *
- ****************/
-
-type FormValues = {
-  ten: string;
-  danhMuc: "" | DanhMuc;
-  gia: string;
-  soLuong: string;
-  moTa: string;
-};
+// Something that can go in the cart: a product without variants, or one of its variants
+type Sellable = { product: Product; variant?: Variant };
 
-type ProductFormProps =
-  | { mode: "add"; initial?: undefined; onSubmit: (p: Omit<Product, "id">) => void }
-  | { mode: "edit"; initial: Product; onSubmit: (p: Product) => void };
+const sellables = (products: Product[]): Sellable[] =>
+  products.flatMap((product) => (product.bienThe.length ? product.bienThe.map((variant) => ({ product, variant })) : [{ product }]));
 
-const validate = (v: FormValues) => {
-  const errors: Partial<Record<keyof FormValues, string>> = {};
-  if (!v.ten.trim()) errors.ten = "Tên sản phẩm là bắt buộc";
-  else if (v.ten.trim().length < 3) errors.ten = "Tên tối thiểu 3 ký tự";
+const sellableName = ({ product, variant }: Sellable) => (variant ? `${product.ten} (${variantLabel(variant)})` : product.ten);
 
-  if (!v.danhMuc) errors.danhMuc = "Vui lòng chọn danh mục";
+const ORDER_SEARCH_RESULTS = 8;
 
-  const gia = Number(v.gia);
-  if (!v.gia) errors.gia = "Giá là bắt buộc";
-  else if (Number.isNaN(gia) || gia <= 0) errors.gia = "Giá phải là số dương";
+// Whole quantities of 1 or more. Anything that can't be one yet (an emptied field, "0")
+// stays as typed until the field loses focus, so a quantity can be cleared and retyped.
+const QuantityInput: React.FC<{ value: number; onChange: (soLuong: number) => void; className?: string }> = ({ value, onChange, className }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  return (
+    <Input
+      type="number"
+      min={1}
+      className={className}
+      value={draft ?? value}
+      onChange={(e) => {
+        const n = e.target.valueAsNumber;
+        if (Number.isInteger(n) && n >= 1) {
+          setDraft(null);
+          onChange(n);
+        } else {
+          setDraft(e.target.value);
+        }
+      }}
+      onBlur={() => setDraft(null)}
+    />
+  );
+};
 
-  const soLuong = Number(v.soLuong);
-  if (!v.soLuong) errors.soLuong = "Số lượng là bắt buộc";
-  else if (!Number.isInteger(soLuong) || soLuong <= 0) errors.soLuong = "Số lượng phải là số nguyên dương";
+// Products go in the cart from the search box or by scanning their code. Stock shown
+// here is only a guide: placeOrder checks it again against the stored catalogue.
+const NewOrderPage: React.FC = () => {
+  const { t } = useI18n();
+  const { products, placeOrder } = useProducts();
+  const nav = useNavigate();
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [q, setQ] = useState("");
+  const [ghiChu, setGhiChu] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
 
-  if (!v.moTa.trim()) errors.moTa = "Mô tả là bắt buộc";
+  const add = ({ product, variant }: Sellable) => {
+    setError("");
+    setCart((c) => {
+      const same = (l: CartLine) => l.sanPhamId === product.id && l.bienTheId === variant?.id;
+      return c.some(same)
+        ? c.map((l) => (same(l) ? { ...l, soLuong: l.soLuong + 1 } : l))
+        : [...c, { sanPhamId: product.id, ...(variant && { bienTheId: variant.id }), soLuong: 1 }];
+    });
+  };
 
-  return errors;
-};
+  const addCode = (code: string) => {
+    const match = findByCode(products, code);
+    if (!match) setError(t("scan.unknown", { code }));
+    else if (match.product.bienThe.length && !match.variant) setError(t("orders.chooseVariant", { name: match.product.ten }));
+    else add(match);
+  };
+  useWedgeScanner(addCode);
 
-const ProductForm: React.FC<ProductFormProps> = ({ mode, initial, onSubmit }) => {
-  const [v, setV] = useState<FormValues>(() => initial ? {
-    ten: initial.ten,
-    danhMuc: initial.danhMuc,
-    gia: String(initial.gia),
-    soLuong: String(initial.soLuong),
-    moTa: initial.moTa,
-  } : { ten: "", danhMuc: "", gia: "", soLuong: "", moTa: "" });
-  const [touched, setTouched] = useState<Record<string, boolean>>({});
-  const errs = validate(v);
+  const results = useMemo(() => {
+    const term = fold(q.trim());
+    if (!term) return [];
+    return sellables(products)
+      .filter((s) => fold(`${sellableName(s)} ${s.variant?.sku ?? s.product.maVach}`).includes(term))
+      .slice(0, ORDER_SEARCH_RESULTS);
+  }, [products, q]);
 
-  const set = (patch: Partial<FormValues>) => setV((s) => ({ ...s, ...patch }));
+  // Products deleted while in the cart are dropped from it
+  const rows = cart.flatMap((line) => {
+    const product = products.find((p) => p.id === line.sanPhamId);
+    if (!product) return [];
+    const variant = product.bienThe.find((b) => b.id === line.bienTheId);
+    return [{ line, name: sellableName({ product, variant }), price: sellPrice(product, variant), left: variant ? variant.soLuong : product.soLuong }];
+  });
+  const total = rows.reduce((sum, r) => sum + r.price * r.line.soLuong, 0);
+  const short = rows.some((r) => r.line.soLuong > r.left);
 
-  const submit = (e: React.FormEvent) => {
+  // Enter in the search box adds the only match, or the product whose code was typed
+  // (a scanner typing into the focused box ends up here too)
+  const onSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (Object.keys(errs).length) {
-      setTouched({ ten: true, danhMuc: true, gia: true, soLuong: true, moTa: true });
-      return;
-    }
-    if (mode === "add") {
-      onSubmit({ ten: v.ten.trim(), danhMuc: v.danhMuc as DanhMuc, gia: Number(v.gia), soLuong: Number(v.soLuong), moTa: v.moTa.trim() });
-    } else if (mode === "edit" && initial) {
-      onSubmit({ id: initial.id, ten: v.ten.trim(), danhMuc: v.danhMuc as DanhMuc, gia: Number(v.gia), soLuong: Number(v.soLuong), moTa: v.moTa.trim() });
-    }
+    if (!q.trim()) return;
+    if (results.length === 1) add(results[0]);
+    else addCode(q.trim());
+    setQ("");
   };
 
-  const errMsg = (key: keyof FormValues) => touched[key] && errs[key] ? (
-    <div className="text-xs text-red-600 mt-1">{errs[key]}</div>
-  ) : null;
+  const setQty = (line: CartLine, soLuong: number) => setCart((c) => c.map((l) => (l === line ? { ...l, soLuong } : l)));
+
+  const submit = async () => {
+    setBusy(true);
+    const result = await placeOrder(rows.map((r) => r.line), ghiChu);
+    setBusy(false);
+    if ("error" in result) setError(result.error);
+    else nav(`/orders/${result.order.id}`);
+  };
 
   return (
-    <form onSubmit={submit} className="space-y-4">
-      <div>
-        <label className="text-sm text-zinc-500">Tên sản phẩm *</label>
-        <Input value={v.ten} onBlur={() => setTouched((t) => ({ ...t, ten: true }))} onChange={(e) => set({ ten: e.target.value })} />
-        {errMsg("ten")}
-      </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <div>
-          <label className="text-sm text-zinc-500">Danh mục *</label>
-          <Select value={v.danhMuc} onBlur={() => setTouched((t) => ({ ...t, danhMuc: true }))} onChange={(e) => set({ danhMuc: e.target.value as DanhMuc | "" })}>
-            <option value="">-- Chọn danh mục --</option>
-            {CATEGORIES.map((c) => <option key={c} value={c}>{c}</option>)}
-          </Select>
-          {errMsg("danhMuc")}
-        </div>
-        <div>
-          <label className="text-sm text-zinc-500">Giá (VND) *</label>
-          <Input type="number" min={0} value={v.gia} onBlur={() => setTouched((t) => ({ ...t, gia: true }))} onChange={(e) => set({ gia: e.target.value })} />
-          {errMsg("gia")}
-        </div>
-      </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <div>
-          <label className="text-sm text-zinc-500">Số lượng *</label>
-          <Input type="number" min={1} value={v.soLuong} onBlur={() => setTouched((t) => ({ ...t, soLuong: true }))} onChange={(e) => set({ soLuong: e.target.value })} />
-          {errMsg("soLuong")}
-        </div>
-        <div>
-          <label className="text-sm text-zinc-500">Mô tả *</label>
-          <Textarea rows={4} value={v.moTa} onBlur={() => setTouched((t) => ({ ...t, moTa: true }))} onChange={(e) => set({ moTa: e.target.value })} />
-          {errMsg("moTa")}
-        </div>
-      </div>
-      <div className="flex gap-2">
-        <Button type="submit" className="bg-indigo-600 text-white">{mode === "add" ? "Thêm" : "Cập nhật"}</Button>
-        <Link to="/" className="px-3 py-2 rounded-xl border border-zinc-300">Hủy</Link>
+    <div className="max-w-5xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-1">{t("orders.new")}</h2>
+      <div className="text-sm text-zinc-500 mb-3">{t("orders.newHint")}</div>
+      <div className="grid grid-cols-1 md:grid-cols-[2fr_3fr] gap-4 items-start">
+        <Card className="space-y-2">
+          <form onSubmit={onSearch}>
+            <Input autoFocus placeholder={t("orders.searchPlaceholder")} value={q} onChange={(e) => setQ(e.target.value)} />
+          </form>
+          {results.map((s) => {
+            const left = s.variant ? s.variant.soLuong : s.product.soLuong;
+            return (
+              <button
+                key={`${s.product.id}:${s.variant?.id ?? ""}`}
+                type="button"
+                disabled={left === 0}
+                className="w-full flex items-center justify-between gap-2 rounded-xl border border-zinc-200 dark:border-zinc-800 p-2 text-left text-sm hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                onClick={() => add(s)}
+              >
+                <span>
+                  {sellableName(s)}
+                  <span className="block text-xs text-zinc-500">{t("orders.inStock", { count: left })}</span>
+                </span>
+                <span className="whitespace-nowrap">{formatMoney(sellPrice(s.product, s.variant))}</span>
+              </button>
+            );
+          })}
+          {q.trim() && !results.length && <div className="text-sm text-zinc-500">{t("orders.noMatch")}</div>}
+        </Card>
+        <Card className="space-y-3">
+          <h3 className="font-semibold">{t("orders.cart")}</h3>
+          {!rows.length ? (
+            <div className="text-sm text-zinc-500">{t("orders.empty")}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-zinc-500">
+                  <tr>
+                    <th className="p-2">{t("field.ten")}</th>
+                    <th className="p-2 text-right">{t("orders.unitPrice")}</th>
+                    <th className="p-2">{t("field.soLuong")}</th>
+                    <th className="p-2 text-right">{t("orders.lineTotal")}</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr key={`${r.line.sanPhamId}:${r.line.bienTheId ?? ""}`} className="border-t border-zinc-200 dark:border-zinc-800">
+                      <td className="p-2">{r.name}</td>
+                      <td className="p-2 text-right whitespace-nowrap">{formatMoney(r.price)}</td>
+                      <td className="p-1">
+                        <QuantityInput className="!py-1 !w-20" value={r.line.soLuong} onChange={(n) => setQty(r.line, n)} />
+                        {r.line.soLuong > r.left && <div className="text-xs text-red-600">{t("orders.onlyLeft", { count: r.left })}</div>}
+                      </td>
+                      <td className="p-2 text-right whitespace-nowrap">{formatMoney(r.price * r.line.soLuong)}</td>
+                      <td className="p-1">
+                        <Button type="button" aria-label={t("orders.remove", { name: r.name })} onClick={() => setCart((c) => c.filter((l) => l !== r.line))}>✕</Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="flex items-center justify-between border-t border-zinc-200 dark:border-zinc-800 pt-3">
+            <span className="font-semibold">{t("orders.total")}</span>
+            <span className="text-xl font-bold"><Money value={total} /></span>
+          </div>
+          <Textarea rows={2} placeholder={t("orders.notePlaceholder")} value={ghiChu} onChange={(e) => setGhiChu(e.target.value)} />
+          {error && <div className="text-sm text-red-600">{error}</div>}
+          <div className="flex gap-2">
+            <Button className="bg-indigo-600 text-white" disabled={busy || !rows.length || short} onClick={() => void submit()}>
+              {busy ? t("orders.placing") : t("orders.place")}
+            </Button>
+            <Link to="/orders" className="px-3 py-2 rounded-xl border border-zinc-300 text-sm">{t("common.cancel")}</Link>
+          </div>
+        </Card>
       </div>
-    </form>
+    </div>
   );
 };
 
-/****************
- * Add / Edit   *
- ****************/
+const OrderLinesTable: React.FC<{ order: Order }> = ({ order }) => {
+  const { t } = useI18n();
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-left text-zinc-500">
+        <tr>
+          <th className="p-2">{t("field.ten")}</th>
+          <th className="p-2 text-right">{t("orders.unitPrice")}</th>
+          <th className="p-2 text-right">{t("field.soLuong")}</th>
+          <th className="p-2 text-right">{t("orders.lineTotal")}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {order.dongHang.map((l, i) => (
+          <tr key={i} className="border-t border-zinc-200 dark:border-zinc-800">
+            <td className="p-2">
+              <Link to={`/products/${l.sanPhamId}`} className="text-indigo-600 underline print:text-inherit print:no-underline">{orderLineName(l)}</Link>
+              <div className="text-xs text-zinc-500 font-mono">{l.maVach}</div>
+            </td>
+            <td className="p-2 text-right whitespace-nowrap">{formatMoney(l.donGia)}</td>
+            <td className="p-2 text-right">{formatNumber(l.soLuong)}</td>
+            <td className="p-2 text-right whitespace-nowrap">{formatMoney(l.donGia * l.soLuong)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
 
-const AddPage: React.FC = () => {
-  const { add } = useProducts();
-  const nav = useNavigate();
-  const onSubmit = (p: Omit<Product, "id">) => {
-    add(p);
-    nav("/");
-  };
+// Shared by the detail and receipt pages
+const useOrder = () => {
+  const { id } = useParams();
+  const { orders, status } = useProducts();
+  return { id: id ?? "", order: orders.find((o) => o.id === Number(id)), loading: status === "loading" };
+};
+
+const OrderNotFound: React.FC<{ id: string; loading: boolean }> = ({ id, loading }) => {
+  const { t } = useI18n();
   return (
     <div className="max-w-3xl mx-auto p-4">
       <Header />
-      <h2 className="text-2xl font-bold mb-3">Thêm sản phẩm</h2>
       <Card>
-        <ProductForm mode="add" onSubmit={onSubmit} />
+        {loading ? <div className="text-zinc-500">{t("common.loading")}</div> : <div className="text-red-600">{t("orders.notFound", { id })}</div>}
       </Card>
     </div>
   );
 };
 
-const EditPage: React.FC = () => {
-  const { products, update } = useProducts();
-  const { id } = useParams();
-  const nav = useNavigate();
-  const product = products.find((p) => p.id === Number(id));
-  if (!product) {
-    return (
-      <div className="max-w-3xl mx-auto p-4">
-        <Header />
-        <Card>
-          <div className="text-red-600">Không tìm thấy sản phẩm #{id}</div>
-        </Card>
-      </div>
-    );
-  }
-  const onSubmit = (p: Product) => {
-    update(p);
-    nav(`/products/${p.id}`);
+const OrderDetailPage: React.FC = () => {
+  const { t } = useI18n();
+  const { cancelOrder } = useProducts();
+  const { id, order, loading } = useOrder();
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  if (!order) return <OrderNotFound id={id} loading={loading} />;
+
+  const onCancel = async () => {
+    if (!confirm(t("orders.confirmCancel", { id: order.id }))) return;
+    setBusy(true);
+    setError((await cancelOrder(order.id)) ?? "");
+    setBusy(false);
   };
+
   return (
     <div className="max-w-3xl mx-auto p-4">
       <Header />
-      <h2 className="text-2xl font-bold mb-3">Chỉnh sửa sản phẩm</h2>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-2xl font-bold flex items-center gap-3">{t("orders.heading", { id: order.id })} <OrderStatusBadge order={order} /></h2>
+        <div className="flex gap-2">
+          <Link to={`/orders/${order.id}/receipt`} className="px-3 py-2 rounded-xl border border-zinc-300 text-sm">{t("orders.receipt")}</Link>
+          {order.trangThai === "completed" && (
+            <Button className="text-red-600 border-red-300" disabled={busy} onClick={() => void onCancel()}>{t("orders.cancel")}</Button>
+          )}
+        </div>
+      </div>
+      {error && <div role="alert" className="text-sm text-red-600 mb-3">{error}</div>}
       <Card>
-        <ProductForm mode="edit" initial={product} onSubmit={onSubmit} />
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm mb-4">
+          <div><span className="text-zinc-500">{t("orders.time")}:</span> {formatDateTime(order.thoiGian)}</div>
+          <div><span className="text-zinc-500">{t("orders.seller")}:</span> {order.nguoiBan ?? "—"}</div>
+          {order.huyLuc && <div><span className="text-zinc-500">{t("orders.cancelledAt")}:</span> {formatDateTime(order.huyLuc)}</div>}
+        </div>
+        <div className="overflow-x-auto">
+          <OrderLinesTable order={order} />
+        </div>
+        <div className="flex items-center justify-between border-t border-zinc-200 dark:border-zinc-800 pt-3 mt-2">
+          <span className="font-semibold">{t("orders.total")}</span>
+          <span className="text-xl font-bold"><Money value={order.tongTien} /></span>
+        </div>
+        {order.ghiChu && <div className="mt-3 text-sm whitespace-pre-wrap"><span className="text-zinc-500">{t("orders.note")}:</span> {order.ghiChu}</div>}
       </Card>
     </div>
   );
 };
 
+// Sized for 80 mm receipt printers; on other paper it prints as a narrow column
+const ReceiptPage: React.FC = () => {
+  const { t } = useI18n();
+  const { id, order, loading } = useOrder();
+  if (!order) return <OrderNotFound id={id} loading={loading} />;
+
+  return (
+    <div className="p-4 print:p-0">
+      <style>{"@page { size: 80mm auto; margin: 4mm; }"}</style>
+      <div className="print:hidden max-w-3xl mx-auto">
+        <Header />
+        <div className="flex gap-2 mb-4">
+          <Button className="bg-indigo-600 text-white" onClick={() => window.print()}>{t("orders.print")}</Button>
+          <Link to={`/orders/${order.id}`} className="px-3 py-2 rounded-xl border border-zinc-300 text-sm">{t("orders.backToOrder")}</Link>
+        </div>
+      </div>
+      <div className="mx-auto w-[72mm] bg-white text-black p-3 shadow print:shadow-none print:p-0 font-mono text-xs">
+        <div className="text-center font-bold text-sm">Product Manager</div>
+        <div className="text-center">{t("orders.heading", { id: order.id })}</div>
+        <div className="text-center mb-2">{formatDateTime(order.thoiGian)}</div>
+        {order.trangThai === "cancelled" && <div className="text-center font-bold mb-2">*** {t("orders.cancelled")} ***</div>}
+        <div className="border-t border-dashed border-black" />
+        {order.dongHang.map((l, i) => (
+          <div key={i} className="py-1">
+            <div>{orderLineName(l)}</div>
+            <div className="flex justify-between">
+              <span>{formatNumber(l.soLuong)} × {formatMoney(l.donGia)}</span>
+              <span>{formatMoney(l.donGia * l.soLuong)}</span>
+            </div>
+          </div>
+        ))}
+        <div className="border-t border-dashed border-black" />
+        <div className="flex justify-between font-bold text-sm py-1">
+          <span>{t("orders.total")}</span>
+          <span>{formatMoney(order.tongTien)}</span>
+        </div>
+        {order.nguoiBan && <div>{t("orders.seller")}: {order.nguoiBan}</div>}
+        {order.ghiChu && <div className="whitespace-pre-wrap">{order.ghiChu}</div>}
+        <div className="text-center mt-3">{t("orders.thanks")}</div>
+      </div>
+    </div>
+  );
+};
+
 /****************
  * Detail Page  *
  ****************/
 
 const DetailPage: React.FC = () => {
-  const { products, remove } = useProducts();
+  const { products, categories, status, remove, auditLog } = useProducts();
+  const { can } = useAuth();
+  const { t } = useI18n();
   const { id } = useParams();
+  const [params, setParams] = useSearchParams();
   const nav = useNavigate();
+  const tab = params.get("tab") === "history" ? "history" : "info";
+  const scan = params.get("scan"); // set when the page was opened by scanning a code
   const p = products.find((x) => x.id === Number(id));
   if (!p) {
+    // Links to a product that was merged into another one lead there
+    const mergedInto = products.find((x) => x.idCu.includes(Number(id)));
+    if (mergedInto) return <Navigate to={`/products/${mergedInto.id}${params.size ? `?${params}` : ""}`} replace />;
     return (
       <div className="max-w-3xl mx-auto p-4">
         <Header />
         <Card>
-          <div className="text-red-600">Không tìm thấy sản phẩm #{id}</div>
+          {status === "loading"
+            ? <div className="text-zinc-500">{t("common.loading")}</div>
+            : <div className="text-red-600">{t("product.notFound", { id: id ?? "" })}</div>}
         </Card>
       </div>
     );
   }
   const onDelete = () => {
-    if (confirm("Bạn có chắc muốn xóa sản phẩm này?")) {
-      remove(p.id);
-      nav("/");
-    }
+    remove(p.id);
+    nav("/");
   };
+  const history = auditLog.filter((e) => e.productId === p.id).reverse();
   return (
     <div className="max-w-3xl mx-auto p-4">
       <Header />
       <div className="flex items-center justify-between mb-3">
         <h2 className="text-2xl font-bold">{p.ten}</h2>
         <div className="flex gap-2">
-          <Button onClick={() => nav(`/edit/${p.id}`)}>Sửa</Button>
-          <Button className="text-red-600 border-red-300" onClick={onDelete}>Xóa</Button>
+          {can("edit") && <Button onClick={() => nav(`/edit/${p.id}`)}>{t("common.edit")}</Button>}
+          {can("delete") && <Button className="text-red-600 border-red-300" onClick={onDelete}>{t("common.delete")}</Button>}
+        </div>
+      </div>
+      {scan !== null && (
+        <Card className="mb-4">
+          <ScanBox />
+          {can("edit") && (
+            <div className="mt-4 pt-4 border-t border-zinc-200 dark:border-zinc-800">
+              <QuickStock key={`${p.id}:${scan}`} product={p} variant={findByCode([p], scan)?.variant} />
+            </div>
+          )}
+        </Card>
+      )}
+      <div className="flex gap-1 mb-3 border-b border-zinc-200 dark:border-zinc-800">
+        {([["info", t("detail.info")], ["history", t("detail.history", { count: history.length })]] as const).map(([key, label]) => (
+          <button
+            key={key}
+            type="button"
+            className={`!bg-transparent !rounded-none !px-3 !py-2 !border-0 !border-b-2 text-sm ${tab === key ? "!border-indigo-600 font-semibold" : "!border-transparent text-zinc-500"}`}
+            onClick={() => setParams({ ...(key === "history" && { tab: key }), ...(scan !== null && { scan }) }, { replace: true })}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {tab === "history" ? (
+        <Card>
+          <AuditTrail entries={history} />
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <div className="space-y-3">
+              <ProductGallery images={p.hinhAnh} />
+              <div className="text-sm"><span className="text-zinc-500">{t("field.danhMuc")}:</span> <b>{p.danhMuc}</b></div>
+              <div className="text-sm"><span className="text-zinc-500">{t("field.gia")}:</span> <b><PriceTag p={p} /></b></div>
+              <div className="text-sm">
+                <span className="text-zinc-500">{t("field.soLuong")}:</span> <b>{formatNumber(p.soLuong)}</b>
+                {isLowStock(p) && <span className="ml-2 text-xs text-amber-700">{t("detail.lowStock", { count: p.nguongDatHang })}</span>}
+              </div>
+              <div className="text-sm"><span className="text-zinc-500">{t("field.maVach")}:</span> <b className="font-mono">{p.maVach}</b></div>
+              {attributesFor(categories, p.danhMuc)
+                .filter((d) => p.dacTinh[d.khoa] !== undefined)
+                .map((d) => (
+                  <div key={d.khoa} className="text-sm"><span className="text-zinc-500">{d.ten}:</span> <b>{formatAttribute(d, p.dacTinh[d.khoa])}</b></div>
+                ))}
+              <div>
+                <div className="text-sm text-zinc-500 mb-1">{t("field.moTa")}</div>
+                <div className="whitespace-pre-wrap">{p.moTa}</div>
+              </div>
+            </div>
+          </Card>
+          <Card className="mt-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold">{t("detail.codes")}</h3>
+              <Link to={`/labels?ids=${p.id}`} className="text-sm text-indigo-600 underline">{t("labels.title")}</Link>
+            </div>
+            <div className="flex flex-wrap items-center gap-6">
+              <Barcode value={p.maVach} className="h-24" />
+              <QrCode value={productUrl(p.id)} className="h-28 w-28" />
+            </div>
+          </Card>
+          {p.bienThe.length > 0 && (
+            <Card className="mt-4">
+              <h3 className="font-semibold mb-3">{t("field.bienThe")}</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-zinc-500">
+                    <tr>
+                      {p.thuocTinh.map((a) => <th key={a.ten} className="p-2">{a.ten}</th>)}
+                      <th className="p-2">SKU</th>
+                      <th className="p-2 text-right">{t("field.gia")}</th>
+                      <th className="p-2 text-right">{t("variants.stock")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {p.bienThe.map((b) => (
+                      <tr key={b.id} className="border-t border-zinc-200 dark:border-zinc-800">
+                        {b.giaTri.map((g, i) => <td key={i} className="p-2">{g}</td>)}
+                        <td className="p-2 font-mono text-xs">{b.sku}</td>
+                        <td className="p-2 text-right"><Money value={variantPrice(p, b, effectivePrice(p))} /></td>
+                        <td className={`p-2 text-right ${b.soLuong === 0 ? "text-red-600" : ""}`}>{b.soLuong}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+          {can("edit") && (
+            <Card className="mt-4">
+              <h3 className="font-semibold mb-3">{t("detail.stockMovement")}</h3>
+              <StockMovementForm product={p} />
+            </Card>
+          )}
+          <Card className="mt-4">
+            <h3 className="font-semibold mb-3">{t("detail.stockHistory")}</h3>
+            <StockHistory product={p} />
+          </Card>
+          <Card className="mt-4">
+            <h3 className="font-semibold mb-3">{t("detail.priceHistory")}</h3>
+            <PriceHistory product={p} />
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+/****************
+ * Layout/Header *
+ ****************/
+
+// Says nothing while online with nothing queued; otherwise shows whether changes are
+// waiting, going out, or stuck
+const SyncIndicator: React.FC = () => {
+  const { sync, retrySync } = useProducts();
+  const { t } = useI18n();
+  const online = useOnline();
+  if (!sync) {
+    return online ? null : <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200">{t("sync.offline")}</span>;
+  }
+  const waiting = sync.pending ? ` · ${t("sync.pending", { count: sync.pending })}` : "";
+  const [dot, text] = !online
+    ? ["bg-amber-500", `${t("sync.offline")}${waiting}`]
+    : sync.syncing
+      ? ["bg-indigo-500 animate-pulse", `${t("sync.syncing")}${waiting}`]
+      : sync.error
+        ? ["bg-red-500", `${t("sync.failed")}${waiting}`]
+        : sync.pending
+          ? ["bg-amber-500", t("sync.pending", { count: sync.pending })]
+          : ["bg-emerald-500", t("sync.synced")];
+  const title = sync.error ?? (sync.lastSyncedAt ? t("sync.lastSynced", { at: formatDateTime(sync.lastSyncedAt) }) : undefined);
+  return (
+    <span role="status" className="flex items-center gap-1.5 text-xs text-zinc-500" title={title}>
+      <span className={`h-2 w-2 rounded-full ${dot}`} />
+      {text}
+      {online && sync.error && !sync.syncing && sync.pending > 0 && (
+        <button type="button" className="text-indigo-600 !bg-transparent !p-0" onClick={retrySync}>{t("common.retry")}</button>
+      )}
+    </span>
+  );
+};
+
+const Header: React.FC = () => {
+  const { saving } = useProducts();
+  const { user, signOut, can } = useAuth();
+  const { locale, setLocale, t } = useI18n();
+  const location = useLocation();
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between">
+        <Link to="/" className="text-xl font-bold">🛒 Product Manager</Link>
+        <div className="flex items-center gap-2 text-sm">
+          <SyncIndicator />
+          {saving && <span className="text-xs text-zinc-500">{t("header.saving")}</span>}
+          <Link to="/" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t("header.home")}</Link>
+          <Link to="/dashboard" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t("header.dashboard")}</Link>
+          <Link to="/scan" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t("header.scan")}</Link>
+          {can("edit") && <Link to="/add" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t("form.add")}</Link>}
+          {can("edit") && <Link to="/orders" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t("header.orders")}</Link>}
+          {can("manageCategories") && <Link to="/categories" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t("header.categories")}</Link>}
+          <Link to="/import" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t(can("import") ? "header.import" : "header.export")}</Link>
+          {can("audit") && <Link to="/audit" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t("header.audit")}</Link>}
+          <Link to="/settings" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">{t("header.settings")}</Link>
+          <Select aria-label={t("header.language")} className="!w-auto !py-1" value={locale} onChange={(e) => setLocale(e.target.value as Locale)}>
+            {LOCALES.map((l) => <option key={l.value} value={l.value}>{l.label}</option>)}
+          </Select>
+          {user ? (
+            <span className="flex items-center gap-2 pl-2 border-l border-zinc-200 dark:border-zinc-700">
+              <span title={user.email}>{user.ten} <span className="text-xs text-zinc-500">({t(ROLE_LABELS[user.role])})</span></span>
+              <button type="button" className="text-xs text-indigo-600 !bg-transparent !p-0" onClick={signOut}>{t("auth.signOut")}</button>
+            </span>
+          ) : (
+            <Link to={`/login?next=${encodeURIComponent(location.pathname + location.search)}`} className="px-3 py-1 rounded-lg bg-indigo-600 text-white">
+              {t("auth.signIn")}
+            </Link>
+          )}
         </div>
       </div>
+    </div>
+  );
+};
+
+// Surfaces persistence problems that would otherwise go unnoticed: failed loads or
+// writes, and records that were quarantined while loading
+const StatusBanner: React.FC = () => {
+  const { status, error, dismissError, reload, quarantined, clearQuarantine } = useProducts();
+  const { t } = useI18n();
+  if (!error && !quarantined.length) return null;
+  const onDownload = () =>
+    download(`quarantine-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(quarantined, null, 2), "application/json;charset=utf-8");
+  const onClear = () => {
+    if (confirm(t("quarantine.confirmClear"))) clearQuarantine();
+  };
+  return (
+    <div className="max-w-6xl mx-auto px-4 pt-4 space-y-2">
+      {error && (
+        <div role="alert" className="flex items-center justify-between gap-3 rounded-xl border border-red-300 bg-red-50 dark:bg-red-950/40 p-3 text-sm text-red-700 dark:text-red-300">
+          <span>{error}</span>
+          <div className="flex gap-2 shrink-0">
+            {status === "error"
+              ? <Button type="button" onClick={reload}>{t("common.retry")}</Button>
+              : <Button type="button" onClick={dismissError}>{t("common.close")}</Button>}
+          </div>
+        </div>
+      )}
+      {quarantined.length > 0 && (
+        <div role="status" className="flex items-center justify-between gap-3 rounded-xl border border-amber-300 bg-amber-50 dark:bg-amber-950/40 p-3 text-sm text-amber-800 dark:text-amber-200">
+          <span>
+            {t("quarantine.found", {
+              count: quarantined.length,
+              reasons: Array.from(new Set(quarantined.map((q) => q.reason))).join("; "),
+            })}
+          </span>
+          <div className="flex gap-2 shrink-0">
+            <Button type="button" onClick={onDownload}>{t("quarantine.download")}</Button>
+            <Button type="button" onClick={onClear}>{t("common.delete")}</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, Ctrl+Y also redoes). Text fields keep their
+// own native undo, so the shortcuts are ignored while one has focus.
+const useUndoShortcuts = () => {
+  const { undo, redo } = useProducts();
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo]);
+};
+
+const TOAST_MS = 6000;
+
+const UndoToast: React.FC = () => {
+  const { lastAction, undo, redo, undoLabel, redoLabel } = useProducts();
+  const { can } = useAuth();
+  const { t } = useI18n();
+  const [hiddenAt, setHiddenAt] = useState<number | null>(null);
+  useUndoShortcuts();
+
+  useEffect(() => {
+    if (!lastAction) return;
+    const timer = setTimeout(() => setHiddenAt(lastAction.at), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [lastAction]);
+
+  if (!lastAction || hiddenAt === lastAction.at || !can("edit")) return null;
+  const text = lastAction.kind === "do"
+    ? lastAction.label
+    : t(lastAction.kind === "undo" ? "toast.undone" : "toast.redone", { label: lastAction.label });
+  return (
+    <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-xl bg-zinc-900 text-white px-4 py-2 shadow-lg text-sm">
+      <span>{text}</span>
+      {lastAction.kind !== "undo" && undoLabel && <button type="button" className="font-semibold text-indigo-300 !bg-transparent !p-0" onClick={undo}>{t("toast.undo")}</button>}
+      {lastAction.kind === "undo" && redoLabel && (
+        <button type="button" className="font-semibold text-indigo-300 !bg-transparent !p-0" onClick={redo}>{t("toast.redo")}</button>
+      )}
+      <button type="button" aria-label={t("common.close")} className="text-zinc-400 !bg-transparent !p-0" onClick={() => setHiddenAt(lastAction.at)}>✕</button>
+    </div>
+  );
+};
+
+/***********************
+ * Login & Route guard *
+ ***********************/
+
+// Sends visitors to the login page and shows signed-in users without the permission why
+const RequirePermission: React.FC<{ permission: Permission; children: React.ReactNode }> = ({ permission, children }) => {
+  const { user, can } = useAuth();
+  const { t } = useI18n();
+  const location = useLocation();
+  if (!user) return <Navigate to={`/login?next=${encodeURIComponent(location.pathname + location.search)}`} replace />;
+  if (can(permission)) return <>{children}</>;
+  return (
+    <div className="max-w-3xl mx-auto p-4">
+      <Header />
+      <Card>
+        <div className="text-red-600">
+          {t("auth.noPermission", { name: user.ten, role: t(ROLE_LABELS[user.role]), action: t(PERMISSION_LABELS[permission]) })}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+const LoginPage: React.FC = () => {
+  const { user, signIn } = useAuth();
+  const { t } = useI18n();
+  const [params] = useSearchParams();
+  const nav = useNavigate();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  // Only same-site paths, so a crafted link can't bounce the user elsewhere
+  const next = params.get("next")?.startsWith("/") && !params.get("next")?.startsWith("//") ? params.get("next")! : "/";
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      await signIn(email, password);
+      nav(next, { replace: true });
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-3">{t("auth.signIn")}</h2>
       <Card>
-        <div className="space-y-3">
-          <div className="text-sm"><span className="text-zinc-500">Danh mục:</span> <b>{p.danhMuc}</b></div>
-          <div className="text-sm"><span className="text-zinc-500">Giá:</span> <b>{VND(p.gia)} đ</b></div>
-          <div className="text-sm"><span className="text-zinc-500">Số lượng:</span> <b>{p.soLuong}</b></div>
+        {user && <div className="text-sm text-zinc-500 mb-3">{t("auth.signedInAs", { email: user.email })}</div>}
+        <form onSubmit={submit} className="space-y-3">
+          <div>
+            <label className="text-sm text-zinc-500">{t("auth.email")}</label>
+            <Input type="email" autoComplete="username" autoFocus value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
           <div>
-            <div className="text-sm text-zinc-500 mb-1">Mô tả</div>
-            <div className="whitespace-pre-wrap">{p.moTa}</div>
+            <label className="text-sm text-zinc-500">{t("auth.password")}</label>
+            <Input type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
           </div>
+          {error && <div className="text-sm text-red-600">{error}</div>}
+          <Button type="submit" className="bg-indigo-600 text-white" disabled={busy || !email || !password}>
+            {busy ? t("auth.signingIn") : t("auth.signIn")}
+          </Button>
+        </form>
+        {/* The development identity provider only knows these accounts */}
+        <div className="mt-4 text-xs text-zinc-500">
+          {t("auth.demoAccounts")}
+          <ul className="mt-1 space-y-1">
+            {DEMO_USERS.map((u) => (
+              <li key={u.id}>
+                <button type="button" className="text-indigo-600 !bg-transparent !p-0" onClick={() => { setEmail(u.email); setPassword("demo"); }}>
+                  {u.email}
+                </button>{" "}
+                — {t(ROLE_LABELS[u.role])}
+              </li>
+            ))}
+          </ul>
         </div>
       </Card>
     </div>
   );
 };
 
-/****************
- * Layout/Header *
- ****************/
+/*****************
+ * Settings Page *
+ *****************/
 
-const Header: React.FC = () => (
-  <div className="mb-4">
-    <div className="flex items-center justify-between">
-      <Link to="/" className="text-xl font-bold">🛒 Product Manager</Link>
-      <div className="flex items-center gap-2 text-sm">
-        <Link to="/" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">Trang chủ</Link>
-        <Link to="/add" className="px-3 py-1 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800">Thêm</Link>
-      </div>
+// Language and the optional second currency are per browser, so anyone may change them
+const SettingsPage: React.FC = () => {
+  const { locale, setLocale, currency, setCurrency, t } = useI18n();
+  const [code, setCode] = useState(currency?.code ?? "");
+  const [rate, setRate] = useState(currency ? String(currency.rate) : "");
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+  const sample = 100000;
+  const draft = code && Number(rate) > 0 ? { code, rate: Number(rate) } : null;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code && !draft) {
+      setError(t("settings.rateInvalid"));
+      return;
+    }
+    setError("");
+    setCurrency(draft);
+    setSaved(true);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-4">
+      <Header />
+      <h2 className="text-2xl font-bold mb-3">{t("settings.title")}</h2>
+      <Card className="mb-4">
+        <label className="text-sm text-zinc-500">{t("header.language")}</label>
+        <Select value={locale} onChange={(e) => setLocale(e.target.value as Locale)}>
+          {LOCALES.map((l) => <option key={l.value} value={l.value}>{l.label}</option>)}
+        </Select>
+      </Card>
+      <Card>
+        <form onSubmit={submit} className="space-y-3">
+          <div className="text-sm text-zinc-500">{t("settings.currencyHint")}</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm text-zinc-500">{t("settings.currency")}</label>
+              <Select value={code} onChange={(e) => { setCode(e.target.value); setSaved(false); }}>
+                <option value="">{t("settings.noCurrency")}</option>
+                {SECOND_CURRENCIES.map((c) => <option key={c} value={c}>{c}</option>)}
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm text-zinc-500">{t("settings.rate", { code: code || "…" })}</label>
+              <Input type="number" min="0" step="any" disabled={!code} value={rate} onChange={(e) => { setRate(e.target.value); setSaved(false); }} />
+            </div>
+          </div>
+          {draft && (
+            <div className="text-sm">
+              {t("settings.preview")} {formatMoney(sample)} ≈ {formatSecondMoney(sample, draft)}
+            </div>
+          )}
+          {error && <div className="text-sm text-red-600">{error}</div>}
+          <div className="flex items-center gap-3">
+            <Button type="submit" className="bg-indigo-600 text-white">{t("common.save")}</Button>
+            {saved && <span className="text-sm text-green-700">{t("settings.saved")}</span>}
+          </div>
+        </form>
+      </Card>
     </div>
-  </div>
-);
+  );
+};
 
 /*************
  * Home Page *
@@ -590,24 +8939,51 @@ const HomePage: React.FC = () => <ProductListPage />;
  * App  *
  ********/
 
-const Shell: React.FC = () => (
-  <div className="min-h-screen bg-zinc-50 dark:bg-black text-zinc-900 dark:text-zinc-100">
-    <Routes>
-      <Route path="/" element={<HomePage />} />
-      <Route path="/products/:id" element={<DetailPage />} />
-      <Route path="/add" element={<AddPage />} />
-      <Route path="/edit/:id" element={<EditPage />} />
-      <Route path="*" element={<div className="p-6">404 - Không tìm thấy trang</div>} />
-    </Routes>
-  </div>
-);
+const NotFound: React.FC = () => {
+  const { t } = useI18n();
+  return <div className="p-6">404 - {t("app.notFound")}</div>;
+};
+
+const Shell: React.FC = () => {
+  usePriceSchedule();
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-black text-zinc-900 dark:text-zinc-100">
+      <StatusBanner />
+      <UndoToast />
+      <Routes>
+        <Route path="/" element={<HomePage />} />
+        <Route path="/products/:id" element={<DetailPage />} />
+        <Route path="/add" element={<RequirePermission permission="edit"><AddPage /></RequirePermission>} />
+        <Route path="/edit/:id" element={<RequirePermission permission="edit"><EditPage /></RequirePermission>} />
+        <Route path="/import" element={<ImportExportPage />} />
+        <Route path="/categories" element={<RequirePermission permission="manageCategories"><CategoriesPage /></RequirePermission>} />
+        <Route path="/audit" element={<RequirePermission permission="audit"><AuditPage /></RequirePermission>} />
+        <Route path="/login" element={<LoginPage />} />
+        <Route path="/dashboard" element={<DashboardPage />} />
+        <Route path="/labels" element={<LabelsPage />} />
+        <Route path="/scan" element={<ScanPage />} />
+        <Route path="/merge" element={<RequirePermission permission="delete"><MergePage /></RequirePermission>} />
+        <Route path="/orders" element={<RequirePermission permission="edit"><OrdersPage /></RequirePermission>} />
+        <Route path="/orders/new" element={<RequirePermission permission="edit"><NewOrderPage /></RequirePermission>} />
+        <Route path="/orders/:id" element={<RequirePermission permission="edit"><OrderDetailPage /></RequirePermission>} />
+        <Route path="/orders/:id/receipt" element={<RequirePermission permission="edit"><ReceiptPage /></RequirePermission>} />
+        <Route path="/settings" element={<SettingsPage />} />
+        <Route path="*" element={<NotFound />} />
+      </Routes>
+    </div>
+  );
+};
 
 export default function App() {
   return (
-    <ProductProvider>
-      <BrowserRouter>
-        <Shell />
-      </BrowserRouter>
-    </ProductProvider>
+    <I18nProvider>
+      <AuthProvider>
+        <ProductProvider>
+          <BrowserRouter>
+            <Shell />
+          </BrowserRouter>
+        </ProductProvider>
+      </AuthProvider>
+    </I18nProvider>
   );
 }
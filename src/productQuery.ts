@@ -0,0 +1,369 @@
+// Catalogue querying: search, filters and sort. Kept out of App.tsx so the filter
+// worker (productQuery.worker.ts) can run it without loading the UI.
+import type { AttributeDef, Category, DanhMuc, FilterCondition, FilterGroup, Product, SortKey } from "./App";
+
+/**********
+ * Search *
+ **********/
+
+const foldChar = (ch: string) => ch.normalize("NFD").replace(/\p{M}/gu, "").replace(/đ/g, "d").replace(/Đ/g, "D").toLowerCase();
+const foldCache = new Map<string, string>();
+
+// Lower-case, no Vietnamese diacritics: "Bánh Mì Đặc Biệt" -> "banh mi dac biet".
+// Works per character through a cache, which is much faster than normalising
+// whole strings when indexing a large catalogue.
+export const fold = (text: string) => {
+  let out = "";
+  for (const ch of text) {
+    let f = foldCache.get(ch);
+    if (f === undefined) foldCache.set(ch, (f = foldChar(ch)));
+    out += f;
+  }
+  return out;
+};
+
+// Folded Vietnamese is plain ASCII; the upper ranges keep other scripts searchable
+// while still splitting on general punctuation (U+2000-U+206F)
+export const WORD_RE = /[a-z0-9\u00c0-\u1fff\u2070-\uffff]+/g;
+
+const tokenize = (folded: string) => folded.match(WORD_RE) ?? [];
+
+// Same as fold(), plus for every output char the index of the input char it came
+// from, so matches found in folded text can be highlighted in the original
+export const foldWithMap = (text: string) => {
+  let folded = "";
+  const map: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    for (const ch of foldChar(text[i])) {
+      folded += ch;
+      map.push(i);
+    }
+  }
+  return { folded, map };
+};
+
+const FIELD_WEIGHTS = { ten: 3, moTa: 1 } as const;
+
+export type SearchIndex = {
+  postings: Map<string, Map<number, number>>; // term -> product id -> best field weight
+  sorted: string[]; // vocabulary in code-unit order, for prefix lookups by binary search
+  byLength: Map<number, string[]>; // vocabulary bucketed by length, for typo lookups
+};
+
+export type SearchHit = { score: number; terms: string[] };
+
+export const buildSearchIndex = (products: Product[]): SearchIndex => {
+  const postings = new Map<string, Map<number, number>>();
+  for (const p of products) {
+    for (const field of ["ten", "moTa"] as const) {
+      for (const term of tokenize(fold(p[field]))) {
+        let ids = postings.get(term);
+        if (!ids) postings.set(term, (ids = new Map()));
+        ids.set(p.id, Math.max(ids.get(p.id) ?? 0, FIELD_WEIGHTS[field]));
+      }
+    }
+  }
+  const byLength = new Map<number, string[]>();
+  for (const term of postings.keys()) {
+    if (/^\d+$/.test(term)) continue; // numbers are never typo candidates, see matchTerms
+    const bucket = byLength.get(term.length);
+    if (bucket) bucket.push(term);
+    else byLength.set(term.length, [term]);
+  }
+  const sorted = [...postings.keys()].sort();
+  return { postings, sorted, byLength };
+};
+
+// Edit distance where swapping two neighbouring letters counts as one typo
+// (optimal string alignment); gives up, returning max + 1, once it must exceed `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) cur[j] = Math.min(cur[j], prev2[j - 2] + 1);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+};
+
+// Vocabulary terms a query token matches, with a match quality in (0, 1]:
+// exact 1, prefix 0.8 (so results appear while typing), typo 0.6 or 0.4
+const matchTerms = (index: SearchIndex, token: string): Map<string, number> => {
+  const out = new Map<string, number>();
+  if (index.postings.has(token)) out.set(token, 1);
+  if (token.length >= 2) {
+    let lo = 0;
+    let hi = index.sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (index.sorted[mid] < token) lo = mid + 1;
+      else hi = mid;
+    }
+    for (let i = lo; i < index.sorted.length && index.sorted[i].startsWith(token); i++) {
+      if (index.sorted[i] !== token) out.set(index.sorted[i], 0.8);
+    }
+  }
+  // Numbers (codes, sizes) are matched exactly or by prefix, never as typos
+  if (token.length >= 4 && !/^\d+$/.test(token)) {
+    const max = token.length >= 8 ? 2 : 1;
+    for (let len = token.length - max; len <= token.length + max; len++) {
+      for (const t of index.byLength.get(len) ?? []) {
+        if (out.has(t)) continue;
+        const d = editDistance(token, t, max);
+        if (d <= max) out.set(t, d === 1 ? 0.6 : 0.4);
+      }
+    }
+  }
+  return out;
+};
+
+// Every query token must match something in the product (AND); the score adds up
+// the best match per token, weighted by the field it was found in
+export const searchProducts = (index: SearchIndex, query: string): Map<number, SearchHit> => {
+  const tokens = [...new Set(tokenize(fold(query)))];
+  let hits: Map<number, SearchHit> | null = null;
+  for (const token of tokens) {
+    const perProduct = new Map<number, SearchHit>();
+    for (const [term, quality] of matchTerms(index, token)) {
+      for (const [id, weight] of index.postings.get(term)!) {
+        if (hits && !hits.has(id)) continue;
+        const hit = perProduct.get(id) ?? { score: 0, terms: [] };
+        hit.score = Math.max(hit.score, quality * weight);
+        hit.terms.push(term);
+        perProduct.set(id, hit);
+      }
+    }
+    const merged = new Map<number, SearchHit>();
+    for (const [id, hit] of perProduct) {
+      const before = hits?.get(id);
+      merged.set(id, before ? { score: before.score + hit.score, terms: [...before.terms, ...hit.terms] } : hit);
+    }
+    hits = merged;
+    if (!hits.size) break;
+  }
+  return hits ?? new Map();
+};
+
+/**************
+ * Duplicates *
+ **************/
+
+// Folded words, single-spaced: "Áo  Thun-Nam" -> "ao thun nam"
+const normalizeName = (ten: string) => tokenize(fold(ten)).join(" ");
+
+const bigrams = (s: string) => {
+  const out = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++) out.set(s.slice(i, i + 2), (out.get(s.slice(i, i + 2)) ?? 0) + 1);
+  return out;
+};
+
+// Dice coefficient over the character pairs of two normalised names
+const dice = (x: string, y: string, bx = bigrams(x), by = bigrams(y)) => {
+  if (x === y) return x ? 1 : 0;
+  if (x.length < 2 || y.length < 2) return 0;
+  let shared = 0;
+  for (const [pair, n] of bx) shared += Math.min(n, by.get(pair) ?? 0);
+  return (2 * shared) / (x.length + y.length - 2);
+};
+
+export const DUPLICATE_THRESHOLD = 0.7;
+
+// Products of the same category named like `ten`, most similar first. Names that differ
+// only in case, accents, spacing or punctuation score 1; a typo or an extra word still
+// scores above the threshold.
+export const findNearDuplicates = (products: Product[], ten: string, danhMuc: DanhMuc, limit = 3) => {
+  const x = normalizeName(ten);
+  const bx = bigrams(x);
+  return products
+    .filter((p) => p.danhMuc === danhMuc)
+    .map((product) => {
+      const y = normalizeName(product.ten);
+      return { product, score: dice(x, y, bx, bigrams(y)) };
+    })
+    .filter((m) => m.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**************
+ * Categories *
+ **************/
+
+// The category itself plus everything nested below it
+export const descendantIds = (categories: Category[], id: string): Set<string> => {
+  const out = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const c of categories) {
+      if (c.parentId && out.has(c.parentId) && !out.has(c.id)) {
+        out.add(c.id);
+        grew = true;
+      }
+    }
+  }
+  return out;
+};
+
+export const categoryNamesUnder = (categories: Category[], ten: DanhMuc): Set<DanhMuc> => {
+  const root = categories.find((c) => c.ten === ten);
+  if (!root) return new Set([ten]);
+  const ids = descendantIds(categories, root.id);
+  return new Set(categories.filter((c) => ids.has(c.id)).map((c) => c.ten));
+};
+
+/***********
+ * Filters *
+ ***********/
+
+export const isLowStock = (p: Product) => p.nguongDatHang > 0 && p.soLuong <= p.nguongDatHang;
+
+// One FilterState.attrs condition. Products without the attribute never match.
+export const matchesAttribute = (p: Product, def: AttributeDef | undefined, key: string, wanted: string) => {
+  const [khoa, bound] = key.split(".");
+  const value = p.dacTinh[khoa];
+  if (value === undefined) return false;
+  if (def?.kieu === "select") return value === wanted;
+  if (bound) {
+    // Numbers compare as numbers, YYYY-MM-DD dates as strings
+    const cmp = typeof value === "number" ? value - Number(wanted) : String(value).localeCompare(wanted);
+    return bound === "min" ? cmp >= 0 : cmp <= 0;
+  }
+  return fold(String(value)).includes(fold(wanted.trim()));
+};
+
+export const isFilterGroupNode = (node: FilterCondition | FilterGroup): node is FilterGroup => "join" in node;
+
+// Numbers compare as numbers; dates (YYYY-MM-DD) and text as strings
+const compareFilterValue = (value: string | number, wanted: string) =>
+  typeof value === "number" ? value - Number(wanted) : String(value).localeCompare(wanted);
+
+// null when the condition is still being filled in, so it doesn't narrow anything down
+const compileCondition = (c: FilterCondition, categories: Category[]): ((p: Product) => boolean) | null => {
+  const values = c.values.map((v) => v.trim());
+  const [first = "", second = ""] = values;
+  const attribute = c.field.startsWith("a.") ? c.field.slice(2) : null;
+  if (c.op === "between" ? !first && !second : c.op === "in" || c.op === "notIn" ? !values.some(Boolean) : !first) return null;
+
+  let test: (value: string | number) => boolean;
+  switch (c.op) {
+    case "has":
+    case "notHas": {
+      const wanted = fold(first);
+      test = c.op === "has" ? (v) => fold(String(v)).includes(wanted) : (v) => !fold(String(v)).includes(wanted);
+      break;
+    }
+    case "eq":
+      test = (v) => (typeof v === "number" ? v === Number(first) : fold(String(v)) === fold(first));
+      break;
+    case "gte":
+      test = (v) => compareFilterValue(v, first) >= 0;
+      break;
+    case "lte":
+      test = (v) => compareFilterValue(v, first) <= 0;
+      break;
+    case "between":
+      test = (v) => (!first || compareFilterValue(v, first) >= 0) && (!second || compareFilterValue(v, second) <= 0);
+      break;
+    case "in":
+    case "notIn": {
+      // A parent category stands for its sub-categories too, as in the simple filter
+      const wanted = new Set(
+        c.field === "danhMuc" ? values.filter(Boolean).flatMap((ten) => [...categoryNamesUnder(categories, ten)]) : values,
+      );
+      test = c.op === "in" ? (v) => wanted.has(String(v)) : (v) => !wanted.has(String(v));
+      break;
+    }
+  }
+  return (p) => {
+    const value = attribute ? p.dacTinh[attribute] : (p[c.field as keyof Product] as string | number);
+    // A product without the attribute only satisfies the negative operators
+    return value === undefined ? c.op === "notHas" || c.op === "notIn" : test(value);
+  };
+};
+
+// Resolves categories once up front instead of per product; null when nothing in the
+// group constrains the result
+export const compileFilter = (group: FilterGroup, categories: Category[]): ((p: Product) => boolean) | null => {
+  const parts = group.items
+    .map((item) => (isFilterGroupNode(item) ? compileFilter(item, categories) : compileCondition(item, categories)))
+    .filter((part) => part !== null);
+  if (!parts.length) return null;
+  return group.join === "and" ? (p) => parts.every((part) => part(p)) : (p) => parts.some((part) => part(p));
+};
+
+/********
+ * Sort *
+ ********/
+
+const viCollator = new Intl.Collator("vi", { sensitivity: "base", numeric: true });
+
+export const compareBy = (keys: SortKey[]) => (a: Product, b: Product) => {
+  for (const { field, dir } of keys) {
+    const diff = field === "ten" ? viCollator.compare(a.ten, b.ten) : a[field] - b[field];
+    if (diff !== 0) return dir === "asc" ? diff : -diff;
+  }
+  return 0;
+};
+
+/*********
+ * Query *
+ *********/
+
+// FilterState with the sort and advanced filter already parsed, so it can be posted to
+// the worker as is
+export type ProductQuery = {
+  q: string;
+  danhMuc: DanhMuc | "";
+  min: string;
+  max: string;
+  low: boolean;
+  attrs: Record<string, string>;
+  where: FilterGroup | null;
+  sort: SortKey[];
+};
+
+// `index` is only needed when there is a search query
+export const queryProducts = (products: Product[], categories: Category[], query: ProductQuery, index: SearchIndex | null) => {
+  const hits = query.q.trim() && index ? searchProducts(index, query.q) : null;
+  let list = products;
+  if (hits) list = list.filter((p) => hits.has(p.id));
+  if (query.danhMuc) {
+    // A parent category also matches products filed under its sub-categories
+    const names = categoryNamesUnder(categories, query.danhMuc);
+    list = list.filter((p) => names.has(p.danhMuc));
+  }
+  const min = query.min ? Number(query.min) : undefined;
+  const max = query.max ? Number(query.max) : undefined;
+  if (min != null && !Number.isNaN(min)) list = list.filter((p) => p.gia >= min);
+  if (max != null && !Number.isNaN(max)) list = list.filter((p) => p.gia <= max);
+  if (query.low) list = list.filter(isLowStock);
+  const attrs = Object.entries(query.attrs).filter(([, v]) => v);
+  if (attrs.length) {
+    const defs = new Map(categories.flatMap((c) => c.dacTinh).map((d) => [d.khoa, d] as const));
+    list = list.filter((p) => attrs.every(([key, wanted]) => matchesAttribute(p, defs.get(key.split(".")[0]), key, wanted)));
+  }
+  const matchesWhere = query.where && compileFilter(query.where, categories);
+  if (matchesWhere) list = list.filter(matchesWhere);
+  // An explicit sort wins; otherwise search results come best match first
+  if (query.sort.length) list = [...list].sort(compareBy(query.sort));
+  else if (hits) list = [...list].sort((a, b) => hits.get(b.id)!.score - hits.get(a.id)!.score);
+  return { list, hits };
+};
+
+// Messages to and from the worker. The catalogue is sent once per change; each query
+// carries an id so an answer to an outdated query can be told apart.
+export type QueryRequest =
+  | { kind: "data"; products: Product[]; categories: Category[] }
+  | { kind: "query"; id: number; query: ProductQuery };
+
+export type QueryResponse = { id: number; ids: number[]; hits: [number, SearchHit][] | null };
@@ -0,0 +1,21 @@
+// Runs queryProducts off the main thread for large catalogues (see useFilteredProducts).
+// The search index is built once per catalogue, the first time a query needs it.
+import { buildSearchIndex, queryProducts, type QueryRequest, type QueryResponse, type SearchIndex } from "./productQuery";
+import type { Category, Product } from "./App";
+
+let products: Product[] = [];
+let categories: Category[] = [];
+let index: SearchIndex | null = null;
+
+self.onmessage = (e: MessageEvent<QueryRequest>) => {
+  const msg = e.data;
+  if (msg.kind === "data") {
+    ({ products, categories } = msg);
+    index = null;
+    return;
+  }
+  if (msg.query.q.trim()) index ??= buildSearchIndex(products);
+  const { list, hits } = queryProducts(products, categories, msg.query, index);
+  const response: QueryResponse = { id: msg.id, ids: list.map((p) => p.id), hits: hits && [...hits] };
+  self.postMessage(response);
+};